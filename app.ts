@@ -9,6 +9,13 @@ import rootRouter from "./routes/root";
 // Customer routes
 import customerAuthRoutes from "./routes/customer/auth.routes";
 import customerOrderRoutes from "./routes/customer/order.routes";
+import customerCouponRoutes from "./routes/customer/coupon.routes";
+import customerShippingRoutes from "./routes/customer/shipping.routes";
+import customerAddressRoutes from "./routes/customer/address.routes";
+import customerCartRoutes from "./routes/customer/cart.routes";
+import customerGuestOrderRoutes from "./routes/customer/guestOrder.routes";
+import customerWishlistRoutes from "./routes/customer/wishlist.routes";
+import customerNotificationRoutes from "./routes/customer/notification.routes";
 // Admin routes
 import adminAuthRoutes from "./routes/admin/auth.routes";
 import adminUserRoutes from "./routes/admin/user.routes";
@@ -20,14 +27,32 @@ import adminVariantRoutes from "./routes/admin/variant.routes";
 import adminInventoryRoutes from "./routes/admin/inventory.routes";
 import adminCouponRoutes from "./routes/admin/coupon.routes";
 import adminOrderRoutes from "./routes/admin/order.routes";
+import adminShippingRoutes from "./routes/admin/shipping.routes";
+import adminReturnRoutes from "./routes/admin/return.routes";
+import adminAuditRoutes from "./routes/admin/audit.routes";
+import adminApiKeyRoutes from "./routes/admin/apiKey.routes";
+// Payment provider routes
+import mpesaRoutes from "./routes/payment/mpesa.routes";
+import paymentWebhookRoutes from "./routes/payment/webhook.routes";
+import paymentLinkRoutes from "./routes/payment/link.routes";
 import { logger } from "./middleware/logger";
+import requestId from "./middleware/requestId";
+import { auditTrail } from "./middleware/audit";
 
 const app = express();
 
 // Middleware
+app.use(requestId);
 app.use(logger);
 app.use(cors(corsOptions));
-app.use(express.json());
+app.use(
+    express.json({
+        // Keep the raw body for payment webhook signature checks
+        verify: (req, res, buf) => {
+            (req as any).rawBody = buf;
+        },
+    })
+);
 app.use(cookieParser());
 app.use(express.static(path.join(__dirname, "public")));
 app.use("/", express.static(path.join(__dirname, "/public")));
@@ -52,18 +77,52 @@ app.use("/", rootRouter);
 // Customer routes
 app.use("/customer/auth", customerAuthRoutes); // Customer authentication
 app.use("/customer/orders", customerOrderRoutes); // Customer order operations
+app.use("/customer/coupons", customerCouponRoutes); // Coupon previews
+app.use("/customer/shipping", customerShippingRoutes); // Shipping quotes
+app.use("/customer/addresses", customerAddressRoutes); // Customer address book
+app.use("/customer/cart", customerCartRoutes); // Customer and guest carts
+app.use("/customer/guest-orders", customerGuestOrderRoutes); // Guest order tracking
+app.use("/customer/wishlist", customerWishlistRoutes); // Saved variants and alerts
+app.use("/customer/notifications", customerNotificationRoutes); // Customer notifications
 
 // Admin routes
-app.use("auth", adminAuthRoutes); // Admin/Staff authentication
+app.use("/auth", adminAuthRoutes); // Admin/Staff authentication
+// Changes made through the routers below are written to the audit log
+app.use(
+    [
+        "/users",
+        "/permissions",
+        "/roles",
+        "/api-keys",
+        "/stores",
+        "/products",
+        "/variants",
+        "/inventory",
+        "/coupons",
+        "/orders",
+        "/shipping",
+        "/returns",
+    ],
+    auditTrail
+);
 app.use("/users", adminUserRoutes);
 app.use("/permissions", adminPermissionRoutes);
 app.use("/roles", adminRoleRoutes);
+app.use("/api-keys", adminApiKeyRoutes); // Keys for integrations (ERP, POS)
 app.use("/stores", adminStoreRoutes);
 app.use("/products", adminProductRoutes);
 app.use("/variants", adminVariantRoutes);
 app.use("/inventory", adminInventoryRoutes);
 app.use("/coupons", adminCouponRoutes);
 app.use("/orders", adminOrderRoutes); // Admin order management
+app.use("/shipping", adminShippingRoutes); // Shipping zones, locations and rules
+app.use("/returns", adminReturnRoutes); // Return requests (RMA)
+app.use("/audit", adminAuditRoutes); // Audit log of admin changes
+
+// Payment provider routes
+app.use("/payments/mpesa", mpesaRoutes); // M-Pesa Express callbacks
+app.use("/payments/webhooks", paymentWebhookRoutes); // Card and PayPal webhooks
+app.use("/payments/link", paymentLinkRoutes); // Signed "complete payment" links
 
 // 404 Handler
 app.all("*", (req, res) => {
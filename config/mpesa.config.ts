@@ -0,0 +1,35 @@
+/**
+ * M-Pesa Express (STK push) configuration
+ * Set MPESA_PROVIDER=fake to run the payment flow offline
+ */
+
+export type MpesaProviderName = "daraja" | "fake";
+
+export interface MpesaConfig {
+    provider: MpesaProviderName;
+    environment: "sandbox" | "production";
+    consumerKey: string;
+    consumerSecret: string;
+    shortCode: string;
+    passkey: string;
+    callbackUrl: string;
+    callbackToken: string; // Shared secret expected on callback requests
+}
+
+const mpesaConfig: MpesaConfig = {
+    provider: process.env.MPESA_PROVIDER === "fake" ? "fake" : "daraja",
+    environment:
+        process.env.MPESA_ENVIRONMENT === "production"
+            ? "production"
+            : "sandbox",
+    consumerKey: process.env.MPESA_CONSUMER_KEY || "",
+    consumerSecret: process.env.MPESA_CONSUMER_SECRET || "",
+    shortCode: process.env.MPESA_SHORTCODE || "",
+    passkey: process.env.MPESA_PASSKEY || "",
+    callbackUrl:
+        process.env.MPESA_CALLBACK_URL ||
+        `${process.env.DOMAIN}/payments/mpesa/callback`,
+    callbackToken: process.env.MPESA_CALLBACK_TOKEN || "",
+};
+
+export default mpesaConfig;
@@ -0,0 +1,66 @@
+/**
+ * Card (Stripe) and PayPal gateway configuration, and reminders for
+ * orders left unpaid
+ */
+
+export interface PaymentConfig {
+    currency: string; // ISO currency code charged by the gateways
+    returnUrl: string; // Where customers land after approving a payment
+    cancelUrl: string;
+    stripe: {
+        secretKey: string;
+        webhookSecret: string;
+    };
+    paypal: {
+        environment: "sandbox" | "live";
+        clientId: string;
+        clientSecret: string;
+        webhookId: string;
+    };
+    reminders: {
+        afterMinutes: number; // Order age before the first reminder
+        intervalHours: number; // Minimum gap between reminders for one order
+        maxPerOrder: number;
+        linkUrl: string; // Page the "complete payment" link opens
+        linkSecret: string; // Signs the payment link token
+        linkTtlHours: number;
+    };
+}
+
+const paymentConfig: PaymentConfig = {
+    currency: (process.env.PAYMENT_CURRENCY || "KES").toUpperCase(),
+    returnUrl:
+        process.env.PAYMENT_RETURN_URL ||
+        `${process.env.CLIENT_URL}/checkout/complete`,
+    cancelUrl:
+        process.env.PAYMENT_CANCEL_URL ||
+        `${process.env.CLIENT_URL}/checkout/cancelled`,
+    stripe: {
+        secretKey: process.env.STRIPE_SECRET_KEY || "",
+        webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || "",
+    },
+    paypal: {
+        environment:
+            process.env.PAYPAL_ENVIRONMENT === "live" ? "live" : "sandbox",
+        clientId: process.env.PAYPAL_CLIENT_ID || "",
+        clientSecret: process.env.PAYPAL_CLIENT_SECRET || "",
+        webhookId: process.env.PAYPAL_WEBHOOK_ID || "",
+    },
+    reminders: {
+        afterMinutes:
+            parseInt(process.env.PAYMENT_REMINDER_AFTER_MINUTES || "") || 15,
+        intervalHours:
+            parseInt(process.env.PAYMENT_REMINDER_INTERVAL_HOURS || "") || 24,
+        maxPerOrder: parseInt(process.env.PAYMENT_REMINDER_MAX || "") || 3,
+        linkUrl:
+            process.env.PAYMENT_LINK_URL ||
+            `${process.env.CLIENT_URL}/checkout/pay`,
+        linkSecret:
+            process.env.PAYMENT_LINK_SECRET ||
+            (process.env.ACCESS_TOKEN_SECRET as string),
+        linkTtlHours:
+            parseInt(process.env.PAYMENT_LINK_TTL_HOURS || "") || 72,
+    },
+};
+
+export default paymentConfig;
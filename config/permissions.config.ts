@@ -0,0 +1,43 @@
+import { Action } from "../generated/prisma/client";
+
+/**
+ * Every resource the admin API protects and the actions it checks.
+ * Synced to the Permission table at startup, so roles can be granted any
+ * of these before a route has been hit. requirePermission only accepts
+ * resource/action pairs listed here.
+ */
+export const PERMISSION_REGISTRY = {
+    users: ["view", "create", "edit", "delete"],
+    roles: ["view", "create", "edit", "delete"],
+    permissions: ["view", "edit"],
+    stores: ["view", "create", "edit", "delete"],
+    products: ["view", "create", "edit", "delete"],
+    inventory: ["view", "edit"],
+    coupons: ["view", "create", "edit", "delete"],
+    orders: ["view", "edit", "delete"],
+    shipping: ["view", "create", "edit", "delete"],
+    audit: ["view"],
+    apiKeys: ["view", "create", "delete"],
+} as const satisfies Record<string, readonly Action[]>;
+
+// Built-in role that passes every permission check (compared without case)
+export const ADMIN_ROLE_NAME = "admin";
+
+export const isAdminRole = (name: string) =>
+    name.toLowerCase() === ADMIN_ROLE_NAME;
+
+export type PermissionResource = keyof typeof PERMISSION_REGISTRY;
+
+export type PermissionAction<R extends PermissionResource> =
+    (typeof PERMISSION_REGISTRY)[R][number];
+
+/**
+ * The registry as flat { resource, action } pairs
+ */
+export const registeredPermissions = (): {
+    resource: string;
+    action: Action;
+}[] =>
+    Object.entries(PERMISSION_REGISTRY).flatMap(([resource, actions]) =>
+        actions.map((action) => ({ resource, action }))
+    );
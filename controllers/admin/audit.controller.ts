@@ -0,0 +1,59 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import AuditService, {
+    AuditFilters,
+} from "../../services/user/audit.service";
+
+const filtersSchema = z.object({
+    userId: z.coerce.number().int().positive().optional(),
+    entity: z.string().optional(),
+    entityId: z.string().optional(),
+    action: z.string().optional(),
+    requestId: z.string().optional(),
+    dateFrom: z.coerce.date().optional(),
+    dateTo: z.coerce.date().optional(),
+});
+
+const adminAuditController = {
+    /**
+     * Get audit log entries with filtering and pagination
+     */
+    getLogs: async (req: Request, res: Response): Promise<void> => {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const filters: AuditFilters = filtersSchema.parse(req.query);
+
+        const result = await AuditService.getLogs(filters, page, limit);
+
+        res.json({
+            success: true,
+            data: {
+                logs: result.logs,
+                pagination: {
+                    currentPage: page,
+                    totalPages: result.pages,
+                    totalLogs: result.total,
+                    hasNext: page < result.pages,
+                    hasPrev: page > 1,
+                },
+            },
+        });
+    },
+
+    /**
+     * Recompute the hash chain and report the first broken entry
+     */
+    verifyChain: async (req: Request, res: Response): Promise<void> => {
+        const result = await AuditService.verifyChain();
+
+        res.json({
+            success: true,
+            message: result.valid
+                ? "Audit log is intact"
+                : `Audit log chain is broken at entry ${result.brokenAt}`,
+            data: result,
+        });
+    },
+};
+
+export default adminAuditController;
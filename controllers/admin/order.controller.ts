@@ -11,6 +11,11 @@ import {
     canReturnOrder,
     calculateEstimatedDelivery,
 } from "../../utils/orderUtils";
+import { canTransitionTo } from "../../validation/order.validation";
+
+// Store the caller's permission is limited to, set by requirePermission
+const storeScope = (req: Request): number | undefined =>
+    (req as any).storeScope;
 
 const adminOrderController = {
     /**
@@ -51,7 +56,12 @@ const adminOrderController = {
             }
         });
 
-        const result = await OrderService.getOrders(filters, page, limit);
+        const result = await OrderService.getOrders(
+            filters,
+            page,
+            limit,
+            storeScope(req)
+        );
 
         const ordersWithDisplay = result.orders.map((order) => ({
             ...order,
@@ -92,7 +102,10 @@ const adminOrderController = {
             return;
         }
 
-        const order = await OrderService.getOrderById(orderId);
+        const order = await OrderService.getOrderById(
+            orderId,
+            storeScope(req)
+        );
 
         if (!order) {
             res.status(404).json({
@@ -159,7 +172,9 @@ const adminOrderController = {
 
         const updatedOrder = await OrderService.updateOrder(
             orderId,
-            updateData
+            updateData,
+            { userId: (req as any).userId },
+            storeScope(req)
         );
 
         res.json({
@@ -198,7 +213,12 @@ const adminOrderController = {
 
         const { reason } = schema.parse(req.body);
 
-        const cancelledOrder = await OrderService.cancelOrder(orderId, reason);
+        const cancelledOrder = await OrderService.cancelOrder(
+            orderId,
+            reason,
+            { userId: (req as any).userId },
+            storeScope(req)
+        );
 
         res.json({
             success: true,
@@ -227,7 +247,7 @@ const adminOrderController = {
             return;
         }
 
-        await OrderService.deleteOrder(orderId);
+        await OrderService.deleteOrder(orderId, storeScope(req));
 
         res.json({
             success: true,
@@ -252,7 +272,8 @@ const adminOrderController = {
         const analytics = await OrderService.getOrderAnalytics(
             storeId,
             dateFrom,
-            dateTo
+            dateTo,
+            storeScope(req)
         );
 
         // Format analytics for display
@@ -304,7 +325,8 @@ const adminOrderController = {
         const result = await OrderService.getCustomerOrders(
             customerId,
             page,
-            limit
+            limit,
+            storeScope(req)
         );
 
         const ordersWithDisplay = result.orders.map((order) => ({
@@ -353,10 +375,41 @@ const adminOrderController = {
         const { orderIds, status, notes } = schema.parse(req.body);
 
         const results = [];
+        const rejected = [];
         const errors = [];
 
         for (const orderId of orderIds) {
             try {
+                const order = await OrderService.getOrderById(
+                    orderId,
+                    storeScope(req)
+                );
+                if (!order) {
+                    errors.push({
+                        orderId,
+                        success: false,
+                        error: "Order not found",
+                    });
+                    continue;
+                }
+
+                // Report illegal transitions separately from failures
+                if (
+                    order.status !== status &&
+                    !canTransitionTo(order.status, status)
+                ) {
+                    rejected.push({
+                        orderId,
+                        success: false,
+                        fromStatus: order.status,
+                        toStatus: status,
+                        error: `Cannot change order status from ${formatOrderStatus(
+                            order.status
+                        )} to ${formatOrderStatus(status)}`,
+                    });
+                    continue;
+                }
+
                 const updateData: UpdateOrderData = { status };
                 if (notes) {
                     updateData.notes = notes;
@@ -364,7 +417,9 @@ const adminOrderController = {
 
                 const updatedOrder = await OrderService.updateOrder(
                     orderId,
-                    updateData
+                    updateData,
+                    { userId: (req as any).userId },
+                    storeScope(req)
                 );
                 results.push({
                     orderId,
@@ -385,9 +440,10 @@ const adminOrderController = {
 
         res.json({
             success: true,
-            message: `Bulk update completed. ${results.length} successful, ${errors.length} failed.`,
+            message: `Bulk update completed. ${results.length} successful, ${rejected.length} rejected, ${errors.length} failed.`,
             data: {
                 successful: results,
+                rejected,
                 failed: errors,
             },
         });
@@ -428,7 +484,12 @@ const adminOrderController = {
         });
 
         // Get all orders matching filters (no pagination for export)
-        const result = await OrderService.getOrders(filters, 1, 10000);
+        const result = await OrderService.getOrders(
+            filters,
+            1,
+            10000,
+            storeScope(req)
+        );
 
         // Generate CSV content
         const csvHeaders = [
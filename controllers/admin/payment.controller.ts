@@ -0,0 +1,132 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import PaymentGatewayService from "../../services/payment/gateway.service";
+import TransactionService from "../../services/payment/transaction.service";
+import PaymentReminderService from "../../services/payment/paymentReminder.service";
+import OrderService from "../../services/order/order.service";
+import { scopedStoreId } from "../../utils/storeScope";
+
+const parseIds = (req: Request, res: Response) => {
+    const orderId = parseInt(req.params.id);
+    const transactionId = parseInt(req.params.transactionId);
+
+    if (isNaN(orderId) || isNaN(transactionId)) {
+        res.status(400).json({
+            success: false,
+            message: "Invalid order or payment ID",
+        });
+        return null;
+    }
+    return { orderId, transactionId };
+};
+
+const adminPaymentController = {
+    /**
+     * Get every payment and refund transaction of an order
+     */
+    getOrderPayments: async (req: Request, res: Response): Promise<void> => {
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order ID",
+            });
+            return;
+        }
+
+        await OrderService.assertOrderInScope(orderId, (req as any).storeScope);
+
+        const [transactions, balance] = await Promise.all([
+            TransactionService.getOrderTransactions(orderId),
+            TransactionService.getBalance(orderId),
+        ]);
+
+        res.json({
+            success: true,
+            data: { transactions, balance },
+        });
+    },
+
+    /**
+     * Capture an authorized card or PayPal payment
+     */
+    capturePayment: async (req: Request, res: Response): Promise<void> => {
+        const ids = parseIds(req, res);
+        if (!ids) return;
+
+        const schema = z.object({
+            amount: z.number().positive().optional(),
+        });
+        const { amount } = schema.parse(req.body);
+
+        await OrderService.assertOrderInScope(
+            ids.orderId,
+            (req as any).storeScope
+        );
+
+        const transaction = await PaymentGatewayService.capturePayment(
+            ids.orderId,
+            ids.transactionId,
+            amount
+        );
+
+        res.json({
+            success: true,
+            message: "Payment captured",
+            data: transaction,
+        });
+    },
+
+    /**
+     * Void an authorized card or PayPal payment
+     */
+    voidPayment: async (req: Request, res: Response): Promise<void> => {
+        const ids = parseIds(req, res);
+        if (!ids) return;
+
+        await OrderService.assertOrderInScope(
+            ids.orderId,
+            (req as any).storeScope
+        );
+
+        const transaction = await PaymentGatewayService.voidPayment(
+            ids.orderId,
+            ids.transactionId
+        );
+
+        res.json({
+            success: true,
+            message: "Payment voided",
+            data: transaction,
+        });
+    },
+
+    /**
+     * Report recovered vs. lost value of orders sent payment reminders
+     */
+    getRecoveryReport: async (req: Request, res: Response): Promise<void> => {
+        const storeId = req.query.storeId
+            ? parseInt(req.query.storeId as string)
+            : undefined;
+        const dateFrom = req.query.dateFrom
+            ? new Date(req.query.dateFrom as string)
+            : undefined;
+        const dateTo = req.query.dateTo
+            ? new Date(req.query.dateTo as string)
+            : undefined;
+
+        const report = await PaymentReminderService.getRecoveryReport({
+            storeId: scopedStoreId((req as any).storeScope, storeId),
+            dateFrom,
+            dateTo,
+        });
+
+        res.json({
+            success: true,
+            data: report,
+        });
+    },
+};
+
+export default adminPaymentController;
@@ -0,0 +1,118 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import RefundService from "../../services/payment/refund.service";
+import TransactionService from "../../services/payment/transaction.service";
+import OrderService from "../../services/order/order.service";
+
+const adminRefundController = {
+    /**
+     * Get refunds issued against an order along with its balance
+     */
+    getOrderRefunds: async (req: Request, res: Response): Promise<void> => {
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order ID",
+            });
+            return;
+        }
+
+        await OrderService.assertOrderInScope(orderId, (req as any).storeScope);
+
+        const [refunds, balance] = await Promise.all([
+            RefundService.getRefunds(orderId),
+            TransactionService.getBalance(orderId),
+        ]);
+
+        res.json({
+            success: true,
+            data: { refunds, balance },
+        });
+    },
+
+    /**
+     * Refund an order in full or in part
+     */
+    createRefund: async (req: Request, res: Response): Promise<void> => {
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order ID",
+            });
+            return;
+        }
+
+        const schema = z.object({
+            amount: z.number().positive().optional(),
+            items: z
+                .array(
+                    z.object({
+                        orderItemId: z.number().int().positive(),
+                        quantity: z.number().int().positive(),
+                    })
+                )
+                .min(1)
+                .optional(),
+            reason: z.string().optional(),
+            returnRequestId: z.number().int().positive().optional(),
+        });
+        const data = schema.parse(req.body);
+
+        await OrderService.assertOrderInScope(orderId, (req as any).storeScope);
+
+        const refunds = await RefundService.createRefund(
+            orderId,
+            data,
+            (req as any).userId
+        );
+
+        res.status(201).json({
+            success: true,
+            message: "Refund recorded successfully",
+            data: refunds,
+        });
+    },
+
+    /**
+     * Record the outcome of a pending refund, e.g. an M-Pesa reversal
+     */
+    resolveRefund: async (req: Request, res: Response): Promise<void> => {
+        const orderId = parseInt(req.params.id);
+        const refundId = parseInt(req.params.refundId);
+
+        if (isNaN(orderId) || isNaN(refundId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order or refund ID",
+            });
+            return;
+        }
+
+        const schema = z.object({
+            status: z.enum(["SUCCESS", "FAILED"]),
+            providerReference: z.string().min(1).optional(),
+            reason: z.string().optional(),
+        });
+        const data = schema.parse(req.body);
+
+        await OrderService.assertOrderInScope(orderId, (req as any).storeScope);
+
+        const refund = await RefundService.resolveRefund(
+            orderId,
+            refundId,
+            data
+        );
+
+        res.json({
+            success: true,
+            message: "Refund updated successfully",
+            data: refund,
+        });
+    },
+};
+
+export default adminRefundController;
@@ -0,0 +1,181 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { ReturnStatus } from "../../generated/prisma/client";
+import ReturnService, {
+    ReturnFilters,
+} from "../../services/order/return.service";
+
+const quantitiesSchema = z
+    .array(
+        z.object({
+            returnItemId: z.number().int().positive(),
+            quantity: z.number().int().min(0),
+        })
+    )
+    .min(1)
+    .optional();
+
+const storeScope = (req: Request): number | undefined =>
+    (req as any).storeScope;
+
+const parseReturnId = (req: Request, res: Response): number | null => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+        res.status(400).json({
+            success: false,
+            message: "Invalid return ID",
+        });
+        return null;
+    }
+    return id;
+};
+
+const adminReturnController = {
+    /**
+     * Get all return requests with filtering and pagination
+     */
+    getAllReturns: async (req: Request, res: Response): Promise<void> => {
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+
+        const filters: ReturnFilters = {
+            status: req.query.status
+                ? z.nativeEnum(ReturnStatus).parse(req.query.status)
+                : undefined,
+            orderId: req.query.orderId
+                ? parseInt(req.query.orderId as string)
+                : undefined,
+            customerId: req.query.customerId
+                ? parseInt(req.query.customerId as string)
+                : undefined,
+        };
+
+        const result = await ReturnService.getReturns(
+            filters,
+            page,
+            limit,
+            storeScope(req)
+        );
+
+        res.json({
+            success: true,
+            data: {
+                returns: result.returns,
+                pagination: {
+                    currentPage: page,
+                    totalPages: result.pages,
+                    totalReturns: result.total,
+                    hasNext: page < result.pages,
+                    hasPrev: page > 1,
+                },
+            },
+        });
+    },
+
+    /**
+     * Get return request details
+     */
+    getReturnDetails: async (req: Request, res: Response): Promise<void> => {
+        const id = parseReturnId(req, res);
+        if (id === null) return;
+
+        const returnRequest = await ReturnService.getReturnById(
+            id,
+            storeScope(req)
+        );
+        if (!returnRequest) {
+            res.status(404).json({
+                success: false,
+                message: "Return request not found",
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: returnRequest,
+        });
+    },
+
+    /**
+     * Approve a return request, optionally for fewer items than requested
+     */
+    approveReturn: async (req: Request, res: Response): Promise<void> => {
+        const id = parseReturnId(req, res);
+        if (id === null) return;
+
+        const schema = z.object({
+            items: quantitiesSchema,
+            note: z.string().optional(),
+        });
+        const data = schema.parse(req.body);
+
+        const returnRequest = await ReturnService.approveReturn(
+            id,
+            data,
+            (req as any).userId,
+            storeScope(req)
+        );
+
+        res.json({
+            success: true,
+            message: "Return request approved",
+            data: returnRequest,
+        });
+    },
+
+    /**
+     * Reject a return request
+     */
+    rejectReturn: async (req: Request, res: Response): Promise<void> => {
+        const id = parseReturnId(req, res);
+        if (id === null) return;
+
+        const schema = z.object({
+            note: z.string().min(1, "A rejection note is required"),
+        });
+        const { note } = schema.parse(req.body);
+
+        const returnRequest = await ReturnService.rejectReturn(
+            id,
+            note,
+            (req as any).userId,
+            storeScope(req)
+        );
+
+        res.json({
+            success: true,
+            message: "Return request rejected",
+            data: returnRequest,
+        });
+    },
+
+    /**
+     * Receive approved items back and restock them
+     */
+    receiveReturn: async (req: Request, res: Response): Promise<void> => {
+        const id = parseReturnId(req, res);
+        if (id === null) return;
+
+        const schema = z.object({
+            items: quantitiesSchema,
+            note: z.string().optional(),
+        });
+        const data = schema.parse(req.body);
+
+        const returnRequest = await ReturnService.receiveReturn(
+            id,
+            data,
+            (req as any).userId,
+            storeScope(req)
+        );
+
+        res.json({
+            success: true,
+            message: "Returned items received and restocked",
+            data: returnRequest,
+        });
+    },
+};
+
+export default adminReturnController;
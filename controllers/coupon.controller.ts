@@ -1,7 +1,11 @@
 import { Request, Response } from "express";
 import Coupon from "../services/coupon.service";
 import { z } from "zod";
-import { CouponType, CouponStatus } from "../generated/prisma/client";
+import {
+    CouponType,
+    CouponStatus,
+    ConditionType,
+} from "../generated/prisma/client";
 
 const parseId = (value: any, name = "ID") => {
     const id = Number(value);
@@ -9,6 +13,12 @@ const parseId = (value: any, name = "ID") => {
     return id;
 };
 
+// PRODUCT/CATEGORY/BRAND conditions hold an ID, TAG an ID or tag name
+const conditionSchema = z.object({
+    type: z.nativeEnum(ConditionType),
+    value: z.union([z.string().min(1), z.number().int().positive()]),
+});
+
 const couponController = {
     create: async (req: Request, res: Response) => {
         const schema = z.object({
@@ -34,9 +44,20 @@ const couponController = {
             minSpend: z.number().optional().nullable(),
             usageLimit: z.number().int().optional().nullable(),
             usagePerCustomer: z.number().int().optional().nullable(),
+            conditions: z.array(conditionSchema).optional(),
+        });
+        const { conditions, ...data } = schema.parse(req.body);
+        const coupon = await Coupon.create({
+            ...data,
+            ...(conditions && {
+                conditions: {
+                    create: conditions.map((c) => ({
+                        type: c.type,
+                        value: String(c.value),
+                    })),
+                },
+            }),
         });
-        const data = schema.parse(req.body);
-        const coupon = await Coupon.create({ ...data });
         res.status(201).json({ data: coupon });
     },
     getById: async (req: Request, res: Response) => {
@@ -85,15 +106,28 @@ const couponController = {
             minSpend: z.number().optional().nullable(),
             usageLimit: z.number().int().optional().nullable(),
             usagePerCustomer: z.number().int().optional().nullable(),
+            // When provided, replaces the coupon's existing conditions
+            conditions: z.array(conditionSchema).optional(),
         });
-        const { id, ...body } = schema.parse(req.body);
+        const { id, conditions, ...body } = schema.parse(req.body);
         const coupon = await Coupon.findById(id);
         if (!coupon) {
             const err = new Error("Coupon not found");
             (err as any).status = 404;
             throw err;
         }
-        const updated = await Coupon.update(id, body);
+        const updated = await Coupon.update(id, {
+            ...body,
+            ...(conditions && {
+                conditions: {
+                    deleteMany: {},
+                    create: conditions.map((c) => ({
+                        type: c.type,
+                        value: String(c.value),
+                    })),
+                },
+            }),
+        });
         res.json({ data: updated });
     },
     delete: async (req: Request, res: Response) => {
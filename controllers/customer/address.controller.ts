@@ -0,0 +1,130 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import AddressService from "../../services/customer/address.service";
+
+const addressSchema = z.object({
+    label: z.string().min(1, "Label is required"),
+    street: z.string().min(1, "Street is required"),
+    city: z.string().min(1, "City is required"),
+    county: z.string().min(1, "County is required"),
+    postalCode: z.string().min(1, "Postal code is required"),
+    country: z.string().min(1, "Country is required"),
+    phone: z.string().optional(),
+    isDefault: z.boolean().optional(),
+});
+
+const parseAddressId = (req: Request, res: Response): number | null => {
+    const addressId = parseInt(req.params.id);
+    if (isNaN(addressId)) {
+        res.status(400).json({
+            success: false,
+            message: "Invalid address ID",
+        });
+        return null;
+    }
+    return addressId;
+};
+
+const customerAddressController = {
+    /**
+     * Get the customer's addresses
+     */
+    getAddresses: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const addresses = await AddressService.getAddresses(customerId);
+
+        res.json({
+            success: true,
+            data: addresses,
+        });
+    },
+
+    /**
+     * Get one address
+     */
+    getAddress: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const addressId = parseAddressId(req, res);
+        if (addressId === null) return;
+
+        const address = await AddressService.getAddress(customerId, addressId);
+
+        res.json({
+            success: true,
+            data: address,
+        });
+    },
+
+    /**
+     * Add an address
+     */
+    createAddress: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const data = addressSchema.parse(req.body);
+
+        const address = await AddressService.createAddress(customerId, data);
+
+        res.status(201).json({
+            success: true,
+            message: "Address added",
+            data: address,
+        });
+    },
+
+    /**
+     * Edit an address
+     */
+    updateAddress: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const addressId = parseAddressId(req, res);
+        if (addressId === null) return;
+
+        const data = addressSchema.partial().parse(req.body);
+        const address = await AddressService.updateAddress(
+            customerId,
+            addressId,
+            data
+        );
+
+        res.json({
+            success: true,
+            message: "Address updated",
+            data: address,
+        });
+    },
+
+    /**
+     * Make an address the default
+     */
+    setDefault: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const addressId = parseAddressId(req, res);
+        if (addressId === null) return;
+
+        const address = await AddressService.setDefault(customerId, addressId);
+
+        res.json({
+            success: true,
+            message: "Default address updated",
+            data: address,
+        });
+    },
+
+    /**
+     * Delete an address
+     */
+    deleteAddress: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const addressId = parseAddressId(req, res);
+        if (addressId === null) return;
+
+        await AddressService.deleteAddress(customerId, addressId);
+
+        res.json({
+            success: true,
+            message: "Address deleted",
+        });
+    },
+};
+
+export default customerAddressController;
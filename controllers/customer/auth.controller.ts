@@ -4,6 +4,21 @@ import { Request, Response } from "express";
 import { z } from "zod";
 import crypto from "crypto";
 import CustomerService from "../../services/customer/customer.service";
+import CartService from "../../services/order/cart.service";
+import GuestService from "../../services/customer/guest.service";
+
+const passwordSchema = z
+    .string()
+    .min(8, {
+        message: "Password must be at least 8 characters long",
+    })
+    .regex(
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#^()[\]{}])[A-Za-z\d@$!%*?&#^()[\]{}]+$/,
+        {
+            message:
+                "Password must include at least one uppercase letter, one lowercase letter, one digit, and one special character",
+        }
+    );
 
 /**
  * Customer Authentication Controller
@@ -17,18 +32,7 @@ const customerAuthController = {
         try {
             const schema = z.object({
                 email: z.string().email(),
-                password: z
-                    .string()
-                    .min(8, {
-                        message: "Password must be at least 8 characters long",
-                    })
-                    .regex(
-                        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#^()[\]{}])[A-Za-z\d@$!%*?&#^()[\]{}]+$/,
-                        {
-                            message:
-                                "Password must include at least one uppercase letter, one lowercase letter, one digit, and one special character",
-                        }
-                    ),
+                password: passwordSchema,
                 name: z.string().min(2),
                 phone: z.string().optional(),
             });
@@ -37,15 +41,25 @@ const customerAuthController = {
 
             // Check if customer already exists
             const existingCustomer = await CustomerService.findByEmail(email);
-            if (existingCustomer) {
+            if (existingCustomer && !GuestService.isGuest(existingCustomer)) {
                 res.status(409).json({ message: "Email already registered" });
                 return;
             }
 
+            // A guest's orders and addresses are only handed over once
+            // the email is confirmed (see completeRegistration)
+            if (existingCustomer) {
+                await GuestService.requestClaim(existingCustomer);
+                res.status(202).json({
+                    message: `We sent a link to ${email}. Open it to confirm your email and finish creating your account.`,
+                    confirmationRequired: true,
+                });
+                return;
+            }
+
             // Hash password
             const hashedPassword = await bcrypt.hash(password, 10);
 
-            // Create customer
             const customer = await CustomerService.create({
                 email,
                 password: hashedPassword,
@@ -87,6 +101,55 @@ const customerAuthController = {
         }
     },
 
+    /**
+     * Finish registering an email used for guest checkouts, with the
+     * token from the confirmation email
+     */
+    completeRegistration: async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        const schema = z.object({
+            token: z.string().min(1),
+            password: passwordSchema,
+            name: z.string().min(2),
+            phone: z.string().optional(),
+        });
+
+        const { token, password, name, phone } = schema.parse(req.body);
+
+        const customer = await GuestService.claimGuest(token, {
+            password: await bcrypt.hash(password, 10),
+            name,
+            phone,
+        });
+
+        await mergeGuestCart(req, customer.id);
+
+        // Generate tokens
+        const accessToken = generateAccessToken(customer);
+        const refreshToken = generateRefreshToken(customer.email!);
+
+        // Set refresh token cookie
+        res.cookie("jwt_customer", refreshToken, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "strict",
+            maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+        });
+
+        res.status(201).json({
+            message: "Registration successful",
+            customer: {
+                id: customer.id,
+                email: customer.email,
+                name: customer.name,
+                emailVerified: customer.emailVerified,
+            },
+            accessToken,
+        });
+    },
+
     /**
      * Login with email/password
      */
@@ -99,9 +162,9 @@ const customerAuthController = {
 
             const { email, password } = schema.parse(req.body);
 
-            // Find customer
+            // Find customer (guests have no password to log in with)
             const customer = await CustomerService.findByEmail(email);
-            if (!customer) {
+            if (!customer || GuestService.isGuest(customer)) {
                 res.status(401).json({ message: "Invalid credentials" });
                 return;
             }
@@ -124,6 +187,8 @@ const customerAuthController = {
                 return;
             }
 
+            await mergeGuestCart(req, customer.id);
+
             // Generate tokens
             const accessToken = generateAccessToken(customer);
             const refreshToken = generateRefreshToken(customer.email!);
@@ -206,6 +271,8 @@ const customerAuthController = {
                 });
             }
 
+            await mergeGuestCart(req, customer.id);
+
             // Generate tokens
             const accessToken = generateAccessToken(customer);
             const refreshToken = generateRefreshToken(customer.email!);
@@ -314,7 +381,7 @@ const customerAuthController = {
             const { email } = schema.parse(req.body);
 
             const customer = await CustomerService.findByEmail(email);
-            if (!customer) {
+            if (!customer || GuestService.isGuest(customer)) {
                 // Don't reveal if email exists
                 res.status(200).json({
                     message: "If the email exists, a reset link has been sent",
@@ -405,4 +472,19 @@ function generateRefreshToken(email: string): string {
     });
 }
 
+/**
+ * Helper function to move a guest cart (X-Cart-Token header) into the
+ * customer's cart. A failed merge never blocks the login.
+ */
+async function mergeGuestCart(req: Request, customerId: number) {
+    const cartToken = req.get("X-Cart-Token");
+    if (!cartToken) return;
+
+    try {
+        await CartService.mergeGuestCart(cartToken, customerId);
+    } catch (error) {
+        console.error("Guest cart merge error:", error);
+    }
+}
+
 export default customerAuthController;
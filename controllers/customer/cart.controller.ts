@@ -0,0 +1,241 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import CartService, { CartOwner } from "../../services/order/cart.service";
+import { CreatedOrder } from "../../services/order/order.service";
+import {
+    formatOrderStatus,
+    formatPaymentMethod,
+    calculateEstimatedDelivery,
+} from "../../utils/orderUtils";
+
+/**
+ * Signed-in customers own their cart; guests are identified by the
+ * X-Cart-Token header returned when their cart was created
+ */
+const cartOwner = (req: Request): CartOwner => ({
+    customerId: (req as any).customerId,
+    guestToken: req.get("X-Cart-Token") || undefined,
+});
+
+const formatPlacedOrder = (order: CreatedOrder) => ({
+    ...order,
+    statusDisplay: formatOrderStatus(order.status),
+    paymentMethodDisplay: formatPaymentMethod(order.paymentMethod),
+    estimatedDelivery: calculateEstimatedDelivery(order.placedAt),
+});
+
+const parseItemId = (req: Request, res: Response): number | null => {
+    const itemId = parseInt(req.params.itemId);
+    if (isNaN(itemId)) {
+        res.status(400).json({
+            success: false,
+            message: "Invalid cart item ID",
+        });
+        return null;
+    }
+    return itemId;
+};
+
+const customerCartController = {
+    /**
+     * Get the cart with live prices and stock availability
+     */
+    getCart: async (req: Request, res: Response): Promise<void> => {
+        const cart = await CartService.getCart(cartOwner(req));
+
+        res.json({
+            success: true,
+            data: cart,
+        });
+    },
+
+    /**
+     * Add a variant to the cart
+     */
+    addItem: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            variantId: z.number().int().positive(),
+            quantity: z.number().int().positive().min(1),
+            storeId: z.number().int().positive().optional(),
+        });
+
+        const data = schema.parse(req.body);
+        const cart = await CartService.addItem(cartOwner(req), data);
+
+        res.status(201).json({
+            success: true,
+            message: "Item added to cart",
+            data: cart,
+        });
+    },
+
+    /**
+     * Change the quantity of a cart line
+     */
+    updateItem: async (req: Request, res: Response): Promise<void> => {
+        const itemId = parseItemId(req, res);
+        if (itemId === null) return;
+
+        const schema = z.object({
+            quantity: z.number().int().min(0),
+        });
+        const { quantity } = schema.parse(req.body);
+
+        const cart = await CartService.updateItem(
+            cartOwner(req),
+            itemId,
+            quantity
+        );
+
+        res.json({
+            success: true,
+            message: "Cart updated",
+            data: cart,
+        });
+    },
+
+    /**
+     * Remove a line from the cart
+     */
+    removeItem: async (req: Request, res: Response): Promise<void> => {
+        const itemId = parseItemId(req, res);
+        if (itemId === null) return;
+
+        const cart = await CartService.removeItem(cartOwner(req), itemId);
+
+        res.json({
+            success: true,
+            message: "Item removed from cart",
+            data: cart,
+        });
+    },
+
+    /**
+     * Empty the cart
+     */
+    clearCart: async (req: Request, res: Response): Promise<void> => {
+        const cart = await CartService.clearCart(cartOwner(req));
+
+        res.json({
+            success: true,
+            message: "Cart cleared",
+            data: cart,
+        });
+    },
+
+    /**
+     * Attach a coupon to the cart
+     */
+    applyCoupon: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            code: z.string().min(1, "Coupon code is required"),
+        });
+        const { code } = schema.parse(req.body);
+
+        const cart = await CartService.applyCoupon(cartOwner(req), code);
+
+        res.json({
+            success: true,
+            message: "Coupon applied",
+            data: cart,
+        });
+    },
+
+    /**
+     * Detach a coupon from the cart
+     */
+    removeCoupon: async (req: Request, res: Response): Promise<void> => {
+        const cart = await CartService.removeCoupon(
+            cartOwner(req),
+            req.params.code
+        );
+
+        res.json({
+            success: true,
+            message: "Coupon removed",
+            data: cart,
+        });
+    },
+
+    /**
+     * Place an order for everything in the cart
+     */
+    checkout: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const guestToken = req.get("X-Cart-Token");
+        if (!customerId && !guestToken) {
+            res.status(400).json({
+                success: false,
+                message: "Your cart is empty",
+            });
+            return;
+        }
+
+        const schema = z.object({
+            addressId: z.number().int().positive().optional(),
+            paymentMethod: z.enum([
+                "CARD",
+                "MPESAEXPRESS",
+                "PAYBILL",
+                "PAYPAL",
+                "COD",
+                "OTHER",
+            ]),
+            totalAmount: z.number().positive().optional(),
+            notes: z.string().optional(),
+        });
+
+        if (customerId) {
+            const data = schema.parse(req.body);
+            const order = await CartService.checkout(customerId, data);
+
+            res.status(201).json({
+                success: true,
+                message: "Order placed successfully",
+                data: formatPlacedOrder(order),
+            });
+            return;
+        }
+
+        // Guests give their contact details and an inline address instead
+        const guestSchema = schema.omit({ addressId: true }).extend({
+            guest: z
+                .object({
+                    email: z.string().email().optional(),
+                    phone: z.string().min(1).optional(),
+                    name: z.string().min(1).optional(),
+                })
+                .refine((guest) => guest.email || guest.phone, {
+                    message: "An email or phone number is required",
+                }),
+            address: z
+                .object({
+                    label: z.string().min(1).optional(),
+                    street: z.string().min(1),
+                    city: z.string().min(1),
+                    county: z.string().min(1),
+                    postalCode: z.string().min(1),
+                    country: z.string().min(1),
+                    phone: z.string().optional(),
+                })
+                .optional(),
+        });
+
+        const data = guestSchema.parse(req.body);
+        const { order, accessToken } = await CartService.guestCheckout(
+            guestToken!,
+            data
+        );
+
+        res.status(201).json({
+            success: true,
+            message: "Order placed successfully",
+            data: {
+                ...formatPlacedOrder(order),
+                orderAccessToken: accessToken,
+            },
+        });
+    },
+};
+
+export default customerCartController;
@@ -0,0 +1,50 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import PricingService from "../../services/order/pricing.service";
+import CouponEvaluationService from "../../services/couponEvaluation.service";
+
+const customerCouponController = {
+    /**
+     * Preview a coupon against cart items without placing an order
+     */
+    validateCoupon: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+
+        const schema = z.object({
+            code: z.string().min(1, "Coupon code is required"),
+            items: z
+                .array(
+                    z.object({
+                        variantId: z.number().int().positive(),
+                        quantity: z.number().int().positive().min(1),
+                    })
+                )
+                .min(1, "At least one item is required"),
+        });
+
+        const { code, items } = schema.parse(req.body);
+
+        const lines = await PricingService.priceLines(items);
+        const evaluation = await CouponEvaluationService.evaluate(
+            [code],
+            customerId,
+            lines
+        );
+        const pricing = PricingService.buildBreakdown(evaluation.lines, {
+            discountTotal: evaluation.discountTotal,
+        });
+
+        res.json({
+            success: true,
+            message: "Coupon is valid",
+            data: {
+                coupon: evaluation.coupons[0],
+                savings: evaluation.discountTotal,
+                freeShipping: evaluation.freeShipping,
+                pricing,
+            },
+        });
+    },
+};
+
+export default customerCouponController;
@@ -0,0 +1,51 @@
+import { Request, Response } from "express";
+import GuestService from "../../services/customer/guest.service";
+import {
+    formatOrderStatus,
+    formatPaymentMethod,
+    calculateEstimatedDelivery,
+    buildTrackingTimeline,
+} from "../../utils/orderUtils";
+
+/**
+ * Order pages for guest checkouts. The order access token returned at
+ * checkout stands in for the customer's login.
+ */
+const guestOrderController = {
+    /**
+     * Get the order the token was issued for
+     */
+    getOrder: async (req: Request, res: Response): Promise<void> => {
+        const order = await GuestService.getAccessibleOrder(req.params.token);
+
+        res.json({
+            success: true,
+            data: {
+                ...order,
+                statusDisplay: formatOrderStatus(order.status),
+                paymentMethodDisplay: formatPaymentMethod(order.paymentMethod),
+                estimatedDelivery: calculateEstimatedDelivery(order.placedAt),
+            },
+        });
+    },
+
+    /**
+     * Track the order with its status timeline
+     */
+    trackOrder: async (req: Request, res: Response): Promise<void> => {
+        const order = await GuestService.getAccessibleOrder(req.params.token);
+
+        res.json({
+            success: true,
+            data: {
+                orderNumber: order.orderNumber,
+                currentStatus: order.status,
+                statusDisplay: formatOrderStatus(order.status),
+                estimatedDelivery: calculateEstimatedDelivery(order.placedAt),
+                timeline: buildTrackingTimeline(order as any),
+            },
+        });
+    },
+};
+
+export default guestOrderController;
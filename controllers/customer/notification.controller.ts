@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import NotificationService from "../../services/notification/notification.service";
+
+const customerNotificationController = {
+    /**
+     * Get the customer's notifications with pagination
+     */
+    getNotifications: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const page = parseInt(req.query.page as string) || 1;
+        const limit = parseInt(req.query.limit as string) || 20;
+        const unreadOnly = req.query.unread === "true";
+
+        const result = await NotificationService.getCustomerNotifications(
+            customerId,
+            page,
+            limit,
+            unreadOnly
+        );
+
+        res.json({
+            success: true,
+            data: {
+                notifications: result.notifications,
+                unread: result.unread,
+                pagination: {
+                    currentPage: page,
+                    totalPages: result.pages,
+                    totalNotifications: result.total,
+                    hasNext: page < result.pages,
+                    hasPrev: page > 1,
+                },
+            },
+        });
+    },
+
+    /**
+     * Mark a notification as read
+     */
+    markRead: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const id = parseInt(req.params.id);
+
+        if (isNaN(id)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid notification ID",
+            });
+            return;
+        }
+
+        const updated = await NotificationService.markRead(customerId, id);
+
+        res.json({
+            success: true,
+            message: updated > 0 ? "Notification marked as read" : "No change",
+        });
+    },
+
+    /**
+     * Mark all notifications as read
+     */
+    markAllRead: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const updated = await NotificationService.markRead(customerId);
+
+        res.json({
+            success: true,
+            message: `${updated} notification(s) marked as read`,
+        });
+    },
+};
+
+export default customerNotificationController;
@@ -3,21 +3,50 @@ import { z } from "zod";
 import OrderService, {
     CreateOrderData,
 } from "../../services/order/order.service";
+import ReturnService from "../../services/order/return.service";
+import { normalizeMsisdn } from "../../services/payment/mpesa.service";
 import {
     formatOrderStatus,
     formatPaymentMethod,
     canCancelOrder,
     canReturnOrder,
     calculateEstimatedDelivery,
+    buildTrackingTimeline,
 } from "../../utils/orderUtils";
 
+/**
+ * Signed-in customers can look up their own orders by number. Anyone else
+ * must also give the email or phone number the order was placed with.
+ */
+const canLookUpOrder = (req: Request, order: any): boolean => {
+    const customerId = (req as any).customerId;
+    if (customerId && order.customerId === customerId) {
+        return true;
+    }
+
+    const email = req.query.email;
+    if (typeof email === "string" && email) {
+        return order.customer?.email?.toLowerCase() === email.toLowerCase();
+    }
+
+    const phone = req.query.phone;
+    if (typeof phone === "string" && phone) {
+        const normalize = (value: string) => normalizeMsisdn(value) || value;
+        return [order.customer?.phone, order.shippingAddress?.phone].some(
+            (orderPhone) =>
+                orderPhone && normalize(orderPhone) === normalize(phone)
+        );
+    }
+
+    return false;
+};
+
 const customerOrderController = {
     /**
      * Place a new order
      */
     placeOrder: async (req: Request, res: Response): Promise<void> => {
-        //   const customerId = (req as any).customerId;
-        const customerId = 1;
+        const customerId = (req as any).customerId;
 
         const schema = z.object({
             addressId: z.number().int().positive().optional(),
@@ -26,7 +55,7 @@ const customerOrderController = {
                     z.object({
                         variantId: z.number().int().positive(),
                         quantity: z.number().int().positive().min(1),
-                        price: z.number().positive(),
+                        price: z.number().positive().optional(),
                     })
                 )
                 .min(1, "At least one item is required"),
@@ -38,7 +67,7 @@ const customerOrderController = {
                 "COD",
                 "OTHER",
             ]),
-            totalAmount: z.number().positive(),
+            totalAmount: z.number().positive().optional(),
             notes: z.string().optional(),
             storeId: z.number().int().positive().optional(),
             couponCodes: z.array(z.string()).optional(),
@@ -46,19 +75,8 @@ const customerOrderController = {
 
         const data = schema.parse(req.body);
 
-        // Validate total amount matches items
-        const calculatedTotal = data.items.reduce(
-            (sum, item) => sum + item.price * item.quantity,
-            0
-        );
-        if (Math.abs(calculatedTotal - data.totalAmount) > 0.01) {
-            res.status(400).json({
-                success: false,
-                message: "Total amount does not match item prices",
-            });
-            return;
-        }
-
+        // Prices are resolved server-side; client prices/total are optional
+        // and the order is rejected if they no longer match
         const orderData: CreateOrderData = {
             customerId,
             ...data,
@@ -135,7 +153,8 @@ const customerOrderController = {
 
         const order = await OrderService.getOrderById(orderId);
 
-        if (!order) {
+        // Other customers' orders are not found, so IDs reveal nothing
+        if (!order || order.customerId !== customerId) {
             res.status(404).json({
                 success: false,
                 message: "Order not found",
@@ -143,15 +162,6 @@ const customerOrderController = {
             return;
         }
 
-        // Check if order belongs to the customer
-        if (order.customerId !== customerId) {
-            res.status(403).json({
-                success: false,
-                message: "Access denied",
-            });
-            return;
-        }
-
         res.json({
             success: true,
             data: {
@@ -169,12 +179,11 @@ const customerOrderController = {
      * Get order details by order number
      */
     getOrderByNumber: async (req: Request, res: Response): Promise<void> => {
-        const customerId = (req as any).customerId;
         const orderNumber = req.params.orderNumber;
 
         const order = await OrderService.getOrderByNumber(orderNumber);
 
-        if (!order) {
+        if (!order || !canLookUpOrder(req, order)) {
             res.status(404).json({
                 success: false,
                 message: "Order not found",
@@ -182,15 +191,6 @@ const customerOrderController = {
             return;
         }
 
-        // Check if order belongs to the customer
-        if (order.customerId !== customerId) {
-            res.status(403).json({
-                success: false,
-                message: "Access denied",
-            });
-            return;
-        }
-
         res.json({
             success: true,
             data: {
@@ -227,7 +227,7 @@ const customerOrderController = {
 
         // Check if order exists and belongs to customer
         const existingOrder = await OrderService.getOrderById(orderId);
-        if (!existingOrder) {
+        if (!existingOrder || existingOrder.customerId !== customerId) {
             res.status(404).json({
                 success: false,
                 message: "Order not found",
@@ -235,14 +235,6 @@ const customerOrderController = {
             return;
         }
 
-        if (existingOrder.customerId !== customerId) {
-            res.status(403).json({
-                success: false,
-                message: "Access denied",
-            });
-            return;
-        }
-
         // Check if order can be cancelled
         if (!canCancelOrder(existingOrder.status)) {
             res.status(400).json({
@@ -254,7 +246,9 @@ const customerOrderController = {
             return;
         }
 
-        const cancelledOrder = await OrderService.cancelOrder(orderId, reason);
+        const cancelledOrder = await OrderService.cancelOrder(orderId, reason, {
+            customerId,
+        });
 
         res.json({
             success: true,
@@ -297,80 +291,47 @@ const customerOrderController = {
                 .min(1, "At least one item must be returned"),
         });
 
-        const { reason, items } = schema.parse(req.body);
+        const data = schema.parse(req.body);
 
-        // Check if order exists and belongs to customer
-        const existingOrder = await OrderService.getOrderById(orderId);
-        if (!existingOrder) {
-            res.status(404).json({
-                success: false,
-                message: "Order not found",
-            });
-            return;
-        }
+        // Opens a return request; the order stays DELIVERED until the
+        // items are received back
+        const returnRequest = await ReturnService.createReturn(
+            orderId,
+            customerId,
+            data
+        );
 
-        if (existingOrder.customerId !== customerId) {
-            res.status(403).json({
-                success: false,
-                message: "Access denied",
-            });
-            return;
-        }
+        res.status(201).json({
+            success: true,
+            message: "Return request submitted successfully",
+            data: returnRequest,
+        });
+    },
 
-        // Check if order can be returned
-        if (!canReturnOrder(existingOrder.status)) {
+    /**
+     * Get return requests for an order
+     */
+    getOrderReturns: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
             res.status(400).json({
                 success: false,
-                message: `Order cannot be returned. Current status: ${formatOrderStatus(
-                    existingOrder.status
-                )}`,
+                message: "Invalid order ID",
             });
             return;
         }
 
-        // Validate return items
-        const orderItemIds = (existingOrder as any).items.map(
-            (item: any) => item.id
+        const result = await ReturnService.getReturns(
+            { orderId, customerId },
+            1,
+            100
         );
-        for (const returnItem of items) {
-            if (!orderItemIds.includes(returnItem.itemId)) {
-                res.status(400).json({
-                    success: false,
-                    message: `Item with ID ${returnItem.itemId} not found in order`,
-                });
-                return;
-            }
-
-            const orderItem = (existingOrder as any).items.find(
-                (item: any) => item.id === returnItem.itemId
-            );
-            if (returnItem.quantity > orderItem!.quantity) {
-                res.status(400).json({
-                    success: false,
-                    message: `Return quantity cannot exceed ordered quantity for item ${returnItem.itemId}`,
-                });
-                return;
-            }
-        }
-
-        // Update order status to RETURNED
-        const returnedOrder = await OrderService.updateOrder(orderId, {
-            status: "RETURNED",
-            notes: `Return requested: ${reason}. Items: ${JSON.stringify(
-                items
-            )}`,
-        });
 
         res.json({
             success: true,
-            message: "Return request submitted successfully",
-            data: {
-                ...returnedOrder,
-                statusDisplay: formatOrderStatus(returnedOrder.status),
-                paymentMethodDisplay: formatPaymentMethod(
-                    returnedOrder.paymentMethod
-                ),
-            },
+            data: result.returns,
         });
     },
 
@@ -378,12 +339,11 @@ const customerOrderController = {
      * Track order status
      */
     trackOrder: async (req: Request, res: Response): Promise<void> => {
-        const customerId = (req as any).customerId;
         const orderNumber = req.params.orderNumber;
 
         const order = await OrderService.getOrderByNumber(orderNumber);
 
-        if (!order) {
+        if (!order || !canLookUpOrder(req, order)) {
             res.status(404).json({
                 success: false,
                 message: "Order not found",
@@ -391,58 +351,6 @@ const customerOrderController = {
             return;
         }
 
-        // Check if order belongs to the customer
-        if (order.customerId !== customerId) {
-            res.status(403).json({
-                success: false,
-                message: "Access denied",
-            });
-            return;
-        }
-
-        // Create tracking timeline
-        const timeline = [
-            {
-                status: "PENDING",
-                title: "Order Placed",
-                description:
-                    "Your order has been received and is being processed",
-                date: order.placedAt,
-                completed: [
-                    "PENDING",
-                    "PROCESSING",
-                    "SHIPPED",
-                    "DELIVERED",
-                ].includes(order.status),
-            },
-            {
-                status: "PROCESSING",
-                title: "Order Processing",
-                description: "Your order is being prepared for shipment",
-                date: order.status !== "PENDING" ? order.updatedAt : null,
-                completed: ["PROCESSING", "SHIPPED", "DELIVERED"].includes(
-                    order.status
-                ),
-            },
-            {
-                status: "SHIPPED",
-                title: "Order Shipped",
-                description: "Your order has been shipped and is on its way",
-                date:
-                    order.status === "SHIPPED" || order.status === "DELIVERED"
-                        ? order.updatedAt
-                        : null,
-                completed: ["SHIPPED", "DELIVERED"].includes(order.status),
-            },
-            {
-                status: "DELIVERED",
-                title: "Order Delivered",
-                description: "Your order has been delivered successfully",
-                date: order.status === "DELIVERED" ? order.updatedAt : null,
-                completed: order.status === "DELIVERED",
-            },
-        ];
-
         res.json({
             success: true,
             data: {
@@ -458,7 +366,7 @@ const customerOrderController = {
                 },
                 tracking: {
                     currentStatus: order.status,
-                    timeline,
+                    timeline: buildTrackingTimeline(order as any),
                     canCancel: canCancelOrder(order.status),
                     canReturn: canReturnOrder(order.status),
                 },
@@ -0,0 +1,74 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import MpesaService from "../../services/payment/mpesa.service";
+import PaymentGatewayService from "../../services/payment/gateway.service";
+
+const customerPaymentController = {
+    /**
+     * Start an M-Pesa Express (STK push) payment for an order
+     */
+    payWithMpesa: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order ID",
+            });
+            return;
+        }
+
+        const schema = z.object({
+            phone: z.string().min(1, "Phone number is required"),
+        });
+        const { phone } = schema.parse(req.body);
+
+        const { transaction, customerMessage } =
+            await MpesaService.initiatePayment(orderId, customerId, phone);
+
+        res.status(202).json({
+            success: true,
+            message: customerMessage,
+            data: {
+                transactionId: transaction.id,
+                checkoutRequestId: transaction.providerTxId,
+                amount: transaction.amount,
+                status: transaction.status,
+            },
+        });
+    },
+
+    /**
+     * Start a card or PayPal payment for an order
+     */
+    payWithGateway: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const orderId = parseInt(req.params.id);
+
+        if (isNaN(orderId)) {
+            res.status(400).json({
+                success: false,
+                message: "Invalid order ID",
+            });
+            return;
+        }
+
+        const { transaction, clientSecret, approvalUrl } =
+            await PaymentGatewayService.authorizePayment(orderId, customerId);
+
+        res.status(201).json({
+            success: true,
+            message: "Payment started",
+            data: {
+                transactionId: transaction.id,
+                amount: transaction.amount,
+                status: transaction.status,
+                clientSecret,
+                approvalUrl,
+            },
+        });
+    },
+};
+
+export default customerPaymentController;
@@ -0,0 +1,42 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import PricingService from "../../services/order/pricing.service";
+import ShippingQuoteService from "../../services/shipping/quote.service";
+
+const customerShippingController = {
+    /**
+     * Quote the shipping charge for cart items going to a county/city
+     */
+    getQuote: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            county: z.string().min(1, "County is required"),
+            city: z.string().optional(),
+            items: z
+                .array(
+                    z.object({
+                        variantId: z.number().int().positive(),
+                        quantity: z.number().int().positive().min(1),
+                    })
+                )
+                .min(1, "At least one item is required"),
+        });
+
+        const { county, city, items } = schema.parse(req.body);
+
+        const lines = await PricingService.priceLines(items);
+        const quote = await ShippingQuoteService.quote(
+            { county, city },
+            {
+                amount: lines.reduce((sum, line) => sum + line.lineTotal, 0),
+                weight: lines.reduce((sum, line) => sum + line.weight, 0),
+            }
+        );
+
+        res.json({
+            success: true,
+            data: quote,
+        });
+    },
+};
+
+export default customerShippingController;
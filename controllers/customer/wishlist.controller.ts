@@ -0,0 +1,95 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import WishlistService from "../../services/customer/wishlist.service";
+
+const preferencesSchema = z.object({
+    notifyBackInStock: z.boolean().optional(),
+    notifyPriceDrop: z.boolean().optional(),
+});
+
+const parseVariantId = (req: Request, res: Response): number | null => {
+    const variantId = parseInt(req.params.variantId);
+    if (isNaN(variantId)) {
+        res.status(400).json({
+            success: false,
+            message: "Invalid variant ID",
+        });
+        return null;
+    }
+    return variantId;
+};
+
+const customerWishlistController = {
+    /**
+     * Get the customer's wishlist
+     */
+    getWishlist: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const items = await WishlistService.getWishlist(customerId);
+
+        res.json({
+            success: true,
+            data: items,
+        });
+    },
+
+    /**
+     * Save a variant to the wishlist
+     */
+    addItem: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+
+        const schema = preferencesSchema.extend({
+            variantId: z.number().int().positive(),
+        });
+        const data = schema.parse(req.body);
+
+        const item = await WishlistService.addItem(customerId, data);
+
+        res.status(201).json({
+            success: true,
+            message: "Saved to wishlist",
+            data: item,
+        });
+    },
+
+    /**
+     * Change the alerts of a wishlist item
+     */
+    updateItem: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const variantId = parseVariantId(req, res);
+        if (variantId === null) return;
+
+        const preferences = preferencesSchema.parse(req.body);
+        const item = await WishlistService.updateItem(
+            customerId,
+            variantId,
+            preferences
+        );
+
+        res.json({
+            success: true,
+            message: "Wishlist alerts updated",
+            data: item,
+        });
+    },
+
+    /**
+     * Remove a variant from the wishlist
+     */
+    removeItem: async (req: Request, res: Response): Promise<void> => {
+        const customerId = (req as any).customerId;
+        const variantId = parseVariantId(req, res);
+        if (variantId === null) return;
+
+        await WishlistService.removeItem(customerId, variantId);
+
+        res.json({
+            success: true,
+            message: "Removed from wishlist",
+        });
+    },
+};
+
+export default customerWishlistController;
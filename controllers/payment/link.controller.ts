@@ -0,0 +1,77 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import PaymentReminderService from "../../services/payment/paymentReminder.service";
+import MpesaService from "../../services/payment/mpesa.service";
+import PaymentGatewayService from "../../services/payment/gateway.service";
+
+/**
+ * Endpoints behind the signed "complete payment" link sent in payment
+ * reminders. The token stands in for the customer's login.
+ */
+const paymentLinkController = {
+    /**
+     * Get the order the link was issued for
+     */
+    getOrder: async (req: Request, res: Response): Promise<void> => {
+        const order = await PaymentReminderService.getLinkedOrder(
+            req.params.token
+        );
+
+        res.json({
+            success: true,
+            data: order,
+        });
+    },
+
+    /**
+     * Send an M-Pesa Express prompt for the linked order
+     */
+    payWithMpesa: async (req: Request, res: Response): Promise<void> => {
+        const { orderId, customerId } =
+            PaymentReminderService.verifyPaymentLink(req.params.token);
+
+        const schema = z.object({
+            phone: z.string().min(1, "Phone number is required"),
+        });
+        const { phone } = schema.parse(req.body);
+
+        const { transaction, customerMessage } =
+            await MpesaService.initiatePayment(orderId, customerId, phone);
+
+        res.status(202).json({
+            success: true,
+            message: customerMessage,
+            data: {
+                transactionId: transaction.id,
+                checkoutRequestId: transaction.providerTxId,
+                amount: transaction.amount,
+                status: transaction.status,
+            },
+        });
+    },
+
+    /**
+     * Start a card or PayPal payment for the linked order
+     */
+    payWithGateway: async (req: Request, res: Response): Promise<void> => {
+        const { orderId, customerId } =
+            PaymentReminderService.verifyPaymentLink(req.params.token);
+
+        const { transaction, clientSecret, approvalUrl } =
+            await PaymentGatewayService.authorizePayment(orderId, customerId);
+
+        res.status(201).json({
+            success: true,
+            message: "Payment started",
+            data: {
+                transactionId: transaction.id,
+                amount: transaction.amount,
+                status: transaction.status,
+                clientSecret,
+                approvalUrl,
+            },
+        });
+    },
+};
+
+export default paymentLinkController;
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { z } from "zod";
+import mpesaConfig from "../../config/mpesa.config";
+import MpesaService from "../../services/payment/mpesa.service";
+import fakeProvider from "../../services/payment/mpesa/fake.provider";
+import { logEvents } from "../../middleware/logger";
+
+// Constant-time check of the token Daraja sends back on the callback URL
+const hasCallbackToken = (token: unknown) => {
+    const expected = Buffer.from(mpesaConfig.callbackToken);
+    const given = Buffer.from(typeof token === "string" ? token : "");
+    return (
+        expected.length > 0 &&
+        given.length === expected.length &&
+        crypto.timingSafeEqual(given, expected)
+    );
+};
+
+const mpesaController = {
+    /**
+     * Receive the STK push result from Safaricom. Daraja callbacks must
+     * carry MPESA_CALLBACK_TOKEN; without one configured they are all
+     * refused, since anyone could post a fake success.
+     */
+    callback: async (req: Request, res: Response): Promise<void> => {
+        const isFake = MpesaService.getProvider().name === fakeProvider.name;
+        if (!isFake && !hasCallbackToken(req.query.token)) {
+            if (!mpesaConfig.callbackToken) {
+                logEvents(
+                    "M-Pesa callback refused: MPESA_CALLBACK_TOKEN is not set",
+                    "paymentLog.log"
+                );
+            }
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        try {
+            await MpesaService.handleCallback(req.body);
+        } catch (err: any) {
+            // Safaricom does not retry on errors, so log and acknowledge
+            logEvents(
+                `M-Pesa callback failed: ${err.message}\t${JSON.stringify(
+                    req.body
+                )}`,
+                "paymentLog.log"
+            );
+        }
+
+        res.json({ ResultCode: 0, ResultDesc: "Accepted" });
+    },
+
+    /**
+     * Simulate the customer answering an STK prompt (fake provider only)
+     */
+    simulateCallback: async (req: Request, res: Response): Promise<void> => {
+        if (MpesaService.getProvider().name !== fakeProvider.name) {
+            res.status(404).json({ message: "404 Not Found" });
+            return;
+        }
+
+        const schema = z.object({
+            checkoutRequestId: z.string().min(1),
+            success: z.boolean().default(true),
+        });
+        const { checkoutRequestId, success } = schema.parse(req.body);
+
+        const transaction = await MpesaService.handleCallback(
+            fakeProvider.buildCallback(checkoutRequestId, success)
+        );
+
+        res.json({
+            success: true,
+            data: transaction,
+        });
+    },
+};
+
+export default mpesaController;
@@ -0,0 +1,24 @@
+import { Request, Response } from "express";
+import PaymentGatewayService from "../../services/payment/gateway.service";
+
+const webhookController = {
+    /**
+     * Receive a signed event from a payment gateway
+     */
+    handleWebhook: async (req: Request, res: Response): Promise<void> => {
+        const rawBody: Buffer | undefined = (req as any).rawBody;
+        if (!rawBody) {
+            res.status(400).json({ message: "Missing request body" });
+            return;
+        }
+
+        const result = await PaymentGatewayService.handleWebhook(
+            req.params.provider,
+            { headers: req.headers, rawBody }
+        );
+
+        res.json({ received: true, ...result });
+    },
+};
+
+export default webhookController;
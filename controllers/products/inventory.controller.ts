@@ -2,6 +2,10 @@ import { Request, Response } from "express";
 import InventoryService from "../../services/product/inventory.service";
 import { z } from "zod";
 
+// Store the caller's permission is limited to, set by requirePermission
+const storeScope = (req: Request): number | undefined =>
+    (req as any).storeScope;
+
 const inventoryController = {
     // Update variant pricing and SKU
     updateVariantInventory: async (req: Request, res: Response) => {
@@ -12,6 +16,7 @@ const inventoryController = {
             salePrice: z.number().optional(),
             wholesalePrice: z.number().optional(),
             wholesaleQty: z.number().optional(),
+            weight: z.number().nonnegative().optional(), // kg, used for shipping
             sku: z.string().optional(),
         });
 
@@ -19,7 +24,8 @@ const inventoryController = {
 
         const updated = await InventoryService.updateVariantInventory(
             +variantId,
-            data
+            data,
+            storeScope(req)
         );
 
         res.json({
@@ -37,15 +43,14 @@ const inventoryController = {
             quantity: z.number().int().positive(),
             stockStatus: z.string(),
             operation: z.enum(["set", "increment", "decrement"]).optional(),
-            userId: z.number().int().positive().optional(), // Who is making the change
             reason: z.string().optional(), // Why the change is being made
             notes: z.string().optional(), // Additional notes
         });
 
         const data = schema.parse(req.body);
 
-        // Get userId from authenticated user or request body
-        const userId = data.userId || (req as any).userId || 1; // Fallback to system user ID 1
+        // The signed-in user, or system user 1 for API keys without a creator
+        const userId = (req as any).userId || 1;
 
         const updated = await InventoryService.updateStock(
             +variantId,
@@ -53,7 +58,8 @@ const inventoryController = {
             {
                 ...data,
                 userId, // Always provide userId
-            }
+            },
+            storeScope(req)
         );
 
         const operationText = data.operation || "increment";
@@ -74,7 +80,10 @@ const inventoryController = {
     // Get stock for a variant across all stores
     getVariantStock: async (req: Request, res: Response) => {
         const { variantId } = req.params;
-        const stock = await InventoryService.getVariantStock(+variantId);
+        const stock = await InventoryService.getVariantStock(
+            +variantId,
+            storeScope(req)
+        );
 
         res.json({
             success: true,
@@ -87,7 +96,8 @@ const inventoryController = {
         const { variantId, storeId } = req.params;
         const stock = await InventoryService.getStockByStore(
             +variantId,
-            +storeId
+            +storeId,
+            storeScope(req)
         );
 
         res.json({
@@ -107,7 +117,8 @@ const inventoryController = {
                 storeId: storeId ? +storeId : undefined,
                 limit: limit ? +limit : undefined,
                 offset: offset ? +offset : undefined,
-            }
+            },
+            storeScope(req)
         );
 
         res.json({
@@ -122,12 +133,18 @@ const inventoryController = {
         const { storeId } = req.params;
         const { limit, offset, startDate, endDate } = req.query;
 
-        const movements = await InventoryService.getStoreMovements(+storeId, {
-            limit: limit ? +limit : undefined,
-            offset: offset ? +offset : undefined,
-            startDate: startDate ? new Date(startDate as string) : undefined,
-            endDate: endDate ? new Date(endDate as string) : undefined,
-        });
+        const movements = await InventoryService.getStoreMovements(
+            +storeId,
+            {
+                limit: limit ? +limit : undefined,
+                offset: offset ? +offset : undefined,
+                startDate: startDate
+                    ? new Date(startDate as string)
+                    : undefined,
+                endDate: endDate ? new Date(endDate as string) : undefined,
+            },
+            storeScope(req)
+        );
 
         res.json({
             success: true,
@@ -141,10 +158,14 @@ const inventoryController = {
         const { userId } = req.params;
         const { limit, offset } = req.query;
 
-        const movements = await InventoryService.getUserMovements(+userId, {
-            limit: limit ? +limit : undefined,
-            offset: offset ? +offset : undefined,
-        });
+        const movements = await InventoryService.getUserMovements(
+            +userId,
+            {
+                limit: limit ? +limit : undefined,
+                offset: offset ? +offset : undefined,
+            },
+            storeScope(req)
+        );
 
         res.json({
             success: true,
@@ -169,7 +190,6 @@ const inventoryController = {
                     })
                 )
                 .min(1, "At least one item is required"),
-            userId: z.number().int().positive().optional(),
             reason: z.string().min(1),
             notes: z.string().optional(),
             stockStatus: z.string().optional(),
@@ -177,8 +197,8 @@ const inventoryController = {
 
         const data = schema.parse(req.body);
 
-        // Get userId from authenticated user or request body
-        const userId = data.userId || (req as any).userId || 1; // Fallback to system user ID 1
+        // The signed-in user, or system user 1 for API keys without a creator
+        const userId = (req as any).userId || 1;
 
         const results = await InventoryService.bulkUpdateStock(
             +storeId,
@@ -188,7 +208,8 @@ const inventoryController = {
                 reason: data.reason,
                 notes: data.notes,
                 stockStatus: data.stockStatus,
-            }
+            },
+            storeScope(req)
         );
 
         res.json({
@@ -222,7 +243,10 @@ const inventoryController = {
             offset: offset ? +offset : undefined,
         };
 
-        const adjustments = await InventoryService.getStockAdjustments(filters);
+        const adjustments = await InventoryService.getStockAdjustments(
+            filters,
+            storeScope(req)
+        );
 
         res.json({
             success: true,
@@ -237,7 +261,8 @@ const inventoryController = {
         const { adjustmentId } = req.params;
 
         const adjustment = await InventoryService.getStockAdjustmentById(
-            +adjustmentId
+            +adjustmentId,
+            storeScope(req)
         );
 
         if (!adjustment) {
@@ -268,7 +293,8 @@ const inventoryController = {
 
         const adjustments = await InventoryService.getStockAdjustmentsByUser(
             +userId,
-            options
+            options,
+            storeScope(req)
         );
 
         res.json({
@@ -294,7 +320,8 @@ const inventoryController = {
 
         const adjustments = await InventoryService.getStockAdjustmentsByStore(
             +storeId,
-            options
+            options,
+            storeScope(req)
         );
 
         res.json({
@@ -317,7 +344,10 @@ const inventoryController = {
             endDate: endDate ? new Date(endDate as string) : undefined,
         };
 
-        const stats = await InventoryService.getStockAdjustmentStats(filters);
+        const stats = await InventoryService.getStockAdjustmentStats(
+            filters,
+            storeScope(req)
+        );
 
         res.json({
             success: true,
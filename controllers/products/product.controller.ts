@@ -184,7 +184,10 @@ const productController = {
         const storeId = parseId(req.params.storeId, "storeId");
         const page = parseId(req.query.page ?? 1, "page");
         const limit = parseId(req.query.limit ?? 20, "limit");
-        const { products } = await ProductService.getProductsByStore(storeId);
+        const { products } = await ProductService.getProductsByStore(
+            storeId,
+            (req as any).storeScope
+        );
         // In-memory pagination
         const paged = products.slice((page - 1) * limit, page * limit);
         res.json({ data: { products: paged, total: products.length } });
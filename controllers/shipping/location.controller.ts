@@ -0,0 +1,24 @@
+import ShippingLocationService from "../../services/shipping/location.service";
+import { z } from "zod";
+import { createCrudController } from "../crud.factory";
+
+// Location names are matched against an address city or county; "*" is a catch-all
+const locationSchema = {
+    create: z.object({
+        name: z.string().min(1),
+        zoneId: z.number().int().positive(),
+    }),
+    update: z.object({
+        id: z.number(),
+        name: z.string().min(1).optional(),
+        zoneId: z.number().int().positive().optional(),
+    }),
+};
+
+const shippingLocationController = createCrudController({
+    service: ShippingLocationService,
+    schema: locationSchema,
+    resourceName: "shippingLocation",
+});
+
+export default shippingLocationController;
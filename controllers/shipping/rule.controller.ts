@@ -0,0 +1,61 @@
+import ShippingRuleService from "../../services/shipping/rule.service";
+import { z } from "zod";
+import { createCrudController } from "../crud.factory";
+import {
+    ShippingChargeType,
+    ShippingRuleType,
+} from "../../generated/prisma/client";
+
+const ruleFields = {
+    zoneId: z.number().int().positive(),
+    ruleType: z.nativeEnum(ShippingRuleType),
+    minValue: z.number().nonnegative(),
+    maxValue: z.number().nonnegative(),
+    chargeType: z.nativeEnum(ShippingChargeType),
+    amount: z.number().nonnegative().optional().nullable(),
+};
+
+const validRange = (data: { minValue?: number; maxValue?: number }) =>
+    data.minValue === undefined ||
+    data.maxValue === undefined ||
+    data.minValue <= data.maxValue;
+
+// FIXED and PERCENTAGE rules need an amount, FREE rules do not
+const hasAmount = (data: {
+    chargeType?: ShippingChargeType;
+    amount?: number | null;
+}) =>
+    (data.chargeType !== "FIXED" && data.chargeType !== "PERCENTAGE") ||
+    data.amount != null;
+
+const ruleSchema = {
+    create: z
+        .object(ruleFields)
+        .refine(validRange, {
+            message: "minValue must be less than or equal to maxValue",
+            path: ["maxValue"],
+        })
+        .refine(hasAmount, {
+            message: "amount is required for FIXED and PERCENTAGE rules",
+            path: ["amount"],
+        }),
+    update: z
+        .object({ id: z.number() })
+        .merge(z.object(ruleFields).partial())
+        .refine(validRange, {
+            message: "minValue must be less than or equal to maxValue",
+            path: ["maxValue"],
+        })
+        .refine(hasAmount, {
+            message: "amount is required for FIXED and PERCENTAGE rules",
+            path: ["amount"],
+        }),
+};
+
+const shippingRuleController = createCrudController({
+    service: ShippingRuleService,
+    schema: ruleSchema,
+    resourceName: "shippingRule",
+});
+
+export default shippingRuleController;
@@ -0,0 +1,23 @@
+import ShippingZoneService from "../../services/shipping/zone.service";
+import { z } from "zod";
+import { createCrudController } from "../crud.factory";
+
+const zoneSchema = {
+    create: z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+    }),
+    update: z.object({
+        id: z.number(),
+        name: z.string().min(1).optional(),
+        description: z.string().optional(),
+    }),
+};
+
+const shippingZoneController = createCrudController({
+    service: ShippingZoneService,
+    schema: zoneSchema,
+    resourceName: "shippingZone",
+});
+
+export default shippingZoneController;
@@ -0,0 +1,93 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import ApiKeyService from "../../services/user/apiKey.service";
+import { Action } from "../../generated/prisma/client";
+
+const parseId = (value: any, name = "ID") => {
+    const id = Number(value);
+    if (isNaN(id) || id <= 0) throw new Error(`Invalid ${name}`);
+    return id;
+};
+
+type ApiKeyRecord = NonNullable<
+    Awaited<ReturnType<typeof ApiKeyService.findById>>
+>;
+
+// Flatten permissions and spell out whether the key still works
+const formatApiKey = ({ permissions, ...apiKey }: ApiKeyRecord) => ({
+    ...apiKey,
+    permissions: permissions.map((p) => ({
+        ...p.permission,
+        scope: p.scope,
+    })),
+    status: apiKey.revokedAt
+        ? "revoked"
+        : apiKey.expiresAt && apiKey.expiresAt <= new Date()
+        ? "expired"
+        : "active",
+});
+
+const apiKeyController = {
+    getApiKeys: async (req: Request, res: Response): Promise<void> => {
+        const apiKeys = await ApiKeyService.findAll();
+        res.json({ data: apiKeys.map(formatApiKey) });
+    },
+    getApiKey: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "apiKeyId");
+        const apiKey = await ApiKeyService.findById(id);
+        if (!apiKey) {
+            res.status(404).json({
+                message: `API key with ID ${id} not found`,
+            });
+            return;
+        }
+        res.json({ data: formatApiKey(apiKey) });
+    },
+    createApiKey: async (req: Request, res: Response): Promise<void> => {
+        const schema = z
+            .object({
+                name: z.string().min(1),
+                roleId: z.number().int().positive().optional(),
+                permissions: z
+                    .array(
+                        z.object({
+                            resource: z.string(),
+                            actions: z.array(z.nativeEnum(Action)).min(1),
+                        })
+                    )
+                    .min(1)
+                    .optional(),
+                storeId: z.number().int().positive().optional(),
+                expiresAt: z.coerce
+                    .date()
+                    .refine((date) => date > new Date(), {
+                        message: "expiresAt must be in the future",
+                    })
+                    .optional(),
+            })
+            .refine((data) => !data.roleId !== !data.permissions, {
+                message: "Give either roleId or permissions",
+            });
+        const input = schema.parse(req.body);
+        const { apiKey, key } = await ApiKeyService.create(input, {
+            id: (req as any).userId ?? null,
+            roleId: (req as any).role,
+            storeId: (req as any).storeId ?? null,
+            storeScope: (req as any).storeScope,
+        });
+        res.status(201).json({
+            message: "Store this key now; it will not be shown again",
+            data: { ...formatApiKey(apiKey), key },
+        });
+    },
+    revokeApiKey: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "apiKeyId");
+        const apiKey = await ApiKeyService.revoke(id);
+        res.json({
+            message: `API key ${apiKey.name} revoked`,
+            data: formatApiKey(apiKey),
+        });
+    },
+};
+
+export default apiKeyController;
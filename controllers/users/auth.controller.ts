@@ -1,257 +1,365 @@
 import bcrypt from "bcrypt";
 import User from "../../services/user/user.service";
 import jwt from "jsonwebtoken";
-import IP from "ip";
-import geoip from "geoip-lite";
-import { NextFunction, Request, Response } from "express";
+import { CookieOptions, Request, Response } from "express";
 import { z } from "zod";
 import crypto from "crypto";
 import emailController from "./email.controller";
+import SessionService, {
+    SESSION_TTL_DAYS,
+    SessionClient,
+} from "../../services/user/session.service";
+import TwoFactorService from "../../services/user/twoFactor.service";
+
+// Refresh cookie for the admin dashboard, which is served cross-site
+const refreshCookie: CookieOptions = {
+    httpOnly: true, //accessible only by web server
+    secure: true, //https
+    sameSite: "none", //cross-site cookie
+};
+
+type StaffUser = NonNullable<Awaited<ReturnType<typeof User.findUserById>>>;
+
+// Only the hash of reset tokens is stored
+const hashToken = (token: string) =>
+    crypto.createHash("sha256").update(token).digest("hex");
+
+const isActive = (user: StaffUser | null): user is StaffUser =>
+    !!user && user.active && user.deletedAt == null;
+
+const signAccessToken = (user: StaffUser, duid: string) =>
+    jwt.sign(
+        {
+            UserInfo: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                role: user.roleId,
+                storeId: user.storeId,
+                sessionId: duid,
+                passwordChangeAt: user.passwordChangeAt,
+            },
+        },
+        process.env.ACCESS_TOKEN_SECRET as string,
+        { expiresIn: "15m" }
+    );
+
+const setRefreshCookie = (res: Response, refreshToken: string) => {
+    res.cookie("jwt", refreshToken, {
+        ...refreshCookie,
+        maxAge: SESSION_TTL_DAYS * 24 * 60 * 60 * 1000, //match rT expiry
+    });
+};
+
+// Each login is a session, tracked by its Log row
+const startSession = async (
+    res: Response,
+    user: StaffUser,
+    client: SessionClient
+) => {
+    await User.updateUser({ lastLogin: new Date() }, user.id);
+
+    const { duid, refreshToken } = await SessionService.createSession(
+        user,
+        client
+    );
+
+    // Create secure cookie with refresh token
+    setRefreshCookie(res, refreshToken);
+
+    // accessToken containing id, role and store
+    return signAccessToken(user, duid);
+};
+
+// User a challenge token was issued for, if they can still sign in
+const challengedUser = async (userId: number) => {
+    const user = await User.findUserById(userId);
+    if (!isActive(user)) {
+        const err = new Error("Unauthorized");
+        (err as any).status = 401;
+        throw err;
+    }
+    return user;
+};
+
+const passwordSchema = z
+    .string()
+    .min(8, { message: "Password must be at least 8 characters long" })
+    .regex(
+        /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#^()[\]{}])[A-Za-z\d@$!%*?&#^()[\]{}]+$/,
+        {
+            message:
+                "Password must include at least one uppercase letter, one lowercase letter, one digit, and one special character",
+        }
+    );
 
 const authController = {
-    //  login: async (req: Request, res: Response): Promise<void> => {
-    //      const { email, password, browser, os } = req.body;
-    //      if (!email || !password) {
-    //          res.status(400).json({ message: "All fields are required" });
-    //          return;
-    //      }
-    //      const foundUser = await User.findUserByEmail(email);
-    //      if (!foundUser || !foundUser.active || foundUser.deletedAt != null) {
-    //          res.status(401).json({ message: "Unauthorized" });
-    //          return;
-    //      }
-    //      const match = await bcrypt.compare(password, foundUser.password);
-    //      if (!match) {
-    //          res.status(401).json({ message: "Unauthorized" });
-    //          return;
-    //      }
-    //      const accessToken = jwt.sign(
-    //          {
-    //              UserInfo: {
-    //                  email: foundUser.email,
-    //                  name: foundUser.name,
-    //                  roles: foundUser.roles,
-    //                  bgcolor: foundUser.bgcolor,
-    //                  id: foundUser.id,
-    //                  passwordChangeAt: foundUser.passwordChangeAt,
-    //              },
-    //          },
-    //          process.env.ACCESS_TOKEN_SECRET as string,
-    //          { expiresIn: "15m" }
-    //      );
-    //      const refreshToken = jwt.sign(
-    //          { email: foundUser.email },
-    //          process.env.REFRESH_TOKEN_SECRET as string,
-    //          { expiresIn: "7d" }
-    //      );
-    //      // Create secure cookie with refresh token
-    //      res.cookie("jwt", refreshToken, {
-    //          httpOnly: true, //accessible only by web server
-    //          secure: true, //https
-    //          sameSite: "none", //cross-site cookie
-    //          maxAge: 7 * 24 * 60 * 60 * 1000, //cookie expiry: set to match rT
-    //      });
-    //      const updateData = {
-    //          lastLogin: new Date(),
-    //      };
-    //      await User.updateUser(updateData, foundUser.id);
-    //      const getLocation = (ip: string) => {
-    //          const geo = geoip.lookup(ip);
-    //          return geo ? `${geo.city}, ${geo.country}` : "Unknown";
-    //      };
-    //      const ip = IP.address();
-    //      const location = getLocation(ip);
-    //      await User.createLog({
-    //          userId: foundUser.id,
-    //          refreshToken: refreshToken,
-    //          browser: browser,
-    //          os: os,
-    //          ip: ip,
-    //          location: location,
-    //      });
-    //      // Send accessToken containing email and roles
-    //      res.json({ accessToken });
-    //  },
-    //  refresh: (req: Request, res: Response, next: NextFunction) => {
-    //      const cookies = req.cookies;
-    //      if (!cookies?.jwt) {
-    //          res.status(401).json({ message: "Unauthorized" });
-    //          return;
-    //      }
-    //      const refreshToken = cookies.jwt;
-    //      const processToken = async (
-    //          decoded: any,
-    //          res: Response,
-    //          next: NextFunction
-    //      ) => {
-    //          const foundUser = await User.findUserByEmail(decoded.email);
-    //          if (!foundUser) {
-    //              res.status(401).json({ message: "Unauthorized" });
-    //              return;
-    //          }
-    //          const accessToken = jwt.sign(
-    //              {
-    //                  UserInfo: {
-    //                      email: foundUser.email,
-    //                      name: foundUser.name,
-    //                      bgcolor: foundUser.bgcolor,
-    //                      roles: foundUser.roles,
-    //                      id: foundUser.id,
-    //                      passwordChangeAt: foundUser.passwordChangeAt,
-    //                  },
-    //              },
-    //              process.env.ACCESS_TOKEN_SECRET as string,
-    //              { expiresIn: "15m" }
-    //          );
-    //          res.json({ accessToken });
-    //      };
-    //      jwt.verify(
-    //          refreshToken,
-    //          process.env.REFRESH_TOKEN_SECRET as string,
-    //          (err: jwt.VerifyErrors | null, decoded: any) => {
-    //              if (err) {
-    //                  res.status(403).json({ message: "Forbidden" });
-    //                  return;
-    //              }
-    //              // Call processToken and pass next
-    //              processToken(decoded, res, next);
-    //          }
-    //      );
-    //  },
-    //  logout: (req: Request, res: Response) => {
-    //      const cookies = req.cookies;
-    //      if (!cookies?.jwt) {
-    //          res.sendStatus(204);
-    //          return;
-    //      } //No content
-    //      res.clearCookie("jwt", {
-    //          httpOnly: true,
-    //          sameSite: "none",
-    //          secure: true,
-    //      });
-    //      res.json({ message: "Cookie cleared" });
-    //  },
-    //  emailVerify: async (req: Request, res: Response): Promise<void> => {
-    //      const schema = z.object({
-    //          email: z.string().email(),
-    //      });
-    //      const { email } = schema.parse(req.body);
-    //      const foundUser = await User.findUserByEmail(email);
-    //      if (!foundUser || !foundUser.active || foundUser.deletedAt != null) {
-    //          res.status(401).json({ message: "Unauthorized" });
-    //          return;
-    //      }
-    //      const passwordtoken = crypto.randomBytes(32).toString("hex");
-    //      const currentDateTime = new Date();
-    //      currentDateTime.setHours(currentDateTime.getHours() + 1);
-    //      const updateData = {
-    //          passwordToken: passwordtoken,
-    //          tokenValidity: currentDateTime,
-    //          tokenUsed: 0,
-    //      };
-    //      const updatedUser = await User.updateUser(updateData, foundUser.id);
-    //      if (!updatedUser) {
-    //          res.status(401).json({
-    //              message:
-    //                  "Cannot process your request now. Please contact admin",
-    //          });
-    //      }
-    //      const name = foundUser.name;
-    //      const link = `${
-    //          process.env.DOMAIN
-    //      }/auth-reset-password?email=${encodeURIComponent(
-    //          email
-    //      )}&token=${passwordtoken}`;
-    //      const reset = await emailController.passwordReset({
-    //          email,
-    //          name,
-    //          link,
-    //      });
-    //      if (reset) {
-    //          res.status(200).json({ message: "Request successful" });
-    //          return;
-    //      } else {
-    //          res.status(400).json({
-    //              message: "Cannot reset password at the moment",
-    //          });
-    //          return;
-    //      }
-    //  },
-    //  passwordReset: async (req: Request, res: Response): Promise<void> => {
-    //      const passwordSchema = z
-    //          .string()
-    //          .min(8, { message: "Password must be at least 8 characters long" })
-    //          .regex(
-    //              /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&#^()[\]{}])[A-Za-z\d@$!%*?&#^()[\]{}]+$/,
-    //              {
-    //                  message:
-    //                      "Password must include at least one uppercase letter, one lowercase letter, one digit, and one special character",
-    //              }
-    //          );
-    //      const schema = z.object({
-    //          email: z.string().email(),
-    //          password: passwordSchema,
-    //          token: z.string(),
-    //      });
-    //      const { email, password, token } = schema.parse(req.body);
-    //      const foundUser = await User.findUserByEmail(email);
-    //      if (!foundUser || !foundUser.active || foundUser.deletedAt != null) {
-    //          res.status(401).json({ message: "Unauthorized" });
-    //          return;
-    //      }
-    //      const currentDatetime = new Date();
-    //      if (
-    //          !foundUser.tokenValidity ||
-    //          currentDatetime > foundUser.tokenValidity
-    //      ) {
-    //          res.status(401).json({
-    //              message: "Authentication token expired. Please contact support",
-    //          });
-    //          return;
-    //      }
-    //      if (foundUser.tokenUsed === 1) {
-    //          res.status(401).json({
-    //              message: "Authentication token used. Please contact support",
-    //          });
-    //          return;
-    //      }
-    //      if (token !== foundUser.passwordToken) {
-    //          res.status(401).json({ message: "Failed. Not authorized" });
-    //          return;
-    //      }
-    //      const duplicate = await bcrypt.compare(password, foundUser.password);
-    //      if (duplicate) {
-    //          res.status(401).json({
-    //              message: "New password cannot be the same as old password",
-    //          });
-    //          return;
-    //      }
-    //      const hashedPwd = await bcrypt.hash(password, 10);
-    //      const updateData = {
-    //          password: hashedPwd,
-    //          tokenUsed: 1,
-    //          passwordChangeAt: new Date(),
-    //      };
-    //      const updatedUser = await User.updateUser(updateData, foundUser.id);
-    //      if (!updatedUser) {
-    //          res.status(401).json({
-    //              message:
-    //                  "Cannot process your request now. Please contact admin",
-    //          });
-    //      }
-    //      const name = foundUser.name;
-    //      let emailError: string | null = null;
-    //      try {
-    //          await emailController.resetSuccess({ name, email });
-    //      } catch (err) {
-    //          console.error("Email sending failed:", err);
-    //          emailError = "Email sending failed";
-    //      }
-    //      res.status(201).json({
-    //          message: `Password Changed Successfully`,
-    //          ...(emailError && { emailError }),
-    //      });
-    //  },
+    login: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            email: z.string().email(),
+            password: z.string().min(1),
+            browser: z.string().optional(),
+            os: z.string().optional(),
+        });
+        const parsed = schema.safeParse(req.body);
+        if (!parsed.success) {
+            res.status(400).json({ message: "All fields are required" });
+            return;
+        }
+        const { email, password, browser, os } = parsed.data;
+
+        const foundUser = await User.findUserByEmail(email.toLowerCase());
+        if (!isActive(foundUser)) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+        const match = await bcrypt.compare(password, foundUser.password);
+        if (!match) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        const client = { ip: req.ip || "Unknown", browser, os };
+
+        // With 2FA on, the password only earns a challenge for the code
+        if (foundUser.twoFactorEnabled) {
+            res.json({
+                twoFactorRequired: true,
+                challengeToken: await TwoFactorService.createChallenge(
+                    foundUser.id,
+                    "2fa-login",
+                    client
+                ),
+            });
+            return;
+        }
+
+        // Roles that require 2FA must enroll before getting a session
+        if (await TwoFactorService.isRequiredByRole(foundUser.roleId)) {
+            res.json({
+                twoFactorSetupRequired: true,
+                challengeToken: await TwoFactorService.createChallenge(
+                    foundUser.id,
+                    "2fa-setup",
+                    client
+                ),
+            });
+            return;
+        }
+
+        res.json({ accessToken: await startSession(res, foundUser, client) });
+    },
+
+    verifyTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            challengeToken: z.string().min(1),
+            code: z.string().trim().min(1),
+        });
+        const { challengeToken, code } = schema.parse(req.body);
+
+        const { userId, challengeId, client } = TwoFactorService.readChallenge(
+            challengeToken,
+            "2fa-login"
+        );
+        const user = await challengedUser(userId);
+
+        // Accepts a recovery code in place of the authenticator code
+        await TwoFactorService.verify(user.id, code, challengeId);
+
+        res.json({ accessToken: await startSession(res, user, client) });
+    },
+
+    setupTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            challengeToken: z.string().min(1),
+        });
+        const { challengeToken } = schema.parse(req.body);
+
+        const { userId } = TwoFactorService.readChallenge(
+            challengeToken,
+            "2fa-setup"
+        );
+        const user = await challengedUser(userId);
+
+        const data = await TwoFactorService.beginEnrollment(user.id);
+        res.json({ data });
+    },
+
+    confirmTwoFactorSetup: async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        const schema = z.object({
+            challengeToken: z.string().min(1),
+            code: z.string().trim().min(1),
+        });
+        const { challengeToken, code } = schema.parse(req.body);
+
+        const { userId, client } = TwoFactorService.readChallenge(
+            challengeToken,
+            "2fa-setup"
+        );
+        const user = await challengedUser(userId);
+
+        const recoveryCodes = await TwoFactorService.confirmEnrollment(
+            user.id,
+            code
+        );
+
+        res.json({
+            accessToken: await startSession(res, user, client),
+            recoveryCodes,
+        });
+    },
+
+    refresh: async (req: Request, res: Response): Promise<void> => {
+        const cookies = req.cookies;
+        if (!cookies?.jwt) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+
+        // Every refresh swaps the cookie for a new token
+        const session = await SessionService.rotate(cookies.jwt);
+        if (!session) {
+            res.clearCookie("jwt", refreshCookie);
+            res.status(403).json({ message: "Forbidden" });
+            return;
+        }
+
+        setRefreshCookie(res, session.refreshToken);
+        res.json({ accessToken: signAccessToken(session.user, session.duid) });
+    },
+
+    logout: async (req: Request, res: Response): Promise<void> => {
+        const cookies = req.cookies;
+        if (!cookies?.jwt) {
+            res.sendStatus(204);
+            return;
+        } //No content
+
+        // Revoke the session so the token cannot be used again
+        await SessionService.revokeByToken(cookies.jwt);
+
+        res.clearCookie("jwt", refreshCookie);
+        res.json({ message: "Cookie cleared" });
+    },
+
+    emailVerify: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            email: z.string().email(),
+        });
+        const { email } = schema.parse(req.body);
+
+        // Same response whether or not the account exists
+        const requested = {
+            message: "If the account exists, a reset link has been sent",
+        };
+
+        const foundUser = await User.findUserByEmail(email.toLowerCase());
+        if (!isActive(foundUser)) {
+            res.status(200).json(requested);
+            return;
+        }
+
+        const passwordtoken = crypto.randomBytes(32).toString("hex");
+        const currentDateTime = new Date();
+        currentDateTime.setHours(currentDateTime.getHours() + 1);
+        const updateData = {
+            passwordToken: hashToken(passwordtoken),
+            tokenValidity: currentDateTime,
+            tokenUsed: 0,
+        };
+        await User.updateUser(updateData, foundUser.id);
+
+        const link = `${
+            process.env.DOMAIN
+        }/auth-reset-password?email=${encodeURIComponent(
+            foundUser.email
+        )}&token=${passwordtoken}`;
+        const reset = await emailController.passwordReset({
+            email: foundUser.email,
+            name: foundUser.name,
+            link,
+        });
+        if (!reset) {
+            res.status(400).json({
+                message: "Cannot reset password at the moment",
+            });
+            return;
+        }
+
+        res.status(200).json(requested);
+    },
+
+    passwordReset: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({
+            email: z.string().email(),
+            password: passwordSchema,
+            token: z.string(),
+        });
+        const { email, password, token } = schema.parse(req.body);
+
+        const foundUser = await User.findUserByEmail(email.toLowerCase());
+        if (!isActive(foundUser)) {
+            res.status(401).json({ message: "Unauthorized" });
+            return;
+        }
+        const currentDatetime = new Date();
+        if (
+            !foundUser.tokenValidity ||
+            currentDatetime > foundUser.tokenValidity
+        ) {
+            res.status(401).json({
+                message: "Authentication token expired. Please contact support",
+            });
+            return;
+        }
+        if (foundUser.tokenUsed === 1) {
+            res.status(401).json({
+                message: "Authentication token used. Please contact support",
+            });
+            return;
+        }
+        if (
+            !foundUser.passwordToken ||
+            hashToken(token) !== foundUser.passwordToken
+        ) {
+            res.status(401).json({ message: "Failed. Not authorized" });
+            return;
+        }
+        const duplicate = await bcrypt.compare(password, foundUser.password);
+        if (duplicate) {
+            res.status(401).json({
+                message: "New password cannot be the same as old password",
+            });
+            return;
+        }
+
+        const hashedPwd = await bcrypt.hash(password, 10);
+        const updateData = {
+            password: hashedPwd,
+            tokenUsed: 1,
+            passwordChangeAt: new Date(),
+        };
+        await User.updateUser(updateData, foundUser.id);
+
+        // Sign out every session that used the old password
+        await SessionService.revokeAll(foundUser.id);
+
+        const name = foundUser.name;
+        let emailError: string | null = null;
+        try {
+            await emailController.resetSuccess({ name, email: foundUser.email });
+        } catch (err) {
+            console.error("Email sending failed:", err);
+            emailError = "Email sending failed";
+        }
+        res.status(201).json({
+            message: `Password Changed Successfully`,
+            ...(emailError && { emailError }),
+        });
+    },
 };
 
 export default authController;
@@ -1,4 +1,4 @@
-import transporter from "../middleware/emailHanler";
+import transporter from "../../middleware/emailHanler";
 import EmailTemplate from "./emailTemplate";
 
 interface EmailInput {
@@ -6,6 +6,8 @@ interface EmailInput {
     email: string;
     password?: string;
     link?: string;
+    orderNumber?: string;
+    amount?: string; // Formatted with currency
 }
 
 const emailController = {
@@ -112,6 +114,69 @@ const emailController = {
 
         await emailController.sendEmail(to, subject, message); // ✅ await was missing
     },
+
+    confirmAccount: async (data: EmailInput): Promise<void> => {
+        const subject = "Confirm your email to finish creating your account";
+        const to = data.email;
+        const content = `
+           <tr>
+               <td style="text-align:center;padding: 30px 30px 15px 30px;">
+                  <h2 style="font-size: 18px; color: #6576ff; font-weight: 600; margin: 0;">Confirm Your Email</h2>
+               </td>
+            </tr>
+            <tr>
+               <td style="text-align:center;padding: 0 30px 20px">
+                  <p style="margin-bottom: 10px;">Hi ${data.name || "there"},</p>
+                  <p style="margin-bottom: 25px;">Someone asked to create an account with this email. Orders you placed as a guest will show in the account once it is set up.</p>
+                  <a href="${data.link}" style="background-color:#6576ff;border-radius:4px;color:#ffffff;display:inline-block;font-size:13px;font-weight:600;line-height:44px;text-align:center;text-decoration:none;text-transform: uppercase; padding: 0 25px">Create Account</a>
+               </td>
+            </tr>
+            <tr>
+            <td style="padding: 0 30px">
+               <h4 style="font-size: 15px; color: #000000; font-weight: 600; margin: 0; text-transform: uppercase; margin-bottom: 10px; text-align: center">or</h4>
+               <p style="margin-bottom: 10px;">If the button above does not work, paste this link into your web browser:</p>
+               <a href="${data.link}" style="color: #6576ff; text-decoration:none;word-break: break-all;">${data.link}</a>
+               <br/>
+                 <p>If you did not make this request, you can ignore this message.</p>
+            </td>
+         </tr>
+        `;
+        const message = EmailTemplate(content);
+
+        await emailController.sendEmail(to, subject, message);
+    },
+
+    paymentReminder: async (data: EmailInput): Promise<void> => {
+        const subject = `Complete payment for order ${data.orderNumber}`;
+        const to = data.email;
+        const content = `
+           <tr>
+               <td style="text-align:center;padding: 30px 30px 15px 30px;">
+                  <h2 style="font-size: 18px; color: #6576ff; font-weight: 600; margin: 0;">Your order is waiting</h2>
+               </td>
+            </tr>
+            <tr>
+               <td style="text-align:center;padding: 0 30px 20px">
+                  <p style="margin-bottom: 10px;">Hi ${data.name || "there"},</p>
+                  <p style="margin-bottom: 10px;">We have not received payment for order <b>${data.orderNumber}</b> yet.</p>
+                  <p style="margin-bottom: 25px;">Amount due: <b>${data.amount}</b></p>
+                  <a href="${data.link}" style="background-color:#6576ff;border-radius:4px;color:#ffffff;display:inline-block;font-size:13px;font-weight:600;line-height:44px;text-align:center;text-decoration:none;text-transform: uppercase; padding: 0 25px">Complete Payment</a>
+               </td>
+            </tr>
+            <tr>
+            <td style="padding: 0 30px">
+               <h4 style="font-size: 15px; color: #000000; font-weight: 600; margin: 0; text-transform: uppercase; margin-bottom: 10px; text-align: center">or</h4>
+               <p style="margin-bottom: 10px;">If the button above does not work, paste this link into your web browser:</p>
+               <a href="${data.link}" style="color: #6576ff; text-decoration:none;word-break: break-all;">${data.link}</a>
+               <br/>
+                 <p>If you have already paid or no longer want this order, you can ignore this message.</p>
+            </td>
+         </tr>
+        `;
+        const message = EmailTemplate(content);
+
+        await emailController.sendEmail(to, subject, message);
+    },
 };
 
 export default emailController;
@@ -1,9 +1,11 @@
 // controllers/permissionController.ts
 import { Request, Response } from "express";
 import { z } from "zod";
-import { Action } from "../../generated/prisma/client";
+import { Action, PermissionScope } from "../../generated/prisma/client";
 import PermissionService from "../../services/user/permission.service";
 import UserService from "../../services/user/user.service";
+import { requestAccess } from "../../middleware/rbac";
+import { listRoutes } from "../../utils/routeList";
 
 const permissionController = {
     createPermission: async (req: Request, res: Response): Promise<void> => {
@@ -37,6 +39,7 @@ const permissionController = {
                 z.object({
                     resource: z.string(),
                     actions: z.array(z.nativeEnum(Action)),
+                    scope: z.nativeEnum(PermissionScope).optional(),
                 })
             ),
         });
@@ -57,9 +60,11 @@ const permissionController = {
             return;
         }
 
+        // Non-admins can only hand out permissions they hold
         const result = await PermissionService.syncRolePermissions(
             roleId,
-            permissions
+            permissions,
+            await requestAccess(req)
         );
 
         res.status(200).json({
@@ -72,19 +77,39 @@ const permissionController = {
         req: Request,
         res: Response
     ): Promise<void> => {
-        const schema = z.object({
-            permissionId: z.number().int(),
-        });
+        const schema = z
+            .object({
+                permissionId: z.number().int().optional(),
+                scope: z.nativeEnum(PermissionScope).optional(),
+            })
+            .refine((data) => data.permissionId || data.scope, {
+                message: "permissionId or scope is required",
+            });
 
-        const { permissionId } = schema.parse(req.body);
+        const data = schema.parse(req.body);
         const id = parseInt(req.params.id);
 
         const updated = await PermissionService.updateRolePermission(
             id,
-            permissionId
+            data,
+            await requestAccess(req)
         );
         res.status(200).json(updated);
     },
+
+    listRoutes: async (req: Request, res: Response): Promise<void> => {
+        const routes = listRoutes(req.app);
+        const unprotected = routes.filter((route) => !route.permission);
+
+        res.status(200).json({
+            data: routes,
+            summary: {
+                total: routes.length,
+                protected: routes.length - unprotected.length,
+                unprotected: unprotected.length,
+            },
+        });
+    },
 };
 
 export default permissionController;
@@ -1,18 +1,21 @@
 import StoreService from "../../services/user/store.service";
 import { z } from "zod";
 import { createCrudController } from "../crud.factory";
+import { ORDER_PREFIX_PATTERN } from "../../utils/orderUtils";
 
 const storeSchema = {
     create: z.object({
         name: z.string().min(1),
         location: z.string().optional(),
         phone: z.string().optional(),
+        orderPrefix: z.string().regex(ORDER_PREFIX_PATTERN).optional(),
     }),
     update: z.object({
         id: z.number(),
         name: z.string().min(1),
         location: z.string().optional(),
         phone: z.string().optional(),
+        orderPrefix: z.string().regex(ORDER_PREFIX_PATTERN).optional(),
     }),
 };
 
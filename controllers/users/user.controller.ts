@@ -3,6 +3,10 @@ import { Request, Response } from "express";
 import bcrypt from "bcrypt";
 import { Prisma } from "@prisma/client";
 import emailController from "./email.controller";
+import SessionService from "../../services/user/session.service";
+import TwoFactorService from "../../services/user/twoFactor.service";
+import { isAdminRole } from "../../config/permissions.config";
+import { requestAccess } from "../../middleware/rbac";
 import { z } from "zod";
 
 const parseId = (value: any, name = "ID") => {
@@ -11,6 +15,23 @@ const parseId = (value: any, name = "ID") => {
     return id;
 };
 
+type RoleWithPermissions = Awaited<
+    ReturnType<typeof User.findRoles>
+>[number];
+
+const formatRole = (role: RoleWithPermissions) => ({
+    id: role.id,
+    name: role.name,
+    requireTwoFactor: role.requireTwoFactor,
+    userCount: role._count.users,
+    permissions: role.permissions.map((rp) => ({
+        id: rp.id,
+        resource: rp.permission.resource,
+        action: rp.permission.action,
+        scope: rp.scope,
+    })),
+});
+
 const userController = {
     getAllUsers: async (req: Request, res: Response): Promise<void> => {
         const users = await User.findAll();
@@ -32,6 +53,7 @@ const userController = {
         const normalizedEmail = email.toLowerCase();
         const duplicate = await User.findUserByEmail(normalizedEmail);
         if (duplicate) throw new Error("Duplicate email");
+        await User.assertMayManageRoles([roleId], (req as any).role);
         const hashedPwd = await bcrypt.hash(password, 10);
         const newUser = await User.createUser({
             email: normalizedEmail,
@@ -66,6 +88,10 @@ const userController = {
         const duplicate = await User.findUserByEmail(normalizedEmail);
         if (duplicate && duplicate.id !== id)
             throw new Error("Duplicate email");
+        await User.assertMayManageRoles(
+            [user.roleId, roleId],
+            (req as any).role
+        );
         const updateData = {
             email: normalizedEmail,
             phone,
@@ -77,7 +103,13 @@ const userController = {
                 ? await bcrypt.hash(password, 10)
                 : user.password,
         };
-        const updatedUser = await User.updateUser(updateData, id);
+        // Losing the admin role or access must not remove the last admin
+        const updatedUser =
+            roleId !== user.roleId || !active
+                ? await User.updateUserKeepingAdmin(updateData, id)
+                : await User.updateUser(updateData, id);
+        // A deactivated user, or one whose password was reset, signs in again
+        if (!active || password) await SessionService.revokeAll(id);
         res.json({ data: { message: `${updatedUser.email} updated` } });
     },
     updateUserStatus: async (req: Request, res: Response): Promise<void> => {
@@ -88,16 +120,22 @@ const userController = {
         const { id, active } = schema.parse(req.body);
         const user = await User.findUserById(id);
         if (!user) throw new Error("User not found");
+        await User.assertMayManageRoles([user.roleId], (req as any).role);
         const updateData = { active };
-        const updatedUser = await User.updateUser(updateData, id);
+        const updatedUser = active
+            ? await User.updateUser(updateData, id)
+            : await User.updateUserKeepingAdmin(updateData, id);
+        if (!active) await SessionService.revokeAll(id);
         res.json({ data: { message: `${updatedUser.email} updated` } });
     },
     deleteUser: async (req: Request, res: Response): Promise<void> => {
         const id = parseId(req.body.id, "userId");
         const user = await User.findUserById(id);
         if (!user) throw new Error("User not found");
+        await User.assertMayManageRoles([user.roleId], (req as any).role);
         const updateData = { active: false, deletedAt: new Date() };
-        const result = await User.updateUser(updateData, id);
+        const result = await User.updateUserKeepingAdmin(updateData, id);
+        await SessionService.revokeAll(id);
         res.json({
             message: `User ${result.email} with ID ${result.id} deleted`,
         });
@@ -106,16 +144,88 @@ const userController = {
         const id = parseId(req.params.id, "userId");
         const user = await User.findUserById(id);
         if (!user) throw new Error("User not found");
-        const logs = await User.findLogs(id);
-        res.json({ data: logs });
+        const sessions = await SessionService.getSessions(id);
+        res.json({ data: sessions });
+    },
+    getMySessions: async (req: Request, res: Response): Promise<void> => {
+        const { userId, sessionId } = req as any;
+        const sessions = await SessionService.getSessions(userId, sessionId);
+        res.json({ data: sessions });
+    },
+    revokeMySession: async (req: Request, res: Response): Promise<void> => {
+        const userId = (req as any).userId;
+        await SessionService.revokeSession(userId, req.params.duid);
+        res.json({ message: "Session signed out" });
+    },
+    revokeAllSessions: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "userId");
+        const user = await User.findUserById(id);
+        if (!user) throw new Error("User not found");
+        await User.assertMayManageRoles([user.roleId], (req as any).role);
+        const revoked = await SessionService.revokeAll(id);
+        res.json({
+            message: `Signed ${user.email} out of ${revoked} session(s)`,
+            data: { revoked },
+        });
+    },
+    beginTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const userId = (req as any).userId;
+        const data = await TwoFactorService.beginEnrollment(userId);
+        res.json({ data });
+    },
+    confirmTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({ code: z.string().trim().min(1) });
+        const { code } = schema.parse(req.body);
+        const userId = (req as any).userId;
+        const recoveryCodes = await TwoFactorService.confirmEnrollment(
+            userId,
+            code
+        );
+        res.json({
+            message: "Two-factor authentication enabled",
+            data: { recoveryCodes },
+        });
+    },
+    regenerateRecoveryCodes: async (
+        req: Request,
+        res: Response
+    ): Promise<void> => {
+        const schema = z.object({ code: z.string().trim().min(1) });
+        const { code } = schema.parse(req.body);
+        const userId = (req as any).userId;
+        const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(
+            userId,
+            code
+        );
+        res.json({ data: { recoveryCodes } });
+    },
+    disableTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const schema = z.object({ code: z.string().trim().min(1) });
+        const { code } = schema.parse(req.body);
+        const userId = (req as any).userId;
+        await TwoFactorService.disable(userId, code);
+        res.json({ message: "Two-factor authentication disabled" });
+    },
+    resetTwoFactor: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "userId");
+        const user = await User.findUserById(id);
+        if (!user) throw new Error("User not found");
+        await User.assertMayManageRoles([user.roleId], (req as any).role);
+        await TwoFactorService.reset(id);
+        // Sessions opened with the old authenticator end too
+        await SessionService.revokeAll(id);
+        res.json({
+            message: `Two-factor authentication reset for ${user.email}`,
+        });
     },
     updatePassword: async (req: Request, res: Response): Promise<void> => {
         const schema = z.object({
-            id: z.number(),
             currentpassword: z.string(),
             password: z.string(),
         });
-        const { id, currentpassword, password } = schema.parse(req.body);
+        const { currentpassword, password } = schema.parse(req.body);
+        // Only the signed-in user's own password
+        const id = (req as any).userId;
         const user = await User.findUserById(id);
         if (!user) throw new Error("User not found");
         const match = await bcrypt.compare(currentpassword, user.password);
@@ -128,26 +238,101 @@ const userController = {
             passwordChangeAt: new Date(),
         };
         const updatedUser = await User.updateUser(updateData, id);
+        // Sign out every other device; this one stays signed in
+        await SessionService.revokeAll(id, (req as any).sessionId);
         res.json({ data: { message: `${updatedUser.email} updated` } });
     },
     createRole: async (req: Request, res: Response): Promise<void> => {
-        const schema = z.object({ name: z.string() });
-        const { name } = schema.parse(req.body);
-        const newRole = await User.createRole({ name });
+        const schema = z.object({
+            name: z.string(),
+            requireTwoFactor: z.boolean().optional(),
+        });
+        const { name, requireTwoFactor } = schema.parse(req.body);
+        if (isAdminRole(name)) {
+            res.status(400).json({ message: `Role name ${name} is reserved` });
+            return;
+        }
+        const newRole = await User.createRole({ name, requireTwoFactor });
         if (!newRole) throw new Error("Invalid role data");
         res.status(201).json({
             data: { message: `New role ${newRole.name} created` },
         });
     },
     updateRole: async (req: Request, res: Response): Promise<void> => {
-        const schema = z.object({ id: z.number(), name: z.string() });
-        const { id, name } = schema.parse(req.body);
+        const schema = z.object({
+            id: z.number(),
+            name: z.string(),
+            requireTwoFactor: z.boolean().optional(),
+        });
+        const { id, name, requireTwoFactor } = schema.parse(req.body);
         const role = await User.findRoleById(id);
         if (!role) throw new Error("Role not found");
-        const updateData = { name };
+        // The admin override goes by name, so renames could lock it out
+        // or hand it to another role
+        if (isAdminRole(role.name) !== isAdminRole(name)) {
+            res.status(403).json({
+                message: isAdminRole(role.name)
+                    ? "The admin role cannot be renamed"
+                    : `Role name ${name} is reserved`,
+            });
+            return;
+        }
+        const updateData = { name, requireTwoFactor };
         await User.updateRole(updateData, id);
         res.json({ data: { message: `${name} role updated` } });
     },
+    getRoles: async (req: Request, res: Response): Promise<void> => {
+        const roles = await User.findRoles();
+        res.json({ data: roles.map(formatRole) });
+    },
+    getRole: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "roleId");
+        const [role] = await User.findRoles({ id });
+        if (!role) {
+            res.status(404).json({ message: `Role with ID ${id} not found` });
+            return;
+        }
+        res.json({ data: formatRole(role) });
+    },
+    deleteRole: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "roleId");
+        const schema = z.object({
+            reassignTo: z.number().int().positive().optional(),
+        });
+        const { reassignTo } = schema.parse(req.body ?? {});
+        const { role, reassigned, revokedKeys } = await User.deleteRole(
+            id,
+            reassignTo,
+            (req as any).role
+        );
+        res.json({
+            message: `${role.name} role deleted`,
+            data: { reassigned, revokedKeys },
+        });
+    },
+    cloneRole: async (req: Request, res: Response): Promise<void> => {
+        const id = parseId(req.params.id, "roleId");
+        const schema = z.object({
+            name: z.string().min(1),
+            requireTwoFactor: z.boolean().optional(),
+        });
+        const { name, requireTwoFactor } = schema.parse(req.body);
+        if (isAdminRole(name)) {
+            res.status(400).json({ message: `Role name ${name} is reserved` });
+            return;
+        }
+        const { source, role: newRole } = await User.cloneRole(
+            id,
+            { name, requireTwoFactor },
+            await requestAccess(req)
+        );
+
+        const [clone] = await User.findRoles({ id: newRole.id });
+        res.status(201).json({
+            message: `${source.name} role cloned as ${newRole.name}`,
+            data: formatRole(clone),
+        });
+    },
 };
 
 export default userController;
@@ -0,0 +1,8 @@
+/** @type {import('jest').Config} */
+module.exports = {
+    preset: "ts-jest",
+    testEnvironment: "node",
+    roots: ["<rootDir>/tests"],
+    testMatch: ["**/*.test.ts"],
+    setupFiles: ["<rootDir>/tests/setup.ts"],
+};
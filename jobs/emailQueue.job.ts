@@ -0,0 +1,39 @@
+import EmailQueueService from "../services/notification/emailQueue.service";
+import { logEvents } from "../middleware/logger";
+
+// How often queued emails are sent
+const QUEUE_INTERVAL_MS =
+    parseInt(process.env.EMAIL_QUEUE_INTERVAL_MS || "") || 30 * 1000;
+
+let running = false;
+
+/**
+ * Send emails waiting in the queue
+ */
+const flush = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+
+    try {
+        const sent = await EmailQueueService.sendPending();
+        if (sent > 0) {
+            logEvents(`Sent ${sent} queued email(s)`, "jobLog.log");
+        }
+    } catch (err: any) {
+        logEvents(`Email queue run failed: ${err.message}`, "errLog.log");
+    } finally {
+        running = false;
+    }
+};
+
+/**
+ * Start the email queue job; returns the timer so it can be stopped
+ */
+export const startEmailQueue = () => {
+    const timer = setInterval(flush, QUEUE_INTERVAL_MS);
+    timer.unref();
+    return timer;
+};
+
+export default startEmailQueue;
@@ -0,0 +1,40 @@
+import { prisma } from "../utils/prisma";
+import { logEvents } from "../middleware/logger";
+
+// How often expired idempotency keys are purged
+const CLEANUP_INTERVAL_MS =
+    parseInt(process.env.IDEMPOTENCY_CLEANUP_INTERVAL_MS || "") ||
+    60 * 60 * 1000;
+
+/**
+ * Delete idempotency keys (and their stored responses) past their expiry
+ */
+const cleanup = async () => {
+    try {
+        const { count } = await prisma.idempotencyKey.deleteMany({
+            where: { expiresAt: { lt: new Date() } },
+        });
+        if (count > 0) {
+            logEvents(
+                `Purged ${count} expired idempotency key(s)`,
+                "jobLog.log"
+            );
+        }
+    } catch (err: any) {
+        logEvents(
+            `Idempotency key cleanup failed: ${err.message}`,
+            "errLog.log"
+        );
+    }
+};
+
+/**
+ * Start the background cleanup; returns the timer so it can be stopped
+ */
+export const startIdempotencyCleanup = () => {
+    const timer = setInterval(cleanup, CLEANUP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+};
+
+export default startIdempotencyCleanup;
@@ -0,0 +1,40 @@
+import PaymentReminderService from "../services/payment/paymentReminder.service";
+import { logEvents } from "../middleware/logger";
+
+// How often unpaid orders are checked for due reminders
+const REMINDER_INTERVAL_MS =
+    parseInt(process.env.PAYMENT_REMINDER_JOB_INTERVAL_MS || "") ||
+    5 * 60 * 1000;
+
+let running = false;
+
+/**
+ * Email payment reminders for orders left unpaid
+ */
+const remind = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+
+    try {
+        const sent = await PaymentReminderService.sendDueReminders();
+        if (sent > 0) {
+            logEvents(`Sent ${sent} payment reminder(s)`, "jobLog.log");
+        }
+    } catch (err: any) {
+        logEvents(`Payment reminder run failed: ${err.message}`, "errLog.log");
+    } finally {
+        running = false;
+    }
+};
+
+/**
+ * Start the reminder job; returns the timer so it can be stopped
+ */
+export const startPaymentReminders = () => {
+    const timer = setInterval(remind, REMINDER_INTERVAL_MS);
+    timer.unref();
+    return timer;
+};
+
+export default startPaymentReminders;
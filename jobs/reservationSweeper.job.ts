@@ -0,0 +1,42 @@
+import StockReservationService from "../services/product/reservation.service";
+import { logEvents } from "../middleware/logger";
+
+// How often expired reservations are looked for
+const SWEEP_INTERVAL_MS =
+    parseInt(process.env.RESERVATION_SWEEP_INTERVAL_MS || "") || 60 * 1000;
+
+let running = false;
+
+/**
+ * Release stock held by unpaid orders whose reservation has expired
+ */
+const sweep = async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+
+    try {
+        const released = await StockReservationService.releaseExpired();
+        if (released > 0) {
+            logEvents(
+                `Released stock for ${released} expired order(s)`,
+                "jobLog.log"
+            );
+        }
+    } catch (err: any) {
+        logEvents(`Reservation sweep failed: ${err.message}`, "errLog.log");
+    } finally {
+        running = false;
+    }
+};
+
+/**
+ * Start the background sweeper; returns the timer so it can be stopped
+ */
+export const startReservationSweeper = () => {
+    const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+};
+
+export default startReservationSweeper;
@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from "express";
+import AuditService, { AuditEntity } from "../services/user/audit.service";
+import { logEvents } from "./logger";
+
+interface AuditContext {
+    entity?: AuditEntity;
+    // State of each changed entity before the handler ran, by ID
+    before?: Map<number, Record<string, unknown> | null>;
+}
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+const recordRequest = async (
+    req: Request,
+    res: Response,
+    context: AuditContext
+) => {
+    // Route pattern rather than the URL, e.g. "PUT /orders/:id"
+    const path = req.route
+        ? `${req.baseUrl}${req.route.path}`.replace(/\/$/, "")
+        : req.originalUrl.split("?")[0];
+
+    const entry = {
+        userId: (req as any).userId ?? null,
+        action: `${req.method} ${path}`,
+        entity: context.entity ?? req.baseUrl.split("/")[1],
+        payload: req.body ?? null,
+        status: res.statusCode,
+        ip: req.ip ?? null,
+        requestId: (req as any).requestId ?? null,
+    };
+
+    if (!context.entity || !context.before?.size) {
+        await AuditService.record({
+            ...entry,
+            entityId: req.params?.id ?? null,
+            changes: null,
+        });
+        return;
+    }
+
+    // One entry per entity, so bulk changes show up in each one's history
+    for (const [id, before] of context.before) {
+        const after = await AuditService.snapshot(context.entity, id);
+        await AuditService.record({
+            ...entry,
+            entityId: String(id),
+            changes: AuditService.diff(before, after),
+        });
+    }
+};
+
+/**
+ * Write an audit log entry for every successful change made through the
+ * routers this is mounted on. Entries are written once the response has
+ * been sent; a failed write is logged and does not affect the request.
+ */
+export const auditTrail = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    if (!MUTATING_METHODS.has(req.method)) {
+        next();
+        return;
+    }
+
+    const context: AuditContext = {};
+    res.locals.audit = context;
+
+    res.on("finish", () => {
+        if (res.statusCode >= 400) return;
+        recordRequest(req, res, context).catch((err) =>
+            logEvents(
+                `Audit log write failed: ${err.message}\t${req.method}\t${req.originalUrl}`,
+                "errLog.log"
+            )
+        );
+    });
+    next();
+};
+
+const isEntityId = (id: number) => Number.isInteger(id) && id > 0;
+
+/**
+ * Snapshot the entities a route changes before its handler runs, so the
+ * audit entries record each changed field. idsOf returns the IDs, or a
+ * single ID, from the request.
+ */
+export const auditEntities =
+    (entity: AuditEntity, idsOf: (req: Request) => unknown) =>
+    async (req: Request, res: Response, next: NextFunction) => {
+        const context = res.locals.audit as AuditContext | undefined;
+        const found = idsOf(req);
+        const ids = [
+            ...new Set((Array.isArray(found) ? found : [found]).map(Number)),
+        ].filter(isEntityId);
+
+        if (context && ids.length) {
+            context.entity = entity;
+            context.before = new Map();
+            for (const id of ids) {
+                context.before.set(id, await AuditService.snapshot(entity, id));
+            }
+        }
+        next();
+    };
+
+/**
+ * Snapshot the entity a route changes before its handler runs. The ID is
+ * read from the route params, then the request body.
+ */
+export const auditEntity = (entity: AuditEntity, idField = "id") =>
+    auditEntities(entity, (req) => req.params[idField] ?? req.body?.[idField]);
+
+/**
+ * Record the full state of an entity a route creates. Its ID is read
+ * from the `data` of the JSON response.
+ */
+export const auditCreated =
+    (entity: AuditEntity) =>
+    (req: Request, res: Response, next: NextFunction): void => {
+        const context = res.locals.audit as AuditContext | undefined;
+        if (context) {
+            const json = res.json.bind(res);
+            res.json = (body?: any) => {
+                const id = Number(body?.data?.id);
+                if (isEntityId(id)) {
+                    context.entity = entity;
+                    context.before = new Map([[id, null]]);
+                }
+                return json(body);
+            };
+        }
+        next();
+    };
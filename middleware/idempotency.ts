@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { prisma } from "../utils/prisma";
+import { Prisma } from "../generated/prisma/client";
+import { logEvents } from "./logger";
+
+// How long a key and its stored response are kept
+const KEY_TTL_HOURS =
+    parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || "") || 24;
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Keys are only unique per caller, so two customers can never see each
+ * other's stored responses
+ */
+const scopeOf = (req: Request): string => {
+    const customerId = (req as any).customerId;
+    if (customerId) return `customer:${customerId}`;
+
+    const userId = (req as any).userId;
+    if (userId) return `user:${userId}`;
+
+    return `ip:${req.ip}`;
+};
+
+const fingerprintOf = (req: Request): string =>
+    crypto
+        .createHash("sha256")
+        .update(
+            JSON.stringify([req.method, req.originalUrl, req.body ?? null])
+        )
+        .digest("hex");
+
+/**
+ * Honor an optional Idempotency-Key header on unsafe requests.
+ *
+ * The first request with a key runs normally and its response is stored.
+ * Retries with the same key and payload get the stored response back
+ * (with an Idempotent-Replayed header) instead of running again; reusing
+ * a key for a different payload is rejected with 422. Server errors are
+ * not stored, so the request can be retried with the same key; a client
+ * that disconnects mid-request gets the eventual response on retry. JSON
+ * bodies are stored with the status; other responses are replayed with
+ * their status only.
+ */
+const idempotency = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    const key = req.get("Idempotency-Key");
+    if (!key) {
+        next();
+        return;
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+        res.status(400).json({
+            message: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+            isError: true,
+        });
+        return;
+    }
+
+    const scope = scopeOf(req);
+    const fingerprint = fingerprintOf(req);
+
+    let record;
+    try {
+        record = await prisma.idempotencyKey.create({
+            data: {
+                key,
+                scope,
+                method: req.method,
+                path: req.originalUrl,
+                fingerprint,
+                expiresAt: new Date(Date.now() + KEY_TTL_HOURS * 3600 * 1000),
+            },
+        });
+    } catch (err) {
+        if (
+            !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+            err.code !== "P2002"
+        ) {
+            throw err;
+        }
+
+        const existing = await prisma.idempotencyKey.findUnique({
+            where: { scope_key: { scope, key } },
+        });
+
+        // Expired (or just released) keys can be used again
+        if (!existing || existing.expiresAt < new Date()) {
+            if (existing) {
+                await prisma.idempotencyKey.deleteMany({
+                    where: { id: existing.id },
+                });
+            }
+            return idempotency(req, res, next);
+        }
+
+        if (existing.fingerprint !== fingerprint) {
+            res.status(422).json({
+                message:
+                    "This Idempotency-Key was already used for a different request",
+                isError: true,
+            });
+            return;
+        }
+
+        if (existing.responseStatus === null) {
+            res.status(409).json({
+                message:
+                    "A request with this Idempotency-Key is still being processed",
+                isError: true,
+            });
+            return;
+        }
+
+        res.setHeader("Idempotent-Replayed", "true");
+        res.status(existing.responseStatus);
+        if (existing.responseBody === null) {
+            res.end();
+        } else {
+            res.json(existing.responseBody);
+        }
+        return;
+    }
+
+    /**
+     * Store the response the handler produced. Server errors, including
+     * thrown errors answered by the error handler, release the key
+     * instead, so the request can be retried.
+     */
+    const store = async (status: number, body: unknown) => {
+        try {
+            if (status >= 500) {
+                await prisma.idempotencyKey.delete({
+                    where: { id: record.id },
+                });
+                return;
+            }
+
+            await prisma.idempotencyKey.update({
+                where: { id: record.id },
+                data: {
+                    responseStatus: status,
+                    responseBody:
+                        body === undefined || body === null
+                            ? Prisma.JsonNull
+                            : JSON.parse(JSON.stringify(body)),
+                    completedAt: new Date(),
+                },
+            });
+        } catch (err: any) {
+            logEvents(
+                `Failed to store idempotent response for key ${key}: ${err.message}`,
+                "errLog.log"
+            );
+        }
+    };
+
+    // Keep the JSON body; it is stored when the response ends
+    let body: unknown = null;
+    const json = res.json.bind(res);
+    res.json = (payload: any) => {
+        body = payload;
+        return json(payload);
+    };
+
+    // Every response ends here, even when the client has already gone, so
+    // a disconnect mid-request still stores what the handler did. A key
+    // whose handler never responds stays in flight until it expires.
+    let settled = false;
+    const end = res.end.bind(res);
+    res.end = ((...args: any[]) => {
+        if (!settled) {
+            settled = true;
+            store(res.statusCode, body);
+        }
+        return (end as any)(...args);
+    }) as Response["end"];
+
+    next();
+};
+
+export default idempotency;
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from "express";
+import jwt from "jsonwebtoken";
+
+/**
+ * Identify the customer when a Bearer token is sent, and let anonymous
+ * requests through for routes that also serve guests. An invalid token
+ * is still rejected rather than silently treated as a guest.
+ */
+const optionalCustomerJWT = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    const authHeader = req.headers.authorization || req.headers.Authorization;
+
+    if (
+        !authHeader ||
+        typeof authHeader !== "string" ||
+        !authHeader.startsWith("Bearer ")
+    ) {
+        next();
+        return;
+    }
+
+    const token = authHeader.split(" ")[1];
+
+    jwt.verify(
+        token,
+        process.env.ACCESS_TOKEN_SECRET as string,
+        (err: any, decoded: any) => {
+            if (err || !decoded?.CustomerInfo) {
+                res.status(403).json({ message: "Forbidden" });
+                return;
+            }
+
+            (req as any).customerId = decoded.CustomerInfo.id;
+            (req as any).customerEmail = decoded.CustomerInfo.email;
+            (req as any).customerName = decoded.CustomerInfo.name;
+
+            next();
+        }
+    );
+};
+
+export default optionalCustomerJWT;
@@ -1,17 +1,51 @@
 // middleware/rbac.ts
 import { Request, Response, NextFunction } from "express";
-import { prisma } from "../utils/prisma";
-import { Action } from "../generated/prisma/client";
+import { Action, PermissionScope } from "../generated/prisma/client";
+import PermissionService, {
+    RoleAccess,
+} from "../services/user/permission.service";
+import { ApiKeyAccess } from "../services/user/apiKey.service";
+import {
+    PermissionAction,
+    PermissionResource,
+    isAdminRole,
+} from "../config/permissions.config";
 
 interface AuthenticatedRequest extends Request {
     role?: number;
+    storeId?: number | null; // From the JWT, set by verifyJWT
+    storeScope?: number; // Store the permission is limited to, if any
+    apiKey?: ApiKeyAccess; // Set by verifyJWT for API key requests
 }
 
-interface PermissionCheck {
+export interface PermissionCheck {
     resource: string;
     action: Action;
 }
 
+// Middleware tagged with the permission it checks, so routes can be listed
+// with their requirements
+export type PermissionMiddleware = ((
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+) => Promise<void>) & { permission: PermissionCheck };
+
+/**
+ * The permissions a request acts with: an API key's own, or the role's.
+ * API keys carry their own permissions unless they use their role's as
+ * is; roles are cached, cleared when their permissions change.
+ */
+export const requestAccess = async (
+    req: AuthenticatedRequest
+): Promise<RoleAccess | null> => {
+    const apiKey = req.apiKey;
+    if (apiKey?.grants) {
+        return { name: `apikey:${apiKey.name}`, grants: apiKey.grants };
+    }
+    return req.role ? PermissionService.getRoleAccess(req.role) : null;
+};
+
 interface HybridCheckOptions {
     allowedRoles?: string[]; // e.g., ["editor", "supervisor"]
     adminOverride?: boolean; // bypass checks if role is "admin"
@@ -20,27 +54,30 @@ interface HybridCheckOptions {
 export const checkRoleOrPermission = (
     check: PermissionCheck,
     options: HybridCheckOptions = { adminOverride: true }
-) => {
-    return async (
+): PermissionMiddleware => {
+    const middleware = async (
         req: AuthenticatedRequest,
         res: Response,
         next: NextFunction
     ) => {
         const roleId = req.role;
+        const apiKey = req.apiKey;
 
-        if (!roleId) {
+        if (!roleId && !apiKey?.grants) {
             res.status(403).json({ message: "Role ID not found in session" });
             return;
         }
 
         try {
-            const role = await prisma.role.findUnique({
-                where: { id: roleId },
-                select: { name: true },
-            });
+            const role = await requestAccess(req);
+
+            // Every store unless a permission limits it
+            req.storeScope = undefined;
 
             // ✅ Admin override takes priority
-            if (options.adminOverride && role?.name.toLowerCase() === "admin") {
+            if (options.adminOverride && role && isAdminRole(role.name)) {
+                // A store-limited key stays limited even with the admin role
+                req.storeScope = apiKey?.storeId ?? undefined;
                 return next();
             }
 
@@ -53,18 +90,27 @@ export const checkRoleOrPermission = (
                 return next();
             }
 
-            // ✅ Check permission in DB
-            const hasPermission = await prisma.rolePermission.findFirst({
-                where: {
-                    roleId,
-                    permission: {
-                        resource: check.resource,
-                        action: check.action,
-                    },
-                },
-            });
+            // ✅ Check the role's permissions
+            const scope = role?.grants.get(`${check.resource}:${check.action}`);
 
-            if (hasPermission) {
+            // A key's store limits every permission it holds
+            if (
+                scope === PermissionScope.OWN_STORE ||
+                (scope && apiKey?.storeId)
+            ) {
+                // Own-store permissions need a store in the token
+                if (!req.storeId) {
+                    res.status(403).json({
+                        message: `Access denied: ${check.resource}:${check.action} is limited to your store, but you are not assigned to one`,
+                        isError: true,
+                    });
+                    return;
+                }
+                req.storeScope = req.storeId;
+                return next();
+            }
+
+            if (scope) {
                 return next(); // ✅ Permission found
             }
 
@@ -83,9 +129,14 @@ export const checkRoleOrPermission = (
             return;
         }
     };
+
+    return Object.assign(middleware, { permission: check });
 };
 
-// Convenience function for permission checks
-export const requirePermission = (resource: string, action: Action) => {
+// Convenience function for permission checks against the registry
+export const requirePermission = <R extends PermissionResource>(
+    resource: R,
+    action: PermissionAction<R>
+) => {
     return checkRoleOrPermission({ resource, action });
 };
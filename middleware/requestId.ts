@@ -0,0 +1,24 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+const MAX_ID_LENGTH = 100;
+
+/**
+ * Give every request an ID, taken from an upstream X-Request-Id header
+ * when there is a usable one. The ID is echoed back in the response and
+ * stored with audit log entries, so a change can be matched to the
+ * request that made it.
+ */
+const requestId = (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.get("X-Request-Id");
+    const id =
+        incoming && incoming.length <= MAX_ID_LENGTH
+            ? incoming
+            : crypto.randomUUID();
+
+    (req as any).requestId = id;
+    res.setHeader("X-Request-Id", id);
+    next();
+};
+
+export default requestId;
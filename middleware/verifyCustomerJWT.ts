@@ -26,7 +26,8 @@ const verifyCustomerJWT = (
         token,
         process.env.ACCESS_TOKEN_SECRET as string,
         (err: any, decoded: any) => {
-            if (err) {
+            // Staff tokens share the secret but carry no customer
+            if (err || !decoded?.CustomerInfo?.id) {
                 res.status(403).json({ message: "Forbidden" });
                 return;
             }
@@ -1,18 +1,51 @@
 import jwt, { JwtPayload, VerifyErrors } from "jsonwebtoken";
 import { Request, Response, NextFunction } from "express";
+import ApiKeyService, { ApiKeyAccess } from "../services/user/apiKey.service";
 
 interface DecodedUser extends JwtPayload {
     UserInfo: {
+        id?: number;
         email: string;
         role: number;
+        storeId?: number | null; // Store the user works in, if any
+        sessionId?: string; // duid of the login session
     };
 }
 
 interface AuthenticatedRequest extends Request {
     user?: string;
+    userId?: number;
     role?: number;
+    storeId?: number | null;
+    sessionId?: string;
+    apiKey?: ApiKeyAccess; // Set instead of a session for API key requests
 }
 
+const API_KEY_SCHEME = "ApiKey ";
+
+/**
+ * Authenticate an integration by its API key. The key's role and store
+ * stand in for a user's; changes it makes are recorded as its creator's.
+ */
+const verifyApiKey = async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction,
+    key: string
+): Promise<void> => {
+    const apiKey = await ApiKeyService.authenticate(key, req.ip ?? null);
+    if (!apiKey) {
+        res.status(401).json({ message: "Invalid or expired API key" });
+        return;
+    }
+    req.user = `apikey:${apiKey.name}`;
+    req.userId = apiKey.createdById ?? undefined;
+    req.role = apiKey.roleId ?? undefined;
+    req.storeId = apiKey.storeId;
+    req.apiKey = apiKey;
+    next();
+};
+
 const verifyJWT = (
     req: AuthenticatedRequest,
     res: Response,
@@ -20,6 +53,15 @@ const verifyJWT = (
 ): void => {
     const authHeader = req.headers.authorization || req.headers.Authorization;
 
+    if (
+        typeof authHeader === "string" &&
+        authHeader.startsWith(API_KEY_SCHEME)
+    ) {
+        const key = authHeader.slice(API_KEY_SCHEME.length).trim();
+        verifyApiKey(req, res, next, key).catch(next);
+        return;
+    }
+
     if (
         !authHeader ||
         typeof authHeader !== "string" ||
@@ -36,12 +78,36 @@ const verifyJWT = (
             token,
             process.env.ACCESS_TOKEN_SECRET as string
         ) as DecodedUser;
+        // Customer tokens share the secret but carry no staff user
+        if (!decoded.UserInfo?.id) {
+            res.status(403).json({ message: "Forbidden" });
+            return;
+        }
         req.user = decoded.UserInfo.email;
+        req.userId = decoded.UserInfo.id;
         req.role = decoded.UserInfo.role;
+        req.storeId = decoded.UserInfo.storeId ?? null;
+        req.sessionId = decoded.UserInfo.sessionId;
         next();
     } catch (err) {
         res.status(403).json({ message: "Forbidden" });
     }
 };
 
+/**
+ * Refuse API keys on routes that act on the signed-in user's own account
+ * (sessions, 2FA), which a key's creator must manage themselves
+ */
+export const denyApiKeys = (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+): void => {
+    if (req.apiKey) {
+        res.status(403).json({ message: "Not available to API keys" });
+        return;
+    }
+    next();
+};
+
 export default verifyJWT;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "subtotal" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "taxAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill subtotal for existing orders from their stored total
+UPDATE "public"."Order" SET "subtotal" = "totalAmount";
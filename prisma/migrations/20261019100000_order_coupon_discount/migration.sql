@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."OrderCoupon" ADD COLUMN     "discountAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ProductVariant" ADD COLUMN     "weight" DOUBLE PRECISION;
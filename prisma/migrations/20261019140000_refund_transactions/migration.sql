@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."TransactionType" AS ENUM ('PAYMENT', 'REFUND');
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "refundedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "type" "public"."TransactionType" NOT NULL DEFAULT 'PAYMENT',
+ADD COLUMN     "reason" TEXT,
+ADD COLUMN     "userId" INTEGER,
+ADD COLUMN     "returnRequestId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."RefundItem" (
+    "id" SERIAL NOT NULL,
+    "transactionId" INTEGER NOT NULL,
+    "orderItemId" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "RefundItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_orderId_idx" ON "public"."Transaction"("orderId");
+
+-- CreateIndex
+CREATE INDEX "RefundItem_transactionId_idx" ON "public"."RefundItem"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "RefundItem_orderItemId_idx" ON "public"."RefundItem"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Transaction" ADD CONSTRAINT "Transaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Transaction" ADD CONSTRAINT "Transaction_returnRequestId_fkey" FOREIGN KEY ("returnRequestId") REFERENCES "public"."ReturnRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RefundItem" ADD CONSTRAINT "RefundItem_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."RefundItem" ADD CONSTRAINT "RefundItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."OrderItem"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Orders already marked as paid were captured in full
+UPDATE "public"."Order" SET "paidAmount" = "totalAmount" WHERE "paid" = true;
+
+INSERT INTO "public"."Transaction" ("orderId", "type", "amount", "method", "status", "reason", "createdAt")
+SELECT "id", 'PAYMENT', "totalAmount", "paymentMethod", 'SUCCESS', 'Recorded from existing paid order', "updatedAt"
+FROM "public"."Order" o
+WHERE o."paid" = true
+  AND NOT EXISTS (SELECT 1 FROM "public"."Transaction" t WHERE t."orderId" = o."id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "providerReference" TEXT,
+ADD COLUMN     "metadata" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Transaction_providerTxId_idx" ON "public"."Transaction"("providerTxId");
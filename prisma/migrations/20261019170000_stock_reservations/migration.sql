@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."StoreVariantStock" ADD COLUMN     "reserved" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "stockReserved" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reservationExpiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Order_status_reservationExpiresAt_idx" ON "public"."Order"("status", "reservationExpiresAt");
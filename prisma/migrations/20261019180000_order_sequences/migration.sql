@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."Store" ADD COLUMN     "orderPrefix" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."OrderSequence" (
+    "prefix" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "lastValue" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderSequence_pkey" PRIMARY KEY ("prefix","date")
+);
+
+-- Continue the sequences of order numbers already issued
+INSERT INTO "public"."OrderSequence" ("prefix", "date", "lastValue")
+SELECT split_part("orderNumber", '-', 1),
+       split_part("orderNumber", '-', 2),
+       MAX(split_part("orderNumber", '-', 3)::INTEGER)
+FROM "public"."Order"
+WHERE "orderNumber" ~ '^[A-Z0-9]+-[0-9]{8}-[0-9]+$'
+GROUP BY 1, 2;
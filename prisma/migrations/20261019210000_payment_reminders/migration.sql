@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "lastReminderAt" TIMESTAMP(3),
+ADD COLUMN     "paymentReminders" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "Order_status_paid_placedAt_idx" ON "public"."Order"("status", "paid", "placedAt");
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."EmailStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."WishlistItem" (
+    "id" SERIAL NOT NULL,
+    "customerId" INTEGER NOT NULL,
+    "variantId" INTEGER NOT NULL,
+    "notifyBackInStock" BOOLEAN NOT NULL DEFAULT true,
+    "notifyPriceDrop" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WishlistItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."QueuedEmail" (
+    "id" SERIAL NOT NULL,
+    "to" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "status" "public"."EmailStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" TIMESTAMP(3),
+
+    CONSTRAINT "QueuedEmail_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WishlistItem_variantId_idx" ON "public"."WishlistItem"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WishlistItem_customerId_variantId_key" ON "public"."WishlistItem"("customerId", "variantId");
+
+-- CreateIndex
+CREATE INDEX "QueuedEmail_status_createdAt_idx" ON "public"."QueuedEmail"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."WishlistItem" ADD CONSTRAINT "WishlistItem_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "public"."Customer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."WishlistItem" ADD CONSTRAINT "WishlistItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "shippingAddress" JSONB;
+
+-- CreateIndex
+CREATE INDEX "Address_customerId_idx" ON "public"."Address"("customerId");
+
+-- Snapshot the current address of existing orders
+UPDATE "public"."Order" o
+SET "shippingAddress" = jsonb_build_object(
+    'label', a."label",
+    'street', a."street",
+    'city', a."city",
+    'county', a."county",
+    'postalCode', a."postalCode",
+    'country', a."country",
+    'phone', a."phone"
+)
+FROM "public"."Address" a
+WHERE o."addressId" = a."id";
+
+-- Keep one default address per customer (the most recently updated)
+UPDATE "public"."Address" a
+SET "isDefault" = false
+WHERE a."isDefault"
+  AND EXISTS (
+    SELECT 1 FROM "public"."Address" b
+    WHERE b."customerId" = a."customerId"
+      AND b."isDefault"
+      AND (b."updatedAt", b."id") > (a."updatedAt", a."id")
+  );
+
+-- Customers with addresses but no default get their latest address
+UPDATE "public"."Address" a
+SET "isDefault" = true
+WHERE a."id" IN (
+    SELECT DISTINCT ON ("customerId") "id"
+    FROM "public"."Address"
+    WHERE "customerId" NOT IN (
+        SELECT "customerId" FROM "public"."Address" WHERE "isDefault"
+    )
+    ORDER BY "customerId", "updatedAt" DESC, "id" DESC
+);
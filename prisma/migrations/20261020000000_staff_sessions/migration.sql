@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Log" ADD COLUMN     "revokedAt" TIMESTAMP(3);
+
+-- Sessions logged before refresh tokens were hashed cannot be refreshed
+UPDATE "public"."Log" SET "revokedAt" = CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Log_duid_key" ON "public"."Log"("duid");
+
+-- CreateIndex
+CREATE INDEX "Log_userId_idx" ON "public"."Log"("userId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Role" ADD COLUMN     "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "recoveryCodes" TEXT[],
+ADD COLUMN     "twoFactorEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "twoFactorSecret" TEXT,
+ADD COLUMN     "twoFactorStep" INTEGER;
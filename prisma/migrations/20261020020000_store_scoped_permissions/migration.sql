@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "public"."PermissionScope" AS ENUM ('OWN_STORE', 'ALL_STORES');
+
+-- AlterTable
+ALTER TABLE "public"."RolePermission" ADD COLUMN     "scope" "public"."PermissionScope" NOT NULL DEFAULT 'ALL_STORES';
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."AuditLog" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER,
+    "action" TEXT NOT NULL,
+    "entity" TEXT NOT NULL,
+    "entityId" TEXT,
+    "changes" JSONB,
+    "payload" JSONB,
+    "status" INTEGER NOT NULL,
+    "ip" TEXT,
+    "requestId" TEXT,
+    "prevHash" TEXT,
+    "hash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_hash_key" ON "public"."AuditLog"("hash");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_entity_entityId_idx" ON "public"."AuditLog"("entity", "entityId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_userId_idx" ON "public"."AuditLog"("userId");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "public"."AuditLog"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."AuditLog" ADD CONSTRAINT "AuditLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "contactName" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ApiKeyPermission" ADD COLUMN     "scope" "public"."PermissionScope" NOT NULL DEFAULT 'ALL_STORES';
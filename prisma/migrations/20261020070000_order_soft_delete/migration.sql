@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Order_deletedAt_idx" ON "public"."Order"("deletedAt");
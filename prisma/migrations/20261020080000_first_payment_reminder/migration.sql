@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "firstReminderAt" TIMESTAMP(3);
+
+-- Reminded orders only kept the latest reminder time; use it as the best guess
+UPDATE "public"."Order" SET "firstReminderAt" = "lastReminderAt" WHERE "paymentReminders" > 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "twoFactorChallenge" TEXT,
+ADD COLUMN     "twoFactorFailures" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,26 @@
+import express from "express";
+const router = express.Router();
+import apiKeyController from "../../controllers/users/apiKey.controller";
+import verifyJWT, { denyApiKeys } from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+
+// Keys are managed by staff only, never by another key
+router.use(verifyJWT, denyApiKeys);
+
+router
+    .route("/")
+    .get(requirePermission("apiKeys", "view"), apiKeyController.getApiKeys)
+    // The key is only returned in this response
+    .post(
+        requirePermission("apiKeys", "create"),
+        apiKeyController.createApiKey
+    );
+router
+    .route("/:id")
+    .get(requirePermission("apiKeys", "view"), apiKeyController.getApiKey)
+    .delete(
+        requirePermission("apiKeys", "delete"),
+        apiKeyController.revokeApiKey
+    );
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from "express";
+import adminAuditController from "../../controllers/admin/audit.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+
+const router = Router();
+
+router.use(verifyJWT);
+
+/**
+ * @route   GET /audit
+ * @desc    List audit log entries with filtering and pagination
+ * @access  Private (audit:view)
+ */
+router.get(
+    "/",
+    requirePermission("audit", "view"),
+    adminAuditController.getLogs
+);
+
+/**
+ * @route   GET /audit/verify
+ * @desc    Check the hash chain for altered or deleted entries
+ * @access  Private (audit:view)
+ */
+router.get(
+    "/verify",
+    requirePermission("audit", "view"),
+    adminAuditController.verifyChain
+);
+
+export default router;
@@ -1,15 +1,21 @@
-import express, { Request, Response } from "express";
+import express from "express";
 const router = express.Router();
 import loginLimiter from "../../middleware/loginLimiter";
 import authController from "../../controllers/users/auth.controller";
 
-// router.route("/").post(loginLimiter, authController.login);
+router.route("/").post(loginLimiter, authController.login);
 
-// router.route("/refresh").get(authController.refresh);
+router.route("/2fa").post(loginLimiter, authController.verifyTwoFactor);
+router.route("/2fa/setup").post(loginLimiter, authController.setupTwoFactor);
+router
+    .route("/2fa/setup/verify")
+    .post(loginLimiter, authController.confirmTwoFactorSetup);
 
-// router.route("/logout").post(authController.logout);
-// router.route("/verify-email").post(authController.emailVerify);
+router.route("/refresh").get(authController.refresh);
 
-// router.route("/reset-password").post(authController.passwordReset);
+router.route("/logout").post(authController.logout);
+router.route("/verify-email").post(loginLimiter, authController.emailVerify);
+
+router.route("/reset-password").post(authController.passwordReset);
 
 export default router;
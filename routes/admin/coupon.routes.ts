@@ -1,12 +1,32 @@
 import express from "express";
 const router = express.Router();
 import couponController from "../../controllers/coupon.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditCreated, auditEntity } from "../../middleware/audit";
+
+router.use(verifyJWT);
+
 router
     .route("/")
-    .get(couponController.getAll)
-    .post(couponController.create)
-    .patch(couponController.update)
-    .delete(couponController.delete);
-router.route("/:id").get(couponController.getById);
+    .get(requirePermission("coupons", "view"), couponController.getAll)
+    .post(
+        requirePermission("coupons", "create"),
+        auditCreated("coupons"),
+        couponController.create
+    )
+    .patch(
+        requirePermission("coupons", "edit"),
+        auditEntity("coupons"),
+        couponController.update
+    )
+    .delete(
+        requirePermission("coupons", "delete"),
+        auditEntity("coupons"),
+        couponController.delete
+    );
+router
+    .route("/:id")
+    .get(requirePermission("coupons", "view"), couponController.getById);
 
 export default router;
@@ -1,54 +1,112 @@
 import express from "express";
 import inventoryController from "../../controllers/products/inventory.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntities, auditEntity } from "../../middleware/audit";
 const router = express.Router();
 
-// Update variant pricing (price, salePrice, wholesalePrice, sku)
+// Staff only; own-store permissions are limited to the user's store
+router.use(verifyJWT);
+
+// Update variant pricing (price, salePrice, wholesalePrice, weight, sku)
 router
     .route("/variant/:variantId")
-    .patch(inventoryController.updateVariantInventory);
+    .patch(
+        requirePermission("inventory", "edit"),
+        auditEntity("variants", "variantId"),
+        inventoryController.updateVariantInventory
+    );
 
 // Update stock quantity for a variant in a specific store
 router
     .route("/stock/:variantId/:storeId")
-    .patch(inventoryController.updateStock)
-    .get(inventoryController.getStockByStore);
+    .patch(
+        requirePermission("inventory", "edit"),
+        auditEntity("stock", "variantId"),
+        inventoryController.updateStock
+    )
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockByStore
+    );
 
 // Get stock for a variant across all stores
-router.route("/stock/:variantId").get(inventoryController.getVariantStock);
+router
+    .route("/stock/:variantId")
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getVariantStock
+    );
 
 // Bulk update stock for multiple variants (useful for orders)
-router.route("/stock/bulk/:storeId").post(inventoryController.bulkUpdateStock);
+router
+    .route("/stock/bulk/:storeId")
+    .post(
+        requirePermission("inventory", "edit"),
+        auditEntities("stock", (req) =>
+            Array.isArray(req.body?.items)
+                ? req.body.items.map((item: any) => item?.variantId)
+                : []
+        ),
+        inventoryController.bulkUpdateStock
+    );
 
 // Stock movement history endpoints
 router
     .route("/movements/variant/:variantId")
-    .get(inventoryController.getVariantMovements);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getVariantMovements
+    );
 
 router
     .route("/movements/store/:storeId")
-    .get(inventoryController.getStoreMovements);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStoreMovements
+    );
 
 router
     .route("/movements/user/:userId")
-    .get(inventoryController.getUserMovements);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getUserMovements
+    );
 
 // Stock adjustment endpoints
-router.route("/adjustments").get(inventoryController.getStockAdjustments);
+router
+    .route("/adjustments")
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockAdjustments
+    );
 
 router
     .route("/adjustments/stats")
-    .get(inventoryController.getStockAdjustmentStats);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockAdjustmentStats
+    );
 
 router
     .route("/adjustments/:adjustmentId")
-    .get(inventoryController.getStockAdjustmentById);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockAdjustmentById
+    );
 
 router
     .route("/adjustments/user/:userId")
-    .get(inventoryController.getStockAdjustmentsByUser);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockAdjustmentsByUser
+    );
 
 router
     .route("/adjustments/store/:storeId")
-    .get(inventoryController.getStockAdjustmentsByStore);
+    .get(
+        requirePermission("inventory", "view"),
+        inventoryController.getStockAdjustmentsByStore
+    );
 
 export default router;
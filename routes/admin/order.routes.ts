@@ -1,7 +1,11 @@
 import { Router } from "express";
 import adminOrderController from "../../controllers/admin/order.controller";
+import adminRefundController from "../../controllers/admin/refund.controller";
+import adminPaymentController from "../../controllers/admin/payment.controller";
 import verifyJWT from "../../middleware/verifyJWT";
 import { requirePermission } from "../../middleware/rbac";
+import idempotency from "../../middleware/idempotency";
+import { auditEntities, auditEntity } from "../../middleware/audit";
 
 const router = Router();
 
@@ -32,6 +36,18 @@ router.get(
     adminOrderController.getOrderAnalytics
 );
 
+/**
+ * @route   GET /admin/orders/payment-recovery
+ * @desc    Recovered vs. lost value of orders sent payment reminders
+ * @access  Private (Admin/Manager)
+ * @query   storeId, dateFrom, dateTo
+ */
+router.get(
+    "/payment-recovery",
+    requirePermission("orders", "view"),
+    adminPaymentController.getRecoveryReport
+);
+
 /**
  * @route   GET /admin/orders/export
  * @desc    Export orders to CSV
@@ -72,6 +88,7 @@ router.get(
 router.put(
     "/:id",
     requirePermission("orders", "edit"),
+    auditEntity("orders"),
     adminOrderController.updateOrder
 );
 
@@ -87,9 +104,102 @@ router.put(
 router.post(
     "/:id/cancel",
     requirePermission("orders", "edit"),
+    idempotency,
+    auditEntity("orders"),
     adminOrderController.cancelOrder
 );
 
+/**
+ * @route   GET /admin/orders/:id/payments
+ * @desc    Get all payment and refund transactions of an order
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID
+ */
+router.get(
+    "/:id/payments",
+    requirePermission("orders", "view"),
+    adminPaymentController.getOrderPayments
+);
+
+/**
+ * @route   POST /admin/orders/:id/payments/:transactionId/capture
+ * @desc    Capture an authorized card or PayPal payment
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID, transactionId - Payment transaction ID
+ * @body    {
+ *   "amount": number (optional, defaults to the authorized amount)
+ * }
+ */
+router.post(
+    "/:id/payments/:transactionId/capture",
+    requirePermission("orders", "edit"),
+    auditEntity("payments", "transactionId"),
+    adminPaymentController.capturePayment
+);
+
+/**
+ * @route   POST /admin/orders/:id/payments/:transactionId/void
+ * @desc    Release an authorized card or PayPal payment
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID, transactionId - Payment transaction ID
+ */
+router.post(
+    "/:id/payments/:transactionId/void",
+    requirePermission("orders", "edit"),
+    auditEntity("payments", "transactionId"),
+    adminPaymentController.voidPayment
+);
+
+/**
+ * @route   GET /admin/orders/:id/refunds
+ * @desc    Get refunds and the captured/refunded balance of an order
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID
+ */
+router.get(
+    "/:id/refunds",
+    requirePermission("orders", "view"),
+    adminRefundController.getOrderRefunds
+);
+
+/**
+ * @route   POST /admin/orders/:id/refunds
+ * @desc    Refund an order in full or in part
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID
+ * @body    {
+ *   "amount": number (optional, defaults to the item total or the full balance),
+ *   "items": [{ "orderItemId": number, "quantity": number }] (optional),
+ *   "reason": string (optional),
+ *   "returnRequestId": number (optional, refunds a received return)
+ * }
+ */
+router.post(
+    "/:id/refunds",
+    requirePermission("orders", "edit"),
+    idempotency,
+    auditEntity("orders"),
+    adminRefundController.createRefund
+);
+
+/**
+ * @route   PATCH /admin/orders/:id/refunds/:refundId
+ * @desc    Record the outcome of a pending refund, e.g. an M-Pesa reversal
+ * @access  Private (Admin/Manager)
+ * @params  id - Order ID, refundId - Refund transaction ID
+ * @body    {
+ *   "status": "SUCCESS" | "FAILED",
+ *   "providerReference": string (optional, e.g. the reversal receipt),
+ *   "reason": string (optional)
+ * }
+ */
+router.patch(
+    "/:id/refunds/:refundId",
+    requirePermission("orders", "edit"),
+    auditEntity("payments", "refundId"),
+    adminRefundController.resolveRefund
+);
+
 /**
  * @route   DELETE /admin/orders/:id
  * @desc    Delete an order (soft delete)
@@ -99,6 +209,7 @@ router.post(
 router.delete(
     "/:id",
     requirePermission("orders", "delete"),
+    auditEntity("orders"),
     adminOrderController.deleteOrder
 );
 
@@ -128,6 +239,7 @@ router.get(
 router.post(
     "/bulk-update",
     requirePermission("orders", "edit"),
+    auditEntities("orders", (req) => req.body?.orderIds),
     adminOrderController.bulkUpdateOrders
 );
 
@@ -1,16 +1,32 @@
 // routes/permissionRoutes.ts
 import express from "express";
 import permissionController from "../../controllers/users/permission.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
 
 const router = express.Router();
 
-router.post("/", permissionController.createPermission);
+router.use(verifyJWT);
+
+router.post(
+    "/",
+    requirePermission("permissions", "edit"),
+    permissionController.createPermission
+);
+
+// Every route with the permission it requires
+router.get(
+    "/routes",
+    requirePermission("permissions", "view"),
+    permissionController.listRoutes
+);
 // router.post(
 //     "/:roleId/permissions",
 //     permissionController.assignPermissionToRole
 // );
 router.patch(
     "/role-permissions/:id",
+    requirePermission("roles", "edit"),
     permissionController.updateRolePermission
 );
 
@@ -8,19 +8,64 @@ import { uploadFiles } from "../../middleware/fileUpload";
 import tagController from "../../controllers/products/tag.controller";
 import attributeController from "../../controllers/products/attribute.controller";
 import attributeValueController from "../../controllers/products/attributeValue.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntity } from "../../middleware/audit";
+
+// Reads also serve the storefront; every change needs a staff token and
+// the products permission
+const staff = (action: "create" | "edit" | "delete") => [
+    verifyJWT,
+    requirePermission("products", action),
+];
 
 router
     .route("/")
     .get(productController.getAllProducts)
-    .post(productController.createGeneral)
-    .patch(productController.updateGeneral)
-    .delete(productController.deleteProduct);
+    .post(...staff("create"), productController.createGeneral)
+    .patch(
+        ...staff("edit"),
+        auditEntity("products"),
+        productController.updateGeneral
+    )
+    .delete(
+        ...staff("delete"),
+        auditEntity("products"),
+        productController.deleteProduct
+    );
 
-router.route("/setup/:productId").post(productController.updateSetup);
-router.route("/seo/:productId").post(productController.updateSEO);
-router.route("/status/:productId").post(productController.updateStatus);
+router
+    .route("/setup/:productId")
+    .post(
+        ...staff("edit"),
+        auditEntity("products", "productId"),
+        productController.updateSetup
+    );
+router
+    .route("/seo/:productId")
+    .post(
+        ...staff("edit"),
+        auditEntity("products", "productId"),
+        productController.updateSEO
+    );
+router
+    .route("/status/:productId")
+    .post(
+        ...staff("edit"),
+        auditEntity("products", "productId"),
+        productController.updateStatus
+    );
 
+// Public storefront listing
 router.route("/store/:storeId").get(productController.getProductsByStore);
+// Staff listing; own-store permissions only see the user's store
+router
+    .route("/admin/store/:storeId")
+    .get(
+        verifyJWT,
+        requirePermission("products", "view"),
+        productController.getProductsByStore
+    );
 router
     .route("/category/:categoryId")
     .get(productController.getProductsByCategory);
@@ -29,25 +74,28 @@ router
 router
     .route("/media")
     .post(
+        ...staff("edit"),
         uploadFiles([
             { name: "thumbnail", maxCount: 1 },
             { name: "images", maxCount: 10 }, // Allow up to 10 images/videos
         ]),
         mediaController.addProductMedia
     )
-    .patch(mediaController.addVariantMedia);
+    .patch(...staff("edit"), mediaController.addVariantMedia);
 
 // Media management routes
-router.route("/media/:mediaId").delete(mediaController.deleteMedia);
+router
+    .route("/media/:mediaId")
+    .delete(...staff("edit"), mediaController.deleteMedia);
 router
     .route("/media/product/:productId")
-    .delete(mediaController.deleteAllProductMedia);
+    .delete(...staff("edit"), mediaController.deleteAllProductMedia);
 router
     .route("/media/product/:productId/thumbnail")
     .get(mediaController.getProductThumbnail);
 router
     .route("/media/product/:productId/sync-meta")
-    .post(mediaController.syncMetaImage);
+    .post(...staff("edit"), mediaController.syncMetaImage);
 //  .delete(mediaController.delete);
 // router.route("/media/:id").get(mediaController.getById);
 // router
@@ -58,27 +106,27 @@ router
 router
     .route("/brands")
     .get(brandController.getAll)
-    .post(brandController.create)
-    .patch(brandController.update)
-    .delete(brandController.delete);
+    .post(...staff("create"), brandController.create)
+    .patch(...staff("edit"), brandController.update)
+    .delete(...staff("delete"), brandController.delete);
 router.route("/brands/:id").get(brandController.getById);
 
 // Attribute routes
 router
     .route("/attributes")
     .get(attributeController.getAll)
-    .post(attributeController.create)
-    .patch(attributeController.update)
-    .delete(attributeController.delete);
+    .post(...staff("create"), attributeController.create)
+    .patch(...staff("edit"), attributeController.update)
+    .delete(...staff("delete"), attributeController.delete);
 router.route("/attributes/:id").get(attributeController.getById);
 
 // Attribute Value routes
 router
     .route("/attribute-values")
     .get(attributeValueController.getAll)
-    .post(attributeValueController.create)
-    .patch(attributeValueController.update)
-    .delete(attributeValueController.delete);
+    .post(...staff("create"), attributeValueController.create)
+    .patch(...staff("edit"), attributeValueController.update)
+    .delete(...staff("delete"), attributeValueController.delete);
 router.route("/attribute-values/:id").get(attributeValueController.getById);
 
 // Category routes
@@ -86,6 +134,7 @@ router
     .route("/categories")
     .get(categoryController.getAll)
     .post(
+        ...staff("create"),
         uploadFiles([
             { name: "image", maxCount: 1 },
             { name: "icon", maxCount: 1 },
@@ -93,13 +142,14 @@ router
         categoryController.create
     )
     .patch(
+        ...staff("edit"),
         uploadFiles([
             { name: "image", maxCount: 1 },
             { name: "icon", maxCount: 1 },
         ]),
         categoryController.update
     )
-    .delete(categoryController.delete);
+    .delete(...staff("delete"), categoryController.delete);
 router.route("/categories/:id").get(categoryController.getById);
 // router.route("/:id").get(productController.getProductById);
 
@@ -107,9 +157,9 @@ router.route("/categories/:id").get(categoryController.getById);
 router
     .route("/tags")
     .get(tagController.getAll)
-    .post(tagController.create)
-    .patch(tagController.update)
-    .delete(tagController.delete);
+    .post(...staff("create"), tagController.create)
+    .patch(...staff("edit"), tagController.update)
+    .delete(...staff("delete"), tagController.delete);
 router.route("/tags/:id").get(tagController.getById);
 router.route("/tags/:tag/products").get(tagController.getProductsByTag);
 
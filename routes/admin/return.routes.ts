@@ -0,0 +1,86 @@
+import { Router } from "express";
+import adminReturnController from "../../controllers/admin/return.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntity } from "../../middleware/audit";
+
+const router = Router();
+
+// Apply admin authentication middleware to all routes
+router.use(verifyJWT);
+
+/**
+ * @route   GET /returns
+ * @desc    Get all return requests with filtering and pagination
+ * @access  Private (Admin/Manager)
+ * @query   page, limit, status, orderId, customerId
+ */
+router.get(
+    "/",
+    requirePermission("orders", "view"),
+    adminReturnController.getAllReturns
+);
+
+/**
+ * @route   GET /returns/:id
+ * @desc    Get return request details
+ * @access  Private (Admin/Manager)
+ * @params  id - Return request ID
+ */
+router.get(
+    "/:id",
+    requirePermission("orders", "view"),
+    adminReturnController.getReturnDetails
+);
+
+/**
+ * @route   POST /returns/:id/approve
+ * @desc    Approve a return request
+ * @access  Private (Admin/Manager)
+ * @params  id - Return request ID
+ * @body    {
+ *   "items": [{ "returnItemId": number, "quantity": number }] (optional, defaults to all requested),
+ *   "note": string (optional)
+ * }
+ */
+router.post(
+    "/:id/approve",
+    requirePermission("orders", "edit"),
+    auditEntity("returns"),
+    adminReturnController.approveReturn
+);
+
+/**
+ * @route   POST /returns/:id/reject
+ * @desc    Reject a return request
+ * @access  Private (Admin/Manager)
+ * @params  id - Return request ID
+ * @body    {
+ *   "note": string
+ * }
+ */
+router.post(
+    "/:id/reject",
+    requirePermission("orders", "edit"),
+    auditEntity("returns"),
+    adminReturnController.rejectReturn
+);
+
+/**
+ * @route   POST /returns/:id/receive
+ * @desc    Receive approved items back and restock them into the order's store
+ * @access  Private (Admin/Manager)
+ * @params  id - Return request ID
+ * @body    {
+ *   "items": [{ "returnItemId": number, "quantity": number }] (optional, defaults to all approved),
+ *   "note": string (optional)
+ * }
+ */
+router.post(
+    "/:id/receive",
+    requirePermission("orders", "edit"),
+    auditEntity("returns"),
+    adminReturnController.receiveReturn
+);
+
+export default router;
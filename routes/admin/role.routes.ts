@@ -1,21 +1,42 @@
-import express, { Request, Response } from "express";
+import express from "express";
 const router = express.Router();
 import userController from "../../controllers/users/user.controller";
 import permissionController from "../../controllers/users/permission.controller";
-// import verifyJWT from "../../middleware/verifyJWT";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntity } from "../../middleware/audit";
 
-// router.use(verifyJWT);
+router.use(verifyJWT);
 
 router
     .route("/")
-    .post(userController.createRole)
-    //     .post(userController.createNewUser)
-    .patch(userController.updateRole);
-//     .delete(userController.deleteUser);
-// router.route("/status").patch(userController.updateUserStatus);
-// router.route("/update-password").patch(userController.updatePassword);
+    .get(requirePermission("roles", "view"), userController.getRoles)
+    .post(requirePermission("roles", "create"), userController.createRole)
+    .patch(
+        requirePermission("roles", "edit"),
+        auditEntity("roles"),
+        userController.updateRole
+    );
+router
+    .route("/:id")
+    .get(requirePermission("roles", "view"), userController.getRole)
+    // Body: { reassignTo } when the role still has users
+    .delete(
+        requirePermission("roles", "delete"),
+        auditEntity("roles"),
+        userController.deleteRole
+    );
+
+// Copy a role's permissions into a new role, e.g. for a new branch
+router
+    .route("/:id/clone")
+    .post(requirePermission("roles", "create"), userController.cloneRole);
 router
     .route("/:roleId/permissions")
-    .post(permissionController.syncRolePermissions);
+    .post(
+        requirePermission("roles", "edit"),
+        auditEntity("roles", "roleId"),
+        permissionController.syncRolePermissions
+    );
 
 export default router;
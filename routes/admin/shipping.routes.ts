@@ -0,0 +1,89 @@
+import express from "express";
+import shippingZoneController from "../../controllers/shipping/zone.controller";
+import shippingLocationController from "../../controllers/shipping/location.controller";
+import shippingRuleController from "../../controllers/shipping/rule.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditCreated, auditEntity } from "../../middleware/audit";
+
+const router = express.Router();
+
+// Apply admin authentication middleware to all routes
+router.use(verifyJWT);
+
+// Shipping zones (e.g. Nairobi, Upcountry)
+router
+    .route("/zones")
+    .get(requirePermission("shipping", "view"), shippingZoneController.getAll)
+    .post(
+        requirePermission("shipping", "create"),
+        auditCreated("shippingZones"),
+        shippingZoneController.create
+    )
+    .patch(
+        requirePermission("shipping", "edit"),
+        auditEntity("shippingZones"),
+        shippingZoneController.update
+    )
+    .delete(
+        requirePermission("shipping", "delete"),
+        auditEntity("shippingZones"),
+        shippingZoneController.delete
+    );
+router
+    .route("/zones/:id")
+    .get(requirePermission("shipping", "view"), shippingZoneController.getById);
+
+// Shipping locations (city or county names mapped to a zone)
+router
+    .route("/locations")
+    .get(
+        requirePermission("shipping", "view"),
+        shippingLocationController.getAll
+    )
+    .post(
+        requirePermission("shipping", "create"),
+        auditCreated("shippingLocations"),
+        shippingLocationController.create
+    )
+    .patch(
+        requirePermission("shipping", "edit"),
+        auditEntity("shippingLocations"),
+        shippingLocationController.update
+    )
+    .delete(
+        requirePermission("shipping", "delete"),
+        auditEntity("shippingLocations"),
+        shippingLocationController.delete
+    );
+router
+    .route("/locations/:id")
+    .get(
+        requirePermission("shipping", "view"),
+        shippingLocationController.getById
+    );
+
+// Shipping rules (AMOUNT/WEIGHT ranges with FREE/FIXED/PERCENTAGE charges)
+router
+    .route("/rules")
+    .get(requirePermission("shipping", "view"), shippingRuleController.getAll)
+    .post(
+        requirePermission("shipping", "create"),
+        auditCreated("shippingRules"),
+        shippingRuleController.create
+    )
+    .patch(
+        requirePermission("shipping", "edit"),
+        auditEntity("shippingRules"),
+        shippingRuleController.update
+    )
+    .delete(
+        requirePermission("shipping", "delete"),
+        auditEntity("shippingRules"),
+        shippingRuleController.delete
+    );
+router
+    .route("/rules/:id")
+    .get(requirePermission("shipping", "view"), shippingRuleController.getById);
+
+export default router;
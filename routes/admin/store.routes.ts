@@ -1,14 +1,33 @@
 import express from "express";
 const router = express.Router();
 import storeController from "../../controllers/users/store.controller";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditCreated, auditEntity } from "../../middleware/audit";
+
+router.use(verifyJWT);
 
 router
     .route("/")
-    .get(storeController.getAll)
-    .post(storeController.create)
-    .patch(storeController.update)
-    .delete(storeController.delete);
+    .get(requirePermission("stores", "view"), storeController.getAll)
+    .post(
+        requirePermission("stores", "create"),
+        auditCreated("stores"),
+        storeController.create
+    )
+    .patch(
+        requirePermission("stores", "edit"),
+        auditEntity("stores"),
+        storeController.update
+    )
+    .delete(
+        requirePermission("stores", "delete"),
+        auditEntity("stores"),
+        storeController.delete
+    );
 
-router.route("/:id").get(storeController.getById);
+router
+    .route("/:id")
+    .get(requirePermission("stores", "view"), storeController.getById);
 
 export default router;
@@ -1,19 +1,74 @@
 import express, { Request, Response } from "express";
 const router = express.Router();
 import userController from "../../controllers/users/user.controller";
-// import verifyJWT from "../../middleware/verifyJWT";
+import verifyJWT, { denyApiKeys } from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntity } from "../../middleware/audit";
 
-// router.use(verifyJWT);
+router.use(verifyJWT);
 
 router
     .route("/")
-    .get(userController.getAllUsers)
-    .post(userController.createUser)
-    .patch(userController.updateUser)
-    .delete(userController.deleteUser);
-router.route("/status").patch(userController.updateUserStatus);
-router.route("/update-password").patch(userController.updatePassword);
-router.route("/:id/login-logs").get(userController.getLoginLogs);
+    .get(requirePermission("users", "view"), userController.getAllUsers)
+    .post(requirePermission("users", "create"), userController.createUser)
+    .patch(
+        requirePermission("users", "edit"),
+        auditEntity("users"),
+        userController.updateUser
+    )
+    .delete(
+        requirePermission("users", "delete"),
+        auditEntity("users"),
+        userController.deleteUser
+    );
+router
+    .route("/status")
+    .patch(
+        requirePermission("users", "edit"),
+        auditEntity("users"),
+        userController.updateUserStatus
+    );
+// The signed-in user's own password
+router
+    .route("/update-password")
+    .patch(denyApiKeys, userController.updatePassword);
+router
+    .route("/:id/login-logs")
+    .get(requirePermission("users", "view"), userController.getLoginLogs);
+
+// Sessions of the signed-in user
+router
+    .route("/me/sessions")
+    .get(denyApiKeys, userController.getMySessions);
+router
+    .route("/me/sessions/:duid")
+    .delete(denyApiKeys, userController.revokeMySession);
+
+// Two-factor authentication of the signed-in user
+router
+    .route("/me/2fa")
+    .post(denyApiKeys, userController.beginTwoFactor)
+    .delete(denyApiKeys, userController.disableTwoFactor);
+router
+    .route("/me/2fa/verify")
+    .post(denyApiKeys, userController.confirmTwoFactor);
+router
+    .route("/me/2fa/recovery-codes")
+    .post(denyApiKeys, userController.regenerateRecoveryCodes);
+
+// Sign a user out of every session
+router
+    .route("/:id/sessions/revoke")
+    .post(requirePermission("users", "edit"), userController.revokeAllSessions);
+
+// Clear a user's 2FA, e.g. after a lost device
+router
+    .route("/:id/2fa")
+    .delete(
+        requirePermission("users", "edit"),
+        auditEntity("users"),
+        userController.resetTwoFactor
+    );
 
 // router.delete(
 //   "/products/:id",
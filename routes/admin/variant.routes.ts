@@ -2,9 +2,15 @@ import express from "express";
 const router = express.Router();
 import variantController from "../../controllers/products/variant.controller";
 import { uploadFiles } from "../../middleware/fileUpload";
+import verifyJWT from "../../middleware/verifyJWT";
+import { requirePermission } from "../../middleware/rbac";
+import { auditEntity } from "../../middleware/audit";
+
+router.use(verifyJWT);
 
 // Create variants with images for a product
 router.route("/:productId").post(
+    requirePermission("products", "create"),
     uploadFiles([
         { name: "variant_0", maxCount: 10 },
         { name: "variant_1", maxCount: 10 },
@@ -21,17 +27,29 @@ router.route("/:productId").post(
 );
 
 // Update variant information (without images)
-router.route("/:variantId").patch(variantController.updateVariant);
+router
+    .route("/:variantId")
+    .patch(
+        requirePermission("products", "edit"),
+        auditEntity("variants", "variantId"),
+        variantController.updateVariant
+    );
 
 // Add images to existing variant
 router
     .route("/:variantId/images")
     .post(
+        requirePermission("products", "edit"),
         uploadFiles([{ name: "images", maxCount: 10 }]),
         variantController.addVariantImages
     );
 
 // Delete variants not in the provided list
-router.route("/:productId/cleanup").delete(variantController.deleteNotInList);
+router
+    .route("/:productId/cleanup")
+    .delete(
+        requirePermission("products", "delete"),
+        variantController.deleteNotInList
+    );
 
 export default router;
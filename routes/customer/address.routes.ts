@@ -0,0 +1,66 @@
+import { Router } from "express";
+import customerAddressController from "../../controllers/customer/address.controller";
+import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+
+const router = Router();
+
+router.use(verifyCustomerJWT);
+
+/**
+ * @route   GET /customer/addresses
+ * @desc    Get the customer's addresses, default first
+ * @access  Private (Customer)
+ */
+router.get("/", customerAddressController.getAddresses);
+
+/**
+ * @route   POST /customer/addresses
+ * @desc    Add an address (the first address is always the default)
+ * @access  Private (Customer)
+ * @body    {
+ *   "label": string (e.g. "Home"),
+ *   "street": string,
+ *   "city": string,
+ *   "county": string,
+ *   "postalCode": string,
+ *   "country": string,
+ *   "phone": string (optional),
+ *   "isDefault": boolean (optional)
+ * }
+ */
+router.post("/", customerAddressController.createAddress);
+
+/**
+ * @route   GET /customer/addresses/:id
+ * @desc    Get an address
+ * @access  Private (Customer)
+ * @params  id - Address ID
+ */
+router.get("/:id", customerAddressController.getAddress);
+
+/**
+ * @route   PATCH /customer/addresses/:id
+ * @desc    Edit an address (orders already placed are not changed)
+ * @access  Private (Customer)
+ * @params  id - Address ID
+ * @body    Any of the fields accepted when adding an address
+ */
+router.patch("/:id", customerAddressController.updateAddress);
+
+/**
+ * @route   PATCH /customer/addresses/:id/default
+ * @desc    Make an address the default
+ * @access  Private (Customer)
+ * @params  id - Address ID
+ */
+router.patch("/:id/default", customerAddressController.setDefault);
+
+/**
+ * @route   DELETE /customer/addresses/:id
+ * @desc    Delete an address (the latest other address becomes the default)
+ * @access  Private (Customer)
+ * @params  id - Address ID
+ */
+router.delete("/:id", customerAddressController.deleteAddress);
+
+export default router;
@@ -10,6 +10,11 @@ import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
 
 // Public routes
 router.post("/register", customerAuthController.register);
+router.post(
+    "/register/confirm",
+    loginLimiter,
+    customerAuthController.completeRegistration
+); // Guests finish registering from the emailed link
 router.post("/login", loginLimiter, customerAuthController.login);
 router.post("/oauth", customerAuthController.oauthLogin); // For Google/Facebook OAuth
 router.post("/logout", customerAuthController.logout);
@@ -0,0 +1,99 @@
+import { Router } from "express";
+import customerCartController from "../../controllers/customer/cart.controller";
+import optionalCustomerJWT from "../../middleware/optionalCustomerJWT";
+import idempotency from "../../middleware/idempotency";
+
+const router = Router();
+
+// Carts serve both signed-in customers and guests (X-Cart-Token header)
+router.use(optionalCustomerJWT);
+
+/**
+ * @route   GET /customer/cart
+ * @desc    Get the cart with live prices, stock availability and coupons
+ * @access  Public (Customer or guest)
+ */
+router.get("/", customerCartController.getCart);
+
+/**
+ * @route   DELETE /customer/cart
+ * @desc    Remove every item and coupon from the cart
+ * @access  Public (Customer or guest)
+ */
+router.delete("/", customerCartController.clearCart);
+
+/**
+ * @route   POST /customer/cart/items
+ * @desc    Add a variant to the cart (adds to the quantity of an existing line)
+ * @access  Public (Customer or guest)
+ * @body    {
+ *   "variantId": number,
+ *   "quantity": number,
+ *   "storeId": number (optional, store to buy from)
+ * }
+ */
+router.post("/items", customerCartController.addItem);
+
+/**
+ * @route   PATCH /customer/cart/items/:itemId
+ * @desc    Change the quantity of a cart line (0 removes it)
+ * @access  Public (Customer or guest)
+ * @params  itemId - Cart item ID
+ * @body    {
+ *   "quantity": number
+ * }
+ */
+router.patch("/items/:itemId", customerCartController.updateItem);
+
+/**
+ * @route   DELETE /customer/cart/items/:itemId
+ * @desc    Remove a line from the cart
+ * @access  Public (Customer or guest)
+ * @params  itemId - Cart item ID
+ */
+router.delete("/items/:itemId", customerCartController.removeItem);
+
+/**
+ * @route   POST /customer/cart/coupons
+ * @desc    Apply a coupon to the cart
+ * @access  Public (Customer or guest)
+ * @body    {
+ *   "code": string
+ * }
+ */
+router.post("/coupons", customerCartController.applyCoupon);
+
+/**
+ * @route   DELETE /customer/cart/coupons/:code
+ * @desc    Remove a coupon from the cart
+ * @access  Public (Customer or guest)
+ * @params  code - Coupon code
+ */
+router.delete("/coupons/:code", customerCartController.removeCoupon);
+
+/**
+ * @route   POST /customer/cart/checkout
+ * @desc    Place an order for the cart contents and empty the cart. Guests
+ *          give contact details and an inline address instead of addressId
+ *          and get back an orderAccessToken.
+ * @access  Public (Customer or guest)
+ * @body    {
+ *   "addressId": number (optional, customers only),
+ *   "guest": { "email": string, "phone": string, "name": string } (guests, email or phone required),
+ *   "address": {
+ *     "label": string (optional),
+ *     "street": string,
+ *     "city": string,
+ *     "county": string,
+ *     "postalCode": string,
+ *     "country": string,
+ *     "phone": string (optional)
+ *   } (optional, guests only),
+ *   "paymentMethod": "CARD" | "MPESAEXPRESS" | "PAYBILL" | "PAYPAL" | "COD" | "OTHER",
+ *   "totalAmount": number (optional, rejected with 409 if stale),
+ *   "notes": string (optional)
+ * }
+ */
+router.post("/checkout", idempotency, customerCartController.checkout);
+
+export default router;
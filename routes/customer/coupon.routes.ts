@@ -0,0 +1,26 @@
+import { Router } from "express";
+import customerCouponController from "../../controllers/customer/coupon.controller";
+import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+
+const router = Router();
+
+// Coupon eligibility depends on the customer's order history
+router.use(verifyCustomerJWT);
+
+/**
+ * @route   POST /customer/coupons/validate
+ * @desc    Preview a coupon's savings for the given cart items
+ * @access  Private (Customer)
+ * @body    {
+ *   "code": string,
+ *   "items": [
+ *     {
+ *       "variantId": number,
+ *       "quantity": number
+ *     }
+ *   ]
+ * }
+ */
+router.post("/validate", customerCouponController.validateCoupon);
+
+export default router;
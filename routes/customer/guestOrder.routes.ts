@@ -0,0 +1,22 @@
+import { Router } from "express";
+import guestOrderController from "../../controllers/customer/guestOrder.controller";
+
+const router = Router();
+
+/**
+ * @route   GET /customer/guest-orders/:token
+ * @desc    Get an order placed by guest checkout
+ * @access  Public (signed order access token)
+ * @params  token - orderAccessToken returned by guest checkout
+ */
+router.get("/:token", guestOrderController.getOrder);
+
+/**
+ * @route   GET /customer/guest-orders/:token/track
+ * @desc    Track an order placed by guest checkout
+ * @access  Public (signed order access token)
+ * @params  token - orderAccessToken returned by guest checkout
+ */
+router.get("/:token/track", guestOrderController.trackOrder);
+
+export default router;
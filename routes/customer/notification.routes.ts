@@ -0,0 +1,32 @@
+import { Router } from "express";
+import customerNotificationController from "../../controllers/customer/notification.controller";
+import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+
+const router = Router();
+
+router.use(verifyCustomerJWT);
+
+/**
+ * @route   GET /customer/notifications
+ * @desc    Get notifications (e.g. wishlist alerts), newest first
+ * @access  Private (Customer)
+ * @query   page, limit, unread (true for unread only)
+ */
+router.get("/", customerNotificationController.getNotifications);
+
+/**
+ * @route   PATCH /customer/notifications/read
+ * @desc    Mark all notifications as read
+ * @access  Private (Customer)
+ */
+router.patch("/read", customerNotificationController.markAllRead);
+
+/**
+ * @route   PATCH /customer/notifications/:id/read
+ * @desc    Mark a notification as read
+ * @access  Private (Customer)
+ * @params  id - Notification ID
+ */
+router.patch("/:id/read", customerNotificationController.markRead);
+
+export default router;
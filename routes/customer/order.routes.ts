@@ -1,7 +1,10 @@
 import { Router } from "express";
 import customerOrderController from "../../controllers/customer/order.controller";
-// import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+import customerPaymentController from "../../controllers/customer/payment.controller";
+import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+import optionalCustomerJWT from "../../middleware/optionalCustomerJWT";
 import rateLimit from "express-rate-limit";
+import idempotency from "../../middleware/idempotency";
 
 const router = Router();
 
@@ -17,8 +20,50 @@ const orderRateLimit = rateLimit({
     legacyHeaders: false,
 });
 
-// Apply customer authentication middleware to all routes
-// router.use(verifyCustomerJWT);
+// Order number lookups are public, so limit guessing of order numbers
+// and contact details
+const trackRateLimit = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 30, // Limit each IP to 30 lookups per windowMs
+    message: {
+        success: false,
+        message: "Too many tracking requests, please try again later",
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+/**
+ * @route   GET /customer/orders/track/:orderNumber
+ * @desc    Get order details by order number
+ * @access  Public (own orders when signed in, otherwise email or phone)
+ * @params  orderNumber - Order number (e.g., ORD-20240101-000001)
+ * @query   email or phone - Contact the order was placed with
+ */
+router.get(
+    "/track/:orderNumber",
+    trackRateLimit,
+    optionalCustomerJWT,
+    customerOrderController.getOrderByNumber
+);
+
+/**
+ * @route   GET /customer/orders/track/:orderNumber/timeline
+ * @desc    Track order with detailed timeline
+ * @access  Public (own orders when signed in, otherwise email or phone)
+ * @params  orderNumber - Order number
+ * @query   email or phone - Contact the order was placed with
+ */
+router.get(
+    "/track/:orderNumber/timeline",
+    trackRateLimit,
+    optionalCustomerJWT,
+    customerOrderController.trackOrder
+);
+
+// Every other order route needs a signed-in customer and only reaches
+// that customer's own orders
+router.use(verifyCustomerJWT);
 
 /**
  * @route   POST /customer/orders
@@ -28,19 +73,19 @@ const orderRateLimit = rateLimit({
  *   "addressId": number (optional),
  *   "items": [
  *     {
- *       "productId": number,
+ *       "variantId": number,
  *       "quantity": number,
- *       "price": number
+ *       "price": number (optional, rejected with 409 if stale)
  *     }
  *   ],
  *   "paymentMethod": "CARD" | "MPESAEXPRESS" | "PAYBILL" | "PAYPAL" | "COD" | "OTHER",
- *   "totalAmount": number,
+ *   "totalAmount": number (optional, rejected with 409 if stale),
  *   "notes": string (optional),
  *   "storeId": number (optional),
  *   "couponCodes": string[] (optional)
  * }
  */
-router.post("/", customerOrderController.placeOrder);
+router.post("/", idempotency, customerOrderController.placeOrder);
 
 /**
  * @route   GET /customer/orders
@@ -66,27 +111,61 @@ router.get("/stats", customerOrderController.getOrderStats);
 router.get("/:id", customerOrderController.getOrderDetails);
 
 /**
- * @route   GET /customer/orders/track/:orderNumber
- * @desc    Get order details by order number
+ * @route   POST /customer/orders/:id/cancel
+ * @desc    Cancel an order
  * @access  Private (Customer)
- * @params  orderNumber - Order number (e.g., ORD-20240101-000001)
+ * @params  id - Order ID
+ * @body    {
+ *   "reason": string
+ * }
  */
-router.get("/track/:orderNumber", customerOrderController.getOrderByNumber);
+router.post(
+    "/:id/cancel",
+    orderRateLimit,
+    idempotency,
+    customerOrderController.cancelOrder
+);
 
 /**
- * @route   POST /customer/orders/:id/cancel
- * @desc    Cancel an order
+ * @route   POST /customer/orders/:id/pay
+ * @desc    Start a card or PayPal payment for the order balance
+ * @access  Private (Customer)
+ * @params  id - Order ID
+ */
+router.post(
+    "/:id/pay",
+    orderRateLimit,
+    idempotency,
+    customerPaymentController.payWithGateway
+);
+
+/**
+ * @route   POST /customer/orders/:id/pay/mpesa
+ * @desc    Send an M-Pesa Express (STK push) prompt for the order balance
  * @access  Private (Customer)
  * @params  id - Order ID
  * @body    {
- *   "reason": string
+ *   "phone": string (e.g. 0712345678)
  * }
  */
-router.post("/:id/cancel", orderRateLimit, customerOrderController.cancelOrder);
+router.post(
+    "/:id/pay/mpesa",
+    orderRateLimit,
+    idempotency,
+    customerPaymentController.payWithMpesa
+);
+
+/**
+ * @route   GET /customer/orders/:id/returns
+ * @desc    Get return requests for an order
+ * @access  Private (Customer)
+ * @params  id - Order ID
+ */
+router.get("/:id/returns", customerOrderController.getOrderReturns);
 
 /**
  * @route   POST /customer/orders/:id/return
- * @desc    Request order return
+ * @desc    Request a return for some or all items of a delivered order
  * @access  Private (Customer)
  * @params  id - Order ID
  * @body    {
@@ -103,15 +182,8 @@ router.post("/:id/cancel", orderRateLimit, customerOrderController.cancelOrder);
 router.post(
     "/:id/return",
     orderRateLimit,
+    idempotency,
     customerOrderController.requestReturn
 );
 
-/**
- * @route   GET /customer/orders/track/:orderNumber/timeline
- * @desc    Track order with detailed timeline
- * @access  Private (Customer)
- * @params  orderNumber - Order number
- */
-router.get("/track/:orderNumber/timeline", customerOrderController.trackOrder);
-
 export default router;
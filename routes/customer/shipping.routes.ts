@@ -0,0 +1,23 @@
+import { Router } from "express";
+import customerShippingController from "../../controllers/customer/shipping.controller";
+
+const router = Router();
+
+/**
+ * @route   POST /customer/shipping/quote
+ * @desc    Quote the shipping charge for cart items to a destination
+ * @access  Public
+ * @body    {
+ *   "county": string,
+ *   "city": string (optional),
+ *   "items": [
+ *     {
+ *       "variantId": number,
+ *       "quantity": number
+ *     }
+ *   ]
+ * }
+ */
+router.post("/quote", customerShippingController.getQuote);
+
+export default router;
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import customerWishlistController from "../../controllers/customer/wishlist.controller";
+import verifyCustomerJWT from "../../middleware/verifyCustomerJWT";
+
+const router = Router();
+
+router.use(verifyCustomerJWT);
+
+/**
+ * @route   GET /customer/wishlist
+ * @desc    Get saved variants with current price and availability
+ * @access  Private (Customer)
+ */
+router.get("/", customerWishlistController.getWishlist);
+
+/**
+ * @route   POST /customer/wishlist
+ * @desc    Save a variant (e.g. a specific size) to the wishlist
+ * @access  Private (Customer)
+ * @body    {
+ *   "variantId": number,
+ *   "notifyBackInStock": boolean (optional, default true),
+ *   "notifyPriceDrop": boolean (optional, default true)
+ * }
+ */
+router.post("/", customerWishlistController.addItem);
+
+/**
+ * @route   PATCH /customer/wishlist/:variantId
+ * @desc    Change the alerts of a wishlist item
+ * @access  Private (Customer)
+ * @params  variantId - Product variant ID
+ * @body    {
+ *   "notifyBackInStock": boolean (optional),
+ *   "notifyPriceDrop": boolean (optional)
+ * }
+ */
+router.patch("/:variantId", customerWishlistController.updateItem);
+
+/**
+ * @route   DELETE /customer/wishlist/:variantId
+ * @desc    Remove a variant from the wishlist
+ * @access  Private (Customer)
+ * @params  variantId - Product variant ID
+ */
+router.delete("/:variantId", customerWishlistController.removeItem);
+
+export default router;
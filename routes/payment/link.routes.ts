@@ -0,0 +1,57 @@
+import { Router } from "express";
+import rateLimit from "express-rate-limit";
+import paymentLinkController from "../../controllers/payment/link.controller";
+import idempotency from "../../middleware/idempotency";
+
+const router = Router();
+
+// Links are public, so limit how often payments can be started from them
+const paymentLinkRateLimit = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // Limit each IP to 10 requests per windowMs
+    message: {
+        success: false,
+        message: "Too many payment requests, please try again later",
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
+/**
+ * @route   GET /payments/link/:token
+ * @desc    Get the order a "complete payment" link was issued for
+ * @access  Public (signed link token)
+ * @params  token - Token from the reminder email link
+ */
+router.get("/:token", paymentLinkController.getOrder);
+
+/**
+ * @route   POST /payments/link/:token/mpesa
+ * @desc    Send an M-Pesa Express prompt for the linked order
+ * @access  Public (signed link token)
+ * @params  token - Token from the reminder email link
+ * @body    {
+ *   "phone": string (e.g. 0712345678)
+ * }
+ */
+router.post(
+    "/:token/mpesa",
+    paymentLinkRateLimit,
+    idempotency,
+    paymentLinkController.payWithMpesa
+);
+
+/**
+ * @route   POST /payments/link/:token/pay
+ * @desc    Start a card or PayPal payment for the linked order
+ * @access  Public (signed link token)
+ * @params  token - Token from the reminder email link
+ */
+router.post(
+    "/:token/pay",
+    paymentLinkRateLimit,
+    idempotency,
+    paymentLinkController.payWithGateway
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import mpesaController from "../../controllers/payment/mpesa.controller";
+
+const router = Router();
+
+/**
+ * @route   POST /payments/mpesa/callback
+ * @desc    STK push result callback from Safaricom
+ * @access  Public (checked against MPESA_CALLBACK_TOKEN when set)
+ * @query   token
+ */
+router.post("/callback", mpesaController.callback);
+
+/**
+ * @route   POST /payments/mpesa/simulate
+ * @desc    Simulate an STK push result when MPESA_PROVIDER=fake
+ * @access  Public (fake provider only)
+ * @body    {
+ *   "checkoutRequestId": string,
+ *   "success": boolean (optional, default true)
+ * }
+ */
+router.post("/simulate", mpesaController.simulateCallback);
+
+export default router;
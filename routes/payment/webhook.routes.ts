@@ -0,0 +1,14 @@
+import { Router } from "express";
+import webhookController from "../../controllers/payment/webhook.controller";
+
+const router = Router();
+
+/**
+ * @route   POST /payments/webhooks/:provider
+ * @desc    Signed payment events from a gateway (stripe, paypal)
+ * @access  Public (signature verified per provider)
+ * @params  provider - Gateway name
+ */
+router.post("/:provider", webhookController.handleWebhook);
+
+export default router;
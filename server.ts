@@ -2,6 +2,11 @@ import dotenv from "dotenv";
 dotenv.config();
 import app from "./app";
 import { prisma } from "./utils/prisma";
+import PermissionService from "./services/user/permission.service";
+import { startReservationSweeper } from "./jobs/reservationSweeper.job";
+import { startIdempotencyCleanup } from "./jobs/idempotencyCleanup.job";
+import { startPaymentReminders } from "./jobs/paymentReminder.job";
+import { startEmailQueue } from "./jobs/emailQueue.job";
 
 const PORT = process.env.PORT || 3500;
 
@@ -10,9 +15,25 @@ const startServer = async () => {
         await prisma.$connect();
         console.log("✅ Connected to PostgreSQL");
         console.log(process.env.NODE_ENV);
+
+        // Make every registered permission assignable to roles
+        const { created, stale } = await PermissionService.syncRegistry();
+        console.log(`🔐 Permissions synced (${created} new)`);
+        if (stale.length) {
+            console.warn(
+                `⚠️ Permissions not in the registry: ${stale.join(", ")}`
+            );
+        }
+
         app.listen(PORT, () =>
             console.log(`🚀 Server running on port ${PORT}`)
         );
+
+        // Background jobs
+        startReservationSweeper();
+        startIdempotencyCleanup();
+        startPaymentReminders();
+        startEmailQueue();
     } catch (error) {
         console.error("❌ Database connection failed:", error);
         process.exit(1); // Exit process if DB connection fails
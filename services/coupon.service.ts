@@ -6,12 +6,15 @@ const CouponService = {
         return prisma.coupon.create({ data });
     },
     findById: async (id: number) => {
-        return prisma.coupon.findUnique({ where: { id } });
+        return prisma.coupon.findUnique({
+            where: { id },
+            include: { conditions: true },
+        });
     },
     findAll: async () => {
         return prisma.coupon.findMany({
             where: { deletedAt: null },
-            include: { usages: true },
+            include: { usages: true, conditions: true },
         });
     },
     update: async (id: number, data: Prisma.CouponUpdateInput) => {
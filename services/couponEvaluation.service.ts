@@ -0,0 +1,307 @@
+import { prisma } from "../utils/prisma";
+import {
+    Coupon,
+    CouponCondition,
+    Prisma,
+    PrismaClient,
+} from "../generated/prisma/client";
+import { PricedLine, roundMoney } from "./order/pricing.service";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export interface AppliedCoupon {
+    couponId: number;
+    code: string;
+    type: Coupon["type"];
+    discount: number;
+    freeShipping: boolean;
+    qualifyingVariantIds: number[];
+}
+
+export interface CouponEvaluation {
+    lines: PricedLine[]; // Copies of the input lines with discounts applied
+    coupons: AppliedCoupon[];
+    discountTotal: number;
+    freeShipping: boolean;
+}
+
+type CouponWithConditions = Coupon & { conditions: CouponCondition[] };
+
+interface LineProductInfo {
+    productId: number;
+    categoryId: number | null;
+    brandId: number | null;
+    tagIds: number[];
+    tagNames: string[];
+}
+
+const couponError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+/**
+ * Check whether a line's product satisfies a single coupon condition.
+ * Condition values hold the referenced ID; TAG conditions also accept a tag name.
+ */
+const matchesCondition = (
+    condition: CouponCondition,
+    info: LineProductInfo
+): boolean => {
+    const value = condition.value?.trim();
+    if (!value) return false;
+
+    switch (condition.type) {
+        case "PRODUCT":
+            return String(info.productId) === value;
+        case "CATEGORY":
+            return info.categoryId != null && String(info.categoryId) === value;
+        case "BRAND":
+            return info.brandId != null && String(info.brandId) === value;
+        case "TAG":
+            return (
+                info.tagIds.some((id) => String(id) === value) ||
+                info.tagNames.some(
+                    (name) => name.toLowerCase() === value.toLowerCase()
+                )
+            );
+        default:
+            return false;
+    }
+};
+
+/**
+ * Count how many live (not cancelled or deleted) orders already use a
+ * coupon
+ */
+const countUsage = async (
+    db: Db,
+    couponId: number,
+    customerId?: number
+): Promise<number> => {
+    return db.orderCoupon.count({
+        where: {
+            couponId,
+            order: {
+                status: { not: "CANCELLED" },
+                deletedAt: null,
+                ...(customerId && { customerId }),
+            },
+        },
+    });
+};
+
+/**
+ * Lock a coupon until the caller's transaction ends, so concurrent orders
+ * using it are counted one after the other
+ */
+const lockCoupon = async (db: Db, couponId: number) => {
+    await db.$queryRaw`
+        SELECT "id" FROM "Coupon" WHERE "id" = ${couponId} FOR UPDATE
+    `;
+};
+
+const CouponEvaluationService = {
+    /**
+     * Validate that a coupon may be used by the customer for the given lines.
+     * Throws a 400 error describing the first failed rule.
+     */
+    assertEligible: async (
+        coupon: CouponWithConditions,
+        customerId: number,
+        lines: PricedLine[],
+        db: Db = prisma
+    ): Promise<void> => {
+        if (
+            coupon.deletedAt ||
+            coupon.status !== "ACTIVE" ||
+            coupon.isExpired
+        ) {
+            throw couponError(`Coupon ${coupon.code} is not active`);
+        }
+
+        const subtotal = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+        if (coupon.minSpend != null && subtotal < coupon.minSpend) {
+            throw couponError(
+                `Coupon ${coupon.code} requires a minimum spend of ${coupon.minSpend}`
+            );
+        }
+
+        if (coupon.usageLimit != null) {
+            const used = await countUsage(db, coupon.id);
+            if (used >= coupon.usageLimit) {
+                throw couponError(
+                    `Coupon ${coupon.code} has reached its usage limit`
+                );
+            }
+        }
+
+        if (coupon.usagePerCustomer != null) {
+            const used = await countUsage(db, coupon.id, customerId);
+            if (used >= coupon.usagePerCustomer) {
+                throw couponError(
+                    `You have already used coupon ${coupon.code} the maximum number of times`
+                );
+            }
+        }
+
+        if (coupon.isFirstOrder) {
+            const previousOrders = await db.order.count({
+                where: {
+                    customerId,
+                    status: { not: "CANCELLED" },
+                    deletedAt: null,
+                },
+            });
+            if (previousOrders > 0) {
+                throw couponError(
+                    `Coupon ${coupon.code} is only valid on your first order`
+                );
+            }
+        }
+    },
+
+    /**
+     * Return the variant IDs of the lines a coupon applies to.
+     * Coupons with applyAllProducts, or without conditions, apply to every line.
+     */
+    findQualifyingVariantIds: async (
+        coupon: CouponWithConditions,
+        lines: PricedLine[],
+        db: Db = prisma
+    ): Promise<number[]> => {
+        if (coupon.applyAllProducts || coupon.conditions.length === 0) {
+            return lines.map((line) => line.variantId);
+        }
+
+        const products = await db.product.findMany({
+            where: { id: { in: lines.map((line) => line.productId) } },
+            select: {
+                id: true,
+                categoryId: true,
+                brandId: true,
+                tags: { select: { id: true, name: true } },
+            },
+        });
+        const productMap = new Map(products.map((p) => [p.id, p]));
+
+        return lines
+            .filter((line) => {
+                const product = productMap.get(line.productId);
+                if (!product) return false;
+                const info: LineProductInfo = {
+                    productId: product.id,
+                    categoryId: product.categoryId,
+                    brandId: product.brandId,
+                    tagIds: product.tags.map((t) => t.id),
+                    tagNames: product.tags.map((t) => t.name),
+                };
+                return coupon.conditions.some((condition) =>
+                    matchesCondition(condition, info)
+                );
+            })
+            .map((line) => line.variantId);
+    },
+
+    /**
+     * Evaluate coupon codes against priced lines. Coupons are applied in the
+     * order given, each against what is left of the qualifying lines, and
+     * line discounts are spread proportionally to line totals. Placing an
+     * order passes lock, so each coupon stays locked in its transaction
+     * from the usage count until the order is saved.
+     */
+    evaluate: async (
+        codes: string[],
+        customerId: number,
+        lines: PricedLine[],
+        db: Db = prisma,
+        options: { lock?: boolean } = {}
+    ): Promise<CouponEvaluation> => {
+        const workingLines = lines.map((line) => ({ ...line }));
+        const applied: AppliedCoupon[] = [];
+        const uniqueCodes = [...new Set(codes.map((code) => code.trim()))];
+
+        for (const code of uniqueCodes) {
+            const coupon = await db.coupon.findUnique({
+                where: { code },
+                include: { conditions: true },
+            });
+            if (!coupon) {
+                throw couponError(`Coupon ${code} not found`, 404);
+            }
+            if (options.lock) await lockCoupon(db, coupon.id);
+
+            await CouponEvaluationService.assertEligible(
+                coupon,
+                customerId,
+                workingLines,
+                db
+            );
+
+            const qualifyingIds =
+                await CouponEvaluationService.findQualifyingVariantIds(
+                    coupon,
+                    workingLines,
+                    db
+                );
+            if (qualifyingIds.length === 0) {
+                throw couponError(
+                    `Coupon ${coupon.code} does not apply to any item in your order`
+                );
+            }
+
+            const qualifying = workingLines.filter((line) =>
+                qualifyingIds.includes(line.variantId)
+            );
+            const remaining = qualifying.reduce(
+                (sum, line) => sum + (line.lineTotal - line.discount),
+                0
+            );
+
+            let discount = 0;
+            if (coupon.type === "PERCENTAGE") {
+                discount = (remaining * Math.min(coupon.amount, 100)) / 100;
+            } else if (coupon.type === "FIXED") {
+                discount = Math.min(coupon.amount, remaining);
+            }
+            discount = roundMoney(Math.max(discount, 0));
+
+            // Spread the discount over qualifying lines, last line takes
+            // the rounding remainder
+            let allocated = 0;
+            qualifying.forEach((line, index) => {
+                const available = line.lineTotal - line.discount;
+                const share =
+                    index === qualifying.length - 1
+                        ? roundMoney(discount - allocated)
+                        : remaining > 0
+                        ? roundMoney((discount * available) / remaining)
+                        : 0;
+                const lineDiscount = Math.min(share, available);
+                line.discount = roundMoney(line.discount + lineDiscount);
+                allocated = roundMoney(allocated + lineDiscount);
+            });
+
+            applied.push({
+                couponId: coupon.id,
+                code: coupon.code,
+                type: coupon.type,
+                discount: allocated,
+                freeShipping: coupon.type === "FREESHIPPING",
+                qualifyingVariantIds: qualifyingIds,
+            });
+        }
+
+        return {
+            lines: workingLines,
+            coupons: applied,
+            discountTotal: roundMoney(
+                applied.reduce((sum, c) => sum + c.discount, 0)
+            ),
+            freeShipping: applied.some((c) => c.freeShipping),
+        };
+    },
+};
+
+export default CouponEvaluationService;
@@ -0,0 +1,187 @@
+import { prisma } from "../../utils/prisma";
+import { Address, Prisma } from "../../generated/prisma/client";
+
+export interface AddressInput {
+    label: string;
+    street: string;
+    city: string;
+    county: string;
+    postalCode: string;
+    country: string;
+    phone?: string;
+    isDefault?: boolean;
+}
+
+// Copy of an address stored on an order, so editing or deleting the
+// address later does not change where the order was shipped
+export type AddressSnapshot = {
+    label: string;
+    street: string;
+    city: string;
+    county: string;
+    postalCode: string;
+    country: string;
+    phone: string | null;
+};
+
+const addressError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+export const toAddressSnapshot = (address: Address): AddressSnapshot => ({
+    label: address.label,
+    street: address.street,
+    city: address.city,
+    county: address.county,
+    postalCode: address.postalCode,
+    country: address.country,
+    phone: address.phone,
+});
+
+/**
+ * Lock the customer's row so concurrent changes to their address book
+ * cannot leave them with no default address, or with two
+ */
+const lockAddressBook = async (
+    tx: Prisma.TransactionClient,
+    customerId: number
+) => {
+    await tx.$queryRaw`
+        SELECT "id" FROM "Customer" WHERE "id" = ${customerId} FOR UPDATE
+    `;
+};
+
+const findOwnedAddress = async (
+    tx: Prisma.TransactionClient,
+    customerId: number,
+    id: number
+) => {
+    const address = await tx.address.findFirst({
+        where: { id, customerId },
+    });
+    if (!address) {
+        throw addressError(`Address with ID ${id} not found`, 404);
+    }
+    return address;
+};
+
+const AddressService = {
+    /**
+     * Get a customer's addresses, default first
+     */
+    getAddresses: async (customerId: number) => {
+        return prisma.address.findMany({
+            where: { customerId },
+            orderBy: [{ isDefault: "desc" }, { updatedAt: "desc" }],
+        });
+    },
+
+    /**
+     * Get one of the customer's addresses
+     */
+    getAddress: async (customerId: number, id: number) => {
+        const address = await prisma.address.findFirst({
+            where: { id, customerId },
+        });
+        if (!address) {
+            throw addressError(`Address with ID ${id} not found`, 404);
+        }
+        return address;
+    },
+
+    /**
+     * Add an address. The customer's first address is always the default;
+     * making a new address the default unsets the previous one.
+     */
+    createAddress: async (customerId: number, data: AddressInput) => {
+        return prisma.$transaction(async (tx) => {
+            await lockAddressBook(tx, customerId);
+
+            const existing = await tx.address.count({
+                where: { customerId },
+            });
+            const isDefault = existing === 0 || data.isDefault === true;
+
+            if (isDefault) {
+                await tx.address.updateMany({
+                    where: { customerId, isDefault: true },
+                    data: { isDefault: false },
+                });
+            }
+
+            return tx.address.create({
+                data: { ...data, customerId, isDefault },
+            });
+        });
+    },
+
+    /**
+     * Edit an address. Orders already placed keep their own copy.
+     */
+    updateAddress: async (
+        customerId: number,
+        id: number,
+        data: Partial<AddressInput>
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await lockAddressBook(tx, customerId);
+            const address = await findOwnedAddress(tx, customerId, id);
+
+            if (data.isDefault === false && address.isDefault) {
+                throw addressError(
+                    "Set another address as the default instead"
+                );
+            }
+            if (data.isDefault === true && !address.isDefault) {
+                await tx.address.updateMany({
+                    where: { customerId, isDefault: true },
+                    data: { isDefault: false },
+                });
+            }
+
+            return tx.address.update({
+                where: { id },
+                data,
+            });
+        });
+    },
+
+    /**
+     * Make an address the customer's default
+     */
+    setDefault: async (customerId: number, id: number) => {
+        return AddressService.updateAddress(customerId, id, {
+            isDefault: true,
+        });
+    },
+
+    /**
+     * Delete an address. Deleting the default makes the most recently
+     * updated remaining address the default.
+     */
+    deleteAddress: async (customerId: number, id: number) => {
+        await prisma.$transaction(async (tx) => {
+            await lockAddressBook(tx, customerId);
+            const address = await findOwnedAddress(tx, customerId, id);
+
+            await tx.address.delete({ where: { id } });
+
+            if (address.isDefault) {
+                const next = await tx.address.findFirst({
+                    where: { customerId },
+                    orderBy: { updatedAt: "desc" },
+                });
+                if (next) {
+                    await tx.address.update({
+                        where: { id: next.id },
+                        data: { isDefault: true },
+                    });
+                }
+            }
+        });
+    },
+};
+
+export default AddressService;
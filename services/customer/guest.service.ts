@@ -0,0 +1,218 @@
+import jwt from "jsonwebtoken";
+import { prisma } from "../../utils/prisma";
+import { Customer } from "../../generated/prisma/client";
+import OrderService from "../order/order.service";
+import emailController from "../../controllers/users/email.controller";
+
+// Guests are passwordless customers created at checkout
+export const GUEST_PROVIDER_TYPE = "guest";
+
+const ORDER_ACCESS_PURPOSE = "order-access";
+const ACCOUNT_CLAIM_PURPOSE = "account-claim";
+
+interface OrderAccessPayload {
+    purpose: typeof ORDER_ACCESS_PURPOSE;
+    orderId: number;
+    customerId: number;
+}
+
+interface AccountClaimPayload {
+    purpose: typeof ACCOUNT_CLAIM_PURPOSE;
+    customerId: number;
+    email: string;
+}
+
+export interface GuestDetails {
+    email?: string;
+    phone?: string;
+    name?: string;
+}
+
+const guestError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+// How long an order access token stays valid
+const ORDER_ACCESS_TTL_DAYS = parseInt(
+    process.env.ORDER_ACCESS_TTL_DAYS || "30",
+    10
+);
+
+// How long the link to confirm a guest's email stays valid
+const ACCOUNT_CLAIM_TTL_HOURS = parseInt(
+    process.env.ACCOUNT_CLAIM_TTL_HOURS || "24",
+    10
+);
+
+const accessSecret = () =>
+    (process.env.ORDER_ACCESS_SECRET ||
+        process.env.ACCESS_TOKEN_SECRET) as string;
+
+const isGuest = (customer: Pick<Customer, "providerType" | "password">) =>
+    customer.providerType === GUEST_PROVIDER_TYPE && !customer.password;
+
+const GuestService = {
+    isGuest,
+
+    /**
+     * Find the guest customer for an email or phone, or create one.
+     * Emails and phones that belong to a registered account are rejected
+     * so a guest cannot order on someone else's account. An existing
+     * guest is returned unchanged: anyone can check out with a known
+     * email, so the name given is kept on the order instead.
+     */
+    findOrCreateGuest: async (details: GuestDetails): Promise<Customer> => {
+        if (!details.email && !details.phone) {
+            throw guestError("An email or phone number is required");
+        }
+
+        const byEmail = details.email
+            ? await prisma.customer.findUnique({
+                  where: { email: details.email },
+              })
+            : null;
+        const byPhone =
+            !byEmail && details.phone
+                ? await prisma.customer.findUnique({
+                      where: { phone: details.phone },
+                  })
+                : null;
+        const existing = byEmail || byPhone;
+
+        if (!existing) {
+            return prisma.customer.create({
+                data: {
+                    email: details.email,
+                    phone: details.phone,
+                    name: details.name,
+                    providerType: GUEST_PROVIDER_TYPE,
+                },
+            });
+        }
+
+        if (!isGuest(existing)) {
+            throw guestError(
+                "An account already exists for these details. Please sign in to check out.",
+                409
+            );
+        }
+
+        return existing;
+    },
+
+    /**
+     * Email a guest a link to finish registering. Nothing changes until
+     * the link is used, so registering with someone else's email does not
+     * reach their orders or addresses.
+     */
+    requestClaim: async (guest: Customer) => {
+        const payload: AccountClaimPayload = {
+            purpose: ACCOUNT_CLAIM_PURPOSE,
+            customerId: guest.id,
+            email: guest.email!,
+        };
+        const token = jwt.sign(payload, accessSecret(), {
+            expiresIn: `${ACCOUNT_CLAIM_TTL_HOURS}h`,
+        });
+        const url =
+            process.env.ACCOUNT_CLAIM_URL ||
+            `${process.env.CLIENT_URL}/account/confirm`;
+
+        await emailController.confirmAccount({
+            name: guest.name || undefined,
+            email: guest.email!,
+            link: `${url}?token=${token}`,
+        });
+    },
+
+    /**
+     * Turn a guest into a registered customer with the token from their
+     * confirmation email. The customer keeps the same ID, so every order
+     * placed as a guest now shows in their account.
+     */
+    claimGuest: async (
+        token: string,
+        data: { password: string; name: string; phone?: string }
+    ) => {
+        let payload: AccountClaimPayload;
+        try {
+            payload = jwt.verify(token, accessSecret()) as AccountClaimPayload;
+        } catch (err) {
+            throw guestError("This link is invalid or expired", 403);
+        }
+        if (payload.purpose !== ACCOUNT_CLAIM_PURPOSE) {
+            throw guestError("This link is invalid or expired", 403);
+        }
+
+        const guest = await prisma.customer.findUnique({
+            where: { id: payload.customerId },
+        });
+        if (!guest || guest.email !== payload.email) {
+            throw guestError("This link is invalid or expired", 403);
+        }
+        if (!isGuest(guest)) {
+            throw guestError("This account has already been set up", 409);
+        }
+
+        // Only while still a guest, so a link used twice at once cannot
+        // set the password twice
+        const { count } = await prisma.customer.updateMany({
+            where: {
+                id: guest.id,
+                providerType: GUEST_PROVIDER_TYPE,
+                password: null,
+            },
+            data: {
+                password: data.password,
+                name: data.name,
+                ...(data.phone && { phone: data.phone }),
+                providerType: "email",
+                emailVerified: true, // Proven by the emailed link
+            },
+        });
+        if (count === 0) {
+            throw guestError("This account has already been set up", 409);
+        }
+        return prisma.customer.findUniqueOrThrow({ where: { id: guest.id } });
+    },
+
+    /**
+     * Sign a token that lets whoever holds it view and track one order
+     * without signing in
+     */
+    createOrderAccessToken: (order: { id: number; customerId: number }) => {
+        const payload: OrderAccessPayload = {
+            purpose: ORDER_ACCESS_PURPOSE,
+            orderId: order.id,
+            customerId: order.customerId,
+        };
+        return jwt.sign(payload, accessSecret(), {
+            expiresIn: `${ORDER_ACCESS_TTL_DAYS}d`,
+        });
+    },
+
+    /**
+     * Get the order an access token was issued for
+     */
+    getAccessibleOrder: async (token: string) => {
+        let payload: OrderAccessPayload;
+        try {
+            payload = jwt.verify(token, accessSecret()) as OrderAccessPayload;
+        } catch (err) {
+            throw guestError("This order link is invalid or expired", 403);
+        }
+        if (payload.purpose !== ORDER_ACCESS_PURPOSE) {
+            throw guestError("This order link is invalid or expired", 403);
+        }
+
+        const order = await OrderService.getOrderById(payload.orderId);
+        if (!order || order.customerId !== payload.customerId) {
+            throw guestError("Order not found", 404);
+        }
+        return order;
+    },
+};
+
+export default GuestService;
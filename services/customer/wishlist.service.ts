@@ -0,0 +1,260 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma } from "../../generated/prisma/client";
+import paymentConfig from "../../config/payment.config";
+import EmailTemplate from "../../controllers/users/emailTemplate";
+import PricingService from "../order/pricing.service";
+import EmailQueueService from "../notification/emailQueue.service";
+
+export interface WishlistPreferences {
+    notifyBackInStock?: boolean;
+    notifyPriceDrop?: boolean;
+}
+
+type PricedVariant = {
+    id: number;
+    price: number;
+    salePrice: number | null;
+    wholesalePrice: number | null;
+    wholesaleQty: number | null;
+};
+
+const wishlistError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const wishlistInclude = {
+    variant: {
+        select: {
+            id: true,
+            name: true,
+            sku: true,
+            price: true,
+            salePrice: true,
+            wholesalePrice: true,
+            wholesaleQty: true,
+            product: { select: { id: true, name: true } },
+            stock: { select: { quantity: true, reserved: true } },
+        },
+    },
+} satisfies Prisma.WishlistItemInclude;
+
+// Price a single unit sells at, after any sale price
+const unitPrice = (variant: PricedVariant) =>
+    PricingService.resolveUnitPrice(variant, 1).unitPrice;
+
+const formatPrice = (amount: number) =>
+    `${paymentConfig.currency} ${amount.toFixed(2)}`;
+
+/**
+ * Create a Notification for every customer watching a variant (filtered
+ * by their alert preference) and queue an email for those with an address
+ */
+const alertWatchers = async (
+    tx: Prisma.TransactionClient,
+    variantId: number,
+    preference: "notifyBackInStock" | "notifyPriceDrop",
+    alert: (variantName: string) => { subject: string; message: string }
+): Promise<number> => {
+    const watchers = await tx.wishlistItem.findMany({
+        where: { variantId, [preference]: true },
+        include: {
+            customer: { select: { id: true, name: true, email: true } },
+            variant: {
+                select: {
+                    name: true,
+                    product: { select: { id: true, name: true } },
+                },
+            },
+        },
+    });
+    if (watchers.length === 0) return 0;
+
+    const { variant } = watchers[0];
+    const { subject, message } = alert(
+        `${variant.product.name} (${variant.name})`
+    );
+    const link =
+        `${process.env.CLIENT_URL}/products/${variant.product.id}` +
+        `?variant=${variantId}`;
+
+    await tx.notification.createMany({
+        data: watchers.map((watcher) => ({
+            customerId: watcher.customerId,
+            message,
+        })),
+    });
+
+    for (const { customer } of watchers) {
+        if (!customer.email) continue;
+
+        await EmailQueueService.enqueue(
+            {
+                to: customer.email,
+                subject,
+                html: EmailTemplate(`
+           <tr>
+               <td style="text-align:center;padding: 30px 30px 20px">
+                  <h2 style="font-size: 18px; color: #6576ff; font-weight: 600; margin: 0;">${subject}</h2>
+                  <p style="margin-bottom: 10px;">Hi ${customer.name || "there"},</p>
+                  <p style="margin-bottom: 25px;">${message}</p>
+                  <a href="${link}" style="background-color:#6576ff;border-radius:4px;color:#ffffff;display:inline-block;font-size:13px;font-weight:600;line-height:44px;text-align:center;text-decoration:none;text-transform: uppercase; padding: 0 25px">View Product</a>
+               </td>
+            </tr>
+        `),
+            },
+            tx
+        );
+    }
+
+    return watchers.length;
+};
+
+const WishlistService = {
+    /**
+     * Get a customer's wishlist with current prices and availability
+     */
+    getWishlist: async (customerId: number) => {
+        const items = await prisma.wishlistItem.findMany({
+            where: { customerId },
+            include: wishlistInclude,
+            orderBy: { createdAt: "desc" },
+        });
+
+        return items.map(({ variant: { stock, ...variant }, ...item }) => {
+            const available = stock.reduce(
+                (sum, entry) =>
+                    sum + Math.max(entry.quantity - entry.reserved, 0),
+                0
+            );
+            return {
+                ...item,
+                variant: { ...variant, unitPrice: unitPrice(variant) },
+                available,
+                inStock: available > 0,
+            };
+        });
+    },
+
+    /**
+     * Save a variant to the wishlist, or update its alert preferences if
+     * it is already there
+     */
+    addItem: async (
+        customerId: number,
+        data: { variantId: number } & WishlistPreferences
+    ) => {
+        const variant = await prisma.productVariant.findUnique({
+            where: { id: data.variantId },
+            select: { id: true },
+        });
+        if (!variant) {
+            throw wishlistError(
+                `Product variant with ID ${data.variantId} not found`,
+                404
+            );
+        }
+
+        const preferences: WishlistPreferences = {
+            notifyBackInStock: data.notifyBackInStock,
+            notifyPriceDrop: data.notifyPriceDrop,
+        };
+
+        return prisma.wishlistItem.upsert({
+            where: {
+                customerId_variantId: {
+                    customerId,
+                    variantId: data.variantId,
+                },
+            },
+            update: preferences,
+            create: { customerId, variantId: data.variantId, ...preferences },
+            include: wishlistInclude,
+        });
+    },
+
+    /**
+     * Change which alerts a wishlist item sends
+     */
+    updateItem: async (
+        customerId: number,
+        variantId: number,
+        preferences: WishlistPreferences
+    ) => {
+        const { count } = await prisma.wishlistItem.updateMany({
+            where: { customerId, variantId },
+            data: preferences,
+        });
+        if (count === 0) {
+            throw wishlistError("Variant is not in your wishlist", 404);
+        }
+
+        return prisma.wishlistItem.findUnique({
+            where: { customerId_variantId: { customerId, variantId } },
+            include: wishlistInclude,
+        });
+    },
+
+    /**
+     * Remove a variant from the wishlist
+     */
+    removeItem: async (customerId: number, variantId: number) => {
+        const { count } = await prisma.wishlistItem.deleteMany({
+            where: { customerId, variantId },
+        });
+        if (count === 0) {
+            throw wishlistError("Variant is not in your wishlist", 404);
+        }
+    },
+
+    /**
+     * Alert watching customers when added stock brings a variant back
+     * from no available units (across all stores) to some. Call after the
+     * stock change inside the same transaction.
+     */
+    notifyIfRestocked: async (
+        tx: Prisma.TransactionClient,
+        variantId: number,
+        added: number
+    ): Promise<number> => {
+        if (added <= 0) return 0;
+
+        const totals = await tx.storeVariantStock.aggregate({
+            where: { variantId },
+            _sum: { quantity: true, reserved: true },
+        });
+        const available =
+            (totals._sum.quantity || 0) - (totals._sum.reserved || 0);
+
+        if (available <= 0 || available - added > 0) return 0;
+
+        return alertWatchers(tx, variantId, "notifyBackInStock", (name) => ({
+            subject: "Back in stock",
+            message: `${name} from your wishlist is back in stock.`,
+        }));
+    },
+
+    /**
+     * Alert watching customers when a price or sale price change lowers
+     * what one unit sells for
+     */
+    notifyIfPriceDropped: async (
+        tx: Prisma.TransactionClient,
+        before: PricedVariant,
+        after: PricedVariant
+    ): Promise<number> => {
+        const oldPrice = unitPrice(before);
+        const newPrice = unitPrice(after);
+        if (newPrice >= oldPrice) return 0;
+
+        return alertWatchers(tx, after.id, "notifyPriceDrop", (name) => ({
+            subject: "Price drop",
+            message: `${name} from your wishlist is now ${formatPrice(
+                newPrice
+            )} (was ${formatPrice(oldPrice)}).`,
+        }));
+    },
+};
+
+export default WishlistService;
@@ -0,0 +1,77 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma, PrismaClient } from "../../generated/prisma/client";
+import emailController from "../../controllers/users/email.controller";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Emails handled per run
+const BATCH_SIZE = 20;
+
+// Attempts before an email is marked FAILED
+const MAX_ATTEMPTS = 5;
+
+const EmailQueueService = {
+    /**
+     * Queue an email to be sent by the email queue job. Pass a transaction
+     * client so the email is only queued if the change behind it commits.
+     */
+    enqueue: async (
+        email: { to: string; subject: string; html: string },
+        db: Db = prisma
+    ) => {
+        return db.queuedEmail.create({ data: email });
+    },
+
+    /**
+     * Send queued emails, oldest first. Failed sends are retried on later
+     * runs until MAX_ATTEMPTS is reached. Returns the number sent.
+     */
+    sendPending: async (): Promise<number> => {
+        const pending = await prisma.queuedEmail.findMany({
+            where: { status: "PENDING" },
+            orderBy: { createdAt: "asc" },
+            take: BATCH_SIZE,
+        });
+
+        let sent = 0;
+        for (const email of pending) {
+            // Claim the attempt so overlapping runs never send twice
+            const claimed = await prisma.queuedEmail.updateMany({
+                where: {
+                    id: email.id,
+                    status: "PENDING",
+                    attempts: email.attempts,
+                },
+                data: { attempts: { increment: 1 } },
+            });
+            if (claimed.count === 0) continue;
+
+            try {
+                await emailController.sendEmail(
+                    email.to,
+                    email.subject,
+                    email.html
+                );
+                await prisma.queuedEmail.update({
+                    where: { id: email.id },
+                    data: { status: "SENT", sentAt: new Date() },
+                });
+                sent++;
+            } catch (err: any) {
+                await prisma.queuedEmail.update({
+                    where: { id: email.id },
+                    data: {
+                        lastError: err.message,
+                        ...(email.attempts + 1 >= MAX_ATTEMPTS && {
+                            status: "FAILED",
+                        }),
+                    },
+                });
+            }
+        }
+
+        return sent;
+    },
+};
+
+export default EmailQueueService;
@@ -0,0 +1,48 @@
+import { prisma } from "../../utils/prisma";
+
+const NotificationService = {
+    /**
+     * Get a customer's notifications, newest first
+     */
+    getCustomerNotifications: async (
+        customerId: number,
+        page: number = 1,
+        limit: number = 20,
+        unreadOnly: boolean = false
+    ) => {
+        const skip = (page - 1) * limit;
+        const where = { customerId, ...(unreadOnly && { read: false }) };
+
+        const [notifications, total, unread] = await Promise.all([
+            prisma.notification.findMany({
+                where,
+                orderBy: { createdAt: "desc" },
+                skip,
+                take: limit,
+            }),
+            prisma.notification.count({ where }),
+            prisma.notification.count({ where: { customerId, read: false } }),
+        ]);
+
+        return {
+            notifications,
+            total,
+            unread,
+            pages: Math.ceil(total / limit),
+        };
+    },
+
+    /**
+     * Mark one of the customer's notifications, or all of them, as read.
+     * Returns the number of notifications updated.
+     */
+    markRead: async (customerId: number, id?: number): Promise<number> => {
+        const { count } = await prisma.notification.updateMany({
+            where: { customerId, read: false, ...(id && { id }) },
+            data: { read: true },
+        });
+        return count;
+    },
+};
+
+export default NotificationService;
@@ -0,0 +1,640 @@
+import crypto from "crypto";
+import { prisma } from "../../utils/prisma";
+import { PaymentMethod, Prisma } from "../../generated/prisma/client";
+import PricingService, { PriceType, roundMoney } from "./pricing.service";
+import CouponEvaluationService, {
+    AppliedCoupon,
+} from "../couponEvaluation.service";
+import OrderService from "./order.service";
+import GuestService, { GuestDetails } from "../customer/guest.service";
+import AddressService from "../customer/address.service";
+
+// A cart belongs to a signed-in customer or to a guest token
+export interface CartOwner {
+    customerId?: number;
+    guestToken?: string;
+}
+
+export interface CheckoutData {
+    paymentMethod: PaymentMethod;
+    addressId?: number;
+    notes?: string;
+    totalAmount?: number; // Total the customer saw, checked against pricing
+}
+
+export interface ShippingAddressInput {
+    label?: string;
+    street: string;
+    city: string;
+    county: string;
+    postalCode: string;
+    country: string;
+    phone?: string;
+}
+
+export interface GuestCheckoutData extends Omit<CheckoutData, "addressId"> {
+    guest: GuestDetails;
+    address?: ShippingAddressInput; // Omit to collect in store
+}
+
+export interface CartLine {
+    id: number;
+    variantId: number;
+    productId: number;
+    name: string;
+    sku: string;
+    quantity: number;
+    unitPrice: number;
+    priceType: PriceType;
+    lineTotal: number;
+    available: number; // Units the store can still sell (on hand - reserved)
+    inStock: boolean; // The full quantity can be bought right now
+}
+
+const DEFAULT_STORE_ID = 1;
+
+const cartError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const cartItemInclude = (storeId: number) =>
+    ({
+        variant: {
+            include: {
+                product: {
+                    select: {
+                        id: true,
+                        name: true,
+                        status: true,
+                        deletedAt: true,
+                    },
+                },
+                stock: { where: { storeId } },
+            },
+        },
+    } satisfies Prisma.CartItemInclude);
+
+const isSellable = (product: {
+    status: string;
+    deletedAt: Date | null;
+}): boolean =>
+    !product.deletedAt &&
+    product.status !== "DISABLED" &&
+    product.status !== "ARCHIVED";
+
+/**
+ * Units of a variant a store can still sell
+ */
+const availableQuantity = async (
+    storeId: number,
+    variantId: number
+): Promise<number> => {
+    const stock = await prisma.storeVariantStock.findUnique({
+        where: { storeId_variantId: { storeId, variantId } },
+    });
+    return stock ? Math.max(stock.quantity - stock.reserved, 0) : 0;
+};
+
+const findCart = async (owner: CartOwner) => {
+    if (owner.customerId) {
+        return prisma.cart.findUnique({
+            where: { customerId: owner.customerId },
+        });
+    }
+    if (owner.guestToken) {
+        return prisma.cart.findUnique({
+            where: { guestToken: owner.guestToken },
+        });
+    }
+    return null;
+};
+
+/**
+ * Find the owner's cart for changes to existing lines
+ */
+const requireCart = async (owner: CartOwner) => {
+    const cart = await findCart(owner);
+    if (!cart) {
+        throw cartError("Cart not found", 404);
+    }
+    return cart;
+};
+
+/**
+ * Find the owner's cart, creating it (with a new guest token for
+ * guests) on first use
+ */
+const findOrCreateCart = async (owner: CartOwner) => {
+    const cart = await findCart(owner);
+    if (cart) return cart;
+
+    return prisma.cart.create({
+        data: owner.customerId
+            ? { customerId: owner.customerId }
+            : { guestToken: crypto.randomBytes(24).toString("hex") },
+    });
+};
+
+/**
+ * Price the cart and check every line against live stock. Coupons that
+ * no longer apply (e.g. the cart dropped below a minimum spend) are
+ * listed as invalid instead of failing the whole cart.
+ */
+const buildSummary = async (cartId: number) => {
+    const cart = await prisma.cart.findUniqueOrThrow({
+        where: { id: cartId },
+    });
+    const storeId = cart.storeId || DEFAULT_STORE_ID;
+    const items = await prisma.cartItem.findMany({
+        where: { cartId },
+        include: cartItemInclude(storeId),
+        orderBy: { createdAt: "asc" },
+    });
+
+    const lines: CartLine[] = items.map((item) => {
+        const { variant } = item;
+        const stock = variant.stock[0];
+        const available = stock
+            ? Math.max(stock.quantity - stock.reserved, 0)
+            : 0;
+        const { unitPrice, priceType } = PricingService.resolveUnitPrice(
+            variant,
+            item.quantity
+        );
+
+        return {
+            id: item.id,
+            variantId: variant.id,
+            productId: variant.product.id,
+            name: variant.name,
+            sku: variant.sku,
+            quantity: item.quantity,
+            unitPrice,
+            priceType,
+            lineTotal: roundMoney(unitPrice * item.quantity),
+            available,
+            inStock: isSellable(variant.product) && available >= item.quantity,
+        };
+    });
+
+    // Only sellable lines are priced; the rest must be removed first
+    const sellable = items.filter((item) =>
+        isSellable(item.variant.product)
+    );
+    const pricedLines =
+        sellable.length > 0
+            ? await PricingService.priceLines(
+                  sellable.map((item) => ({
+                      variantId: item.variantId,
+                      quantity: item.quantity,
+                  }))
+              )
+            : [];
+
+    // Guests are evaluated without order history; coupons are checked
+    // again for the customer at checkout
+    const customerId = cart.customerId || 0;
+    const validCodes: string[] = [];
+    const invalidCoupons: Array<{ code: string; message: string }> = [];
+    for (const code of cart.couponCodes) {
+        try {
+            await CouponEvaluationService.evaluate(
+                [...validCodes, code],
+                customerId,
+                pricedLines
+            );
+            validCodes.push(code);
+        } catch (err: any) {
+            invalidCoupons.push({ code, message: err.message });
+        }
+    }
+
+    let coupons: AppliedCoupon[] = [];
+    let discountedLines = pricedLines;
+    let discountTotal = 0;
+    if (validCodes.length > 0) {
+        const evaluation = await CouponEvaluationService.evaluate(
+            validCodes,
+            customerId,
+            pricedLines
+        );
+        coupons = evaluation.coupons;
+        discountedLines = evaluation.lines;
+        discountTotal = evaluation.discountTotal;
+    }
+
+    // Shipping is quoted at checkout once the address is known
+    const breakdown = PricingService.buildBreakdown(discountedLines, {
+        discountTotal,
+    });
+
+    return {
+        id: cart.id,
+        cartToken: cart.guestToken,
+        storeId,
+        items: lines,
+        coupons,
+        invalidCoupons,
+        pricing: {
+            subtotal: breakdown.subtotal,
+            discountTotal: breakdown.discountTotal,
+            taxRate: breakdown.taxRate,
+            taxTotal: breakdown.taxTotal,
+            total: breakdown.total,
+        },
+        canCheckout:
+            lines.length > 0 &&
+            lines.every((line) => line.inStock) &&
+            invalidCoupons.length === 0,
+        updatedAt: cart.updatedAt,
+    };
+};
+
+export type CartSummary = Awaited<ReturnType<typeof buildSummary>>;
+
+/**
+ * Get and price the owner's cart for checkout, rejecting empty carts,
+ * items that are out of stock and coupons that no longer apply
+ */
+const prepareCheckout = async (owner: CartOwner) => {
+    const cart = await findCart(owner);
+    const summary = cart ? await buildSummary(cart.id) : null;
+    if (!cart || !summary || summary.items.length === 0) {
+        throw cartError("Your cart is empty");
+    }
+
+    const unavailable = summary.items.filter((line) => !line.inStock);
+    if (unavailable.length > 0) {
+        throw cartError(
+            `Some items are no longer available: ${unavailable
+                .map((line) => `${line.name} (${line.available} left)`)
+                .join(", ")}`,
+            409
+        );
+    }
+    if (summary.invalidCoupons.length > 0) {
+        throw cartError(
+            `Remove coupons that no longer apply: ${summary.invalidCoupons
+                .map((coupon) => coupon.code)
+                .join(", ")}`,
+            409
+        );
+    }
+
+    return { cart, summary };
+};
+
+/**
+ * Place the order for a checked cart and empty the cart
+ */
+const placeCartOrder = async (
+    cart: { id: number; couponCodes: string[] },
+    summary: CartSummary,
+    customerId: number,
+    data: CheckoutData & { contactName?: string }
+) => {
+    const order = await OrderService.createOrder({
+        customerId,
+        addressId: data.addressId,
+        contactName: data.contactName,
+        items: summary.items.map((line) => ({
+            variantId: line.variantId,
+            quantity: line.quantity,
+        })),
+        paymentMethod: data.paymentMethod,
+        totalAmount: data.totalAmount,
+        notes: data.notes,
+        storeId: summary.storeId,
+        couponCodes: cart.couponCodes,
+    });
+
+    await prisma.$transaction([
+        prisma.cartItem.deleteMany({ where: { cartId: cart.id } }),
+        prisma.cart.update({
+            where: { id: cart.id },
+            data: { couponCodes: [] },
+        }),
+    ]);
+
+    return order;
+};
+
+const CartService = {
+    /**
+     * Get the owner's cart with live prices and availability. Guests get
+     * null until they add their first item.
+     */
+    getCart: async (owner: CartOwner): Promise<CartSummary | null> => {
+        const cart = owner.customerId
+            ? await findOrCreateCart(owner)
+            : await findCart(owner);
+        return cart ? buildSummary(cart.id) : null;
+    },
+
+    /**
+     * Add a variant to the cart, or add to the quantity of its line.
+     * Passing a storeId moves the cart to that store.
+     */
+    addItem: async (
+        owner: CartOwner,
+        data: { variantId: number; quantity: number; storeId?: number }
+    ): Promise<CartSummary> => {
+        let cart = await findOrCreateCart(owner);
+
+        if (data.storeId && data.storeId !== cart.storeId) {
+            const store = await prisma.store.findFirst({
+                where: { id: data.storeId, deletedAt: null },
+            });
+            if (!store) {
+                throw cartError(`Store with ID ${data.storeId} not found`, 404);
+            }
+            cart = await prisma.cart.update({
+                where: { id: cart.id },
+                data: { storeId: data.storeId },
+            });
+        }
+
+        const variant = await prisma.productVariant.findUnique({
+            where: { id: data.variantId },
+            include: { product: { select: { status: true, deletedAt: true } } },
+        });
+        if (!variant) {
+            throw cartError(
+                `Product variant with ID ${data.variantId} not found`,
+                404
+            );
+        }
+        if (!isSellable(variant.product)) {
+            throw cartError(
+                `Product variant ${variant.name} is not available for sale`
+            );
+        }
+
+        const existing = await prisma.cartItem.findUnique({
+            where: {
+                cartId_variantId: { cartId: cart.id, variantId: variant.id },
+            },
+        });
+        const quantity = (existing?.quantity || 0) + data.quantity;
+
+        const available = await availableQuantity(
+            cart.storeId || DEFAULT_STORE_ID,
+            variant.id
+        );
+        if (quantity > available) {
+            throw cartError(
+                available > 0
+                    ? `Only ${available} of ${variant.name} available`
+                    : `${variant.name} is out of stock`,
+                409
+            );
+        }
+
+        await prisma.cartItem.upsert({
+            where: {
+                cartId_variantId: { cartId: cart.id, variantId: variant.id },
+            },
+            update: { quantity },
+            create: { cartId: cart.id, variantId: variant.id, quantity },
+        });
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Set the quantity of a cart line; zero removes it
+     */
+    updateItem: async (
+        owner: CartOwner,
+        itemId: number,
+        quantity: number
+    ): Promise<CartSummary> => {
+        const cart = await requireCart(owner);
+        const item = await prisma.cartItem.findFirst({
+            where: { id: itemId, cartId: cart.id },
+            include: { variant: { select: { name: true } } },
+        });
+        if (!item) {
+            throw cartError("Cart item not found", 404);
+        }
+
+        if (quantity === 0) {
+            await prisma.cartItem.delete({ where: { id: item.id } });
+            return buildSummary(cart.id);
+        }
+
+        // Lowering the quantity is always allowed
+        if (quantity > item.quantity) {
+            const available = await availableQuantity(
+                cart.storeId || DEFAULT_STORE_ID,
+                item.variantId
+            );
+            if (quantity > available) {
+                throw cartError(
+                    `Only ${available} of ${item.variant.name} available`,
+                    409
+                );
+            }
+        }
+
+        await prisma.cartItem.update({
+            where: { id: item.id },
+            data: { quantity },
+        });
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Remove a line from the cart
+     */
+    removeItem: async (
+        owner: CartOwner,
+        itemId: number
+    ): Promise<CartSummary> => {
+        const cart = await requireCart(owner);
+        const { count } = await prisma.cartItem.deleteMany({
+            where: { id: itemId, cartId: cart.id },
+        });
+        if (count === 0) {
+            throw cartError("Cart item not found", 404);
+        }
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Remove every line and coupon from the cart
+     */
+    clearCart: async (owner: CartOwner): Promise<CartSummary> => {
+        const cart = await requireCart(owner);
+        await prisma.$transaction([
+            prisma.cartItem.deleteMany({ where: { cartId: cart.id } }),
+            prisma.cart.update({
+                where: { id: cart.id },
+                data: { couponCodes: [] },
+            }),
+        ]);
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Attach a coupon after checking it applies to the current cart
+     */
+    applyCoupon: async (
+        owner: CartOwner,
+        code: string
+    ): Promise<CartSummary> => {
+        const cart = await findOrCreateCart(owner);
+        const trimmed = code.trim();
+        if (cart.couponCodes.includes(trimmed)) {
+            throw cartError(`Coupon ${trimmed} is already applied`, 409);
+        }
+
+        const items = await prisma.cartItem.findMany({
+            where: { cartId: cart.id },
+        });
+        if (items.length === 0) {
+            throw cartError("Add items to your cart before applying a coupon");
+        }
+
+        const lines = await PricingService.priceLines(items);
+        await CouponEvaluationService.evaluate(
+            [...cart.couponCodes, trimmed],
+            cart.customerId || 0,
+            lines
+        );
+
+        await prisma.cart.update({
+            where: { id: cart.id },
+            data: { couponCodes: { push: trimmed } },
+        });
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Detach a coupon from the cart
+     */
+    removeCoupon: async (
+        owner: CartOwner,
+        code: string
+    ): Promise<CartSummary> => {
+        const cart = await requireCart(owner);
+        if (!cart.couponCodes.includes(code)) {
+            throw cartError(`Coupon ${code} is not applied to this cart`, 404);
+        }
+
+        await prisma.cart.update({
+            where: { id: cart.id },
+            data: {
+                couponCodes: cart.couponCodes.filter((c) => c !== code),
+            },
+        });
+
+        return buildSummary(cart.id);
+    },
+
+    /**
+     * Move a guest cart into the customer's cart after they sign in.
+     * Quantities of the same variant are added together and coupons are
+     * combined; the guest cart is then deleted.
+     */
+    mergeGuestCart: async (guestToken: string, customerId: number) => {
+        return prisma.$transaction(async (tx) => {
+            const guestCart = await tx.cart.findUnique({
+                where: { guestToken },
+                include: { items: true },
+            });
+            if (!guestCart || guestCart.customerId) return null;
+
+            const customerCart = await tx.cart.findUnique({
+                where: { customerId },
+            });
+
+            // No cart yet: the guest cart simply becomes the customer's
+            if (!customerCart) {
+                return tx.cart.update({
+                    where: { id: guestCart.id },
+                    data: { customerId, guestToken: null },
+                });
+            }
+
+            for (const item of guestCart.items) {
+                await tx.cartItem.upsert({
+                    where: {
+                        cartId_variantId: {
+                            cartId: customerCart.id,
+                            variantId: item.variantId,
+                        },
+                    },
+                    update: { quantity: { increment: item.quantity } },
+                    create: {
+                        cartId: customerCart.id,
+                        variantId: item.variantId,
+                        quantity: item.quantity,
+                    },
+                });
+            }
+
+            await tx.cart.delete({ where: { id: guestCart.id } });
+
+            return tx.cart.update({
+                where: { id: customerCart.id },
+                data: {
+                    couponCodes: [
+                        ...new Set([
+                            ...customerCart.couponCodes,
+                            ...guestCart.couponCodes,
+                        ]),
+                    ],
+                },
+            });
+        });
+    },
+
+    /**
+     * Turn the customer's cart into an order. Prices, coupons and stock
+     * are checked again by OrderService.createOrder, and the cart is
+     * emptied once the order is placed.
+     */
+    checkout: async (customerId: number, data: CheckoutData) => {
+        const { cart, summary } = await prepareCheckout({ customerId });
+
+        return placeCartOrder(cart, summary, customerId, data);
+    },
+
+    /**
+     * Turn a guest cart into an order for a passwordless guest customer
+     * (found or created by email or phone), shipped to an inline address.
+     * Returns the order with a token to view and track it.
+     */
+    guestCheckout: async (guestToken: string, data: GuestCheckoutData) => {
+        const { cart, summary } = await prepareCheckout({ guestToken });
+
+        const guest = await GuestService.findOrCreateGuest(data.guest);
+        const address = data.address
+            ? await AddressService.createAddress(guest.id, {
+                  ...data.address,
+                  label: data.address.label || "Shipping",
+                  phone: data.address.phone || data.guest.phone,
+              })
+            : null;
+
+        const order = await placeCartOrder(cart, summary, guest.id, {
+            ...data,
+            addressId: address?.id,
+            contactName: data.guest.name,
+        });
+
+        return {
+            order,
+            accessToken: GuestService.createOrderAccessToken(order),
+        };
+    },
+};
+
+export default CartService;
@@ -4,8 +4,37 @@ import {
     OrderStatus,
     PaymentMethod,
     Prisma,
+    Transaction,
 } from "../../generated/prisma/client";
-import { generateOrderNumber } from "../../utils/orderUtils";
+import {
+    DEFAULT_ORDER_PREFIX,
+    generateOrderNumber,
+} from "../../utils/orderUtils";
+import { canTransitionTo } from "../../validation/order.validation";
+import PricingService, {
+    PriceBreakdown,
+    roundMoney,
+} from "./pricing.service";
+import CouponEvaluationService, {
+    AppliedCoupon,
+} from "../couponEvaluation.service";
+import ShippingQuoteService, {
+    ShippingQuote,
+} from "../shipping/quote.service";
+import TransactionService, {
+    TransactionStatus,
+} from "../payment/transaction.service";
+import RefundService from "../payment/refund.service";
+import StockReservationService from "../product/reservation.service";
+import {
+    AddressSnapshot,
+    toAddressSnapshot,
+} from "../customer/address.service";
+import {
+    StoreScope,
+    isInStoreScope,
+    scopedStoreId,
+} from "../../utils/storeScope";
 
 const prisma = new PrismaClient();
 
@@ -15,13 +44,14 @@ export interface CreateOrderData {
     items: {
         variantId: number;
         quantity: number;
-        price: number;
+        price?: number; // Client-side price, checked against server pricing
     }[];
     paymentMethod: PaymentMethod;
-    totalAmount: number;
+    totalAmount?: number; // Client-side total, checked against server pricing
     notes?: string;
     storeId?: number;
     couponCodes?: string[];
+    contactName?: string; // Guest checkouts: name given for this order
 }
 
 export interface UpdateOrderData {
@@ -32,6 +62,18 @@ export interface UpdateOrderData {
     addressId?: number;
 }
 
+export type CreatedOrder = Order & {
+    pricing: PriceBreakdown;
+    coupons: AppliedCoupon[];
+    shipping: ShippingQuote | null;
+};
+
+// Who triggered an order change, recorded in the status history
+export interface OrderActor {
+    userId?: number; // Staff user
+    customerId?: number; // Customer
+}
+
 export interface OrderFilters {
     customerId?: number;
     storeId?: number;
@@ -58,12 +100,49 @@ export interface OrderAnalytics {
     }>;
 }
 
+// Attempts made when a checkout hits a write conflict
+const ORDER_CREATE_ATTEMPTS = 3;
+
+/**
+ * Unique order number clashes (e.g. numbers issued outside the sequence)
+ * and write conflicts/deadlocks (P2034) are worth retrying
+ */
+const isRetryableOrderError = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    (error.code === "P2034" ||
+        (error.code === "P2002" &&
+            String(error.meta?.target).includes("orderNumber")));
+
 class OrderService {
     /**
-     * Create a new order with items and handle stock updates
+     * Create a new order with items and handle stock updates.
+     * Prices and totals are computed server-side by PricingService.
+     */
+    async createOrder(data: CreateOrderData): Promise<CreatedOrder> {
+        // A conflicting concurrent checkout rolls the whole transaction
+        // back, so it is safe to run it again
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.placeOrder(data);
+            } catch (error) {
+                if (
+                    attempt >= ORDER_CREATE_ATTEMPTS ||
+                    !isRetryableOrderError(error)
+                ) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Create the order in a single transaction (one attempt)
      */
-    async createOrder(data: CreateOrderData): Promise<Order> {
+    private async placeOrder(data: CreateOrderData): Promise<CreatedOrder> {
         return await prisma.$transaction(async (tx) => {
+            let orderPrefix = DEFAULT_ORDER_PREFIX;
+            let shippingAddress: AddressSnapshot | undefined;
+
             // Validate foreign key references before creating order
             try {
                 // Check customer exists
@@ -76,16 +155,22 @@ class OrderService {
                     );
                 }
 
-                // Check address exists (if provided)
+                // Check the address belongs to the customer (if provided)
                 if (data.addressId) {
-                    const address = await tx.address.findUnique({
-                        where: { id: data.addressId },
+                    const address = await tx.address.findFirst({
+                        where: {
+                            id: data.addressId,
+                            customerId: data.customerId,
+                        },
                     });
                     if (!address) {
-                        throw new Error(
+                        const err = new Error(
                             `Address with ID ${data.addressId} not found`
                         );
+                        (err as any).status = 404;
+                        throw err;
                     }
+                    shippingAddress = toAddressSnapshot(address);
                 }
 
                 // Check store exists (if provided, or default to 1)
@@ -96,78 +181,72 @@ class OrderService {
                 if (!store) {
                     throw new Error(`Store with ID ${storeId} not found`);
                 }
-
-                // Check all variants exist
-                for (const item of data.items) {
-                    const variant = await tx.productVariant.findUnique({
-                        where: { id: item.variantId },
-                    });
-                    if (!variant) {
-                        throw new Error(
-                            `Product variant with ID ${item.variantId} not found`
-                        );
-                    }
-                }
+                orderPrefix = store.orderPrefix || DEFAULT_ORDER_PREFIX;
             } catch (error) {
                 console.error("Foreign key validation failed:", error);
                 throw error;
             }
 
-            // Generate unique order number
-            const orderNumber = await generateOrderNumber();
+            // Price every line from the database; client prices are only
+            // used to detect stale carts
+            const lines = await PricingService.priceLines(data.items, tx);
 
-            // Validate and reserve stock for all items
-            for (const item of data.items) {
-                const variant = await tx.productVariant.findUnique({
-                    where: { id: item.variantId },
-                    include: { product: true },
-                });
+            // Evaluate coupons against the priced lines
+            const couponEvaluation =
+                data.couponCodes && data.couponCodes.length > 0
+                    ? await CouponEvaluationService.evaluate(
+                          data.couponCodes,
+                          data.customerId,
+                          lines,
+                          tx,
+                          { lock: true }
+                      )
+                    : null;
 
-                if (!variant) {
-                    throw new Error(
-                        `Product variant with ID ${item.variantId} not found`
-                    );
-                }
+            const pricedLines = couponEvaluation?.lines || lines;
 
-                // Check stock availability
-                const stock = await tx.storeVariantStock.findFirst({
-                    where: {
-                        variantId: item.variantId,
-                        storeId: data.storeId || 1, // Default to store 1 if not specified
-                    },
-                });
+            // Quote shipping to the delivery address; orders without an
+            // address are collected in store
+            const shippingQuote = data.addressId
+                ? await ShippingQuoteService.quoteForAddress(
+                      data.addressId,
+                      {
+                          amount: pricedLines.reduce(
+                              (sum, line) =>
+                                  sum + line.lineTotal - line.discount,
+                              0
+                          ),
+                          weight: pricedLines.reduce(
+                              (sum, line) => sum + line.weight,
+                              0
+                          ),
+                      },
+                      tx
+                  )
+                : null;
 
-                if (!stock || stock.quantity < item.quantity) {
-                    throw new Error(
-                        `Insufficient stock for variant ${variant.name}`
-                    );
-                }
+            const pricing = PricingService.buildBreakdown(pricedLines, {
+                discountTotal: couponEvaluation?.discountTotal,
+                shippingTotal: couponEvaluation?.freeShipping
+                    ? 0
+                    : shippingQuote?.amount,
+            });
+            PricingService.assertClientValues(
+                pricing,
+                data.items,
+                data.totalAmount
+            );
 
-                // Reserve stock
-                await tx.storeVariantStock.update({
-                    where: { id: stock.id },
-                    data: {
-                        quantity: {
-                            decrement: item.quantity,
-                        },
-                    },
-                });
+            // Generate unique order number from the store's daily sequence
+            const orderNumber = await generateOrderNumber(tx, orderPrefix);
 
-                // Create stock movement record
-                await tx.stockMovement.create({
-                    data: {
-                        variantId: item.variantId,
-                        storeId: data.storeId || 1,
-                        customerId: data.customerId,
-                        orderId: null, // Will be updated after order creation
-                        operation: "decrement",
-                        quantity: item.quantity,
-                        previousQuantity: stock.quantity,
-                        newQuantity: stock.quantity - item.quantity,
-                        reason: `Order ${orderNumber}`,
-                    },
-                });
-            }
+            // Hold stock for all items until the order is processed
+            await StockReservationService.reserve(tx, {
+                orderNumber,
+                storeId: data.storeId || 1, // Default to store 1 if not specified
+                customerId: data.customerId,
+                lines: pricing.lines,
+            });
 
             // Create the order
             const order = await tx.order.create({
@@ -175,17 +254,27 @@ class OrderService {
                     orderNumber,
                     customerId: data.customerId,
                     addressId: data.addressId,
+                    shippingAddress,
+                    contactName: data.contactName,
                     status: "PENDING",
-                    totalAmount: data.totalAmount,
+                    subtotal: pricing.subtotal,
+                    discountAmount: pricing.discountTotal,
+                    shippingAmount: pricing.shippingTotal,
+                    taxAmount: pricing.taxTotal,
+                    totalAmount: pricing.total,
                     paymentMethod: data.paymentMethod,
                     paid: false,
+                    stockReserved: true,
+                    reservationExpiresAt: StockReservationService.expiryFor(
+                        data.paymentMethod
+                    ),
                     notes: data.notes,
                     storeId: data.storeId,
                     items: {
-                        create: data.items.map((item) => ({
-                            variantId: item.variantId,
-                            quantity: item.quantity,
-                            price: item.price,
+                        create: pricing.lines.map((line) => ({
+                            variantId: line.variantId,
+                            quantity: line.quantity,
+                            price: line.unitPrice,
                         })),
                     },
                 },
@@ -229,7 +318,9 @@ class OrderService {
             // Update stock movements with order ID
             await tx.stockMovement.updateMany({
                 where: {
-                    variantId: { in: data.items.map((item) => item.variantId) },
+                    variantId: {
+                        in: pricing.lines.map((line) => line.variantId),
+                    },
                     orderId: null,
                     reason: `Order ${orderNumber}`,
                 },
@@ -238,45 +329,54 @@ class OrderService {
                 },
             });
 
-            // Apply coupons if provided
-            if (data.couponCodes && data.couponCodes.length > 0) {
-                for (const couponCode of data.couponCodes) {
-                    const coupon = await tx.coupon.findFirst({
-                        where: {
-                            code: couponCode,
-                            status: "ACTIVE",
-                            isExpired: false,
-                        },
-                    });
+            // Start the status history
+            await tx.orderStatusHistory.create({
+                data: {
+                    orderId: order.id,
+                    fromStatus: null,
+                    toStatus: "PENDING",
+                    customerId: data.customerId,
+                    note: "Order placed",
+                },
+            });
 
-                    if (coupon) {
-                        await tx.orderCoupon.create({
-                            data: {
-                                orderId: order.id,
-                                couponId: coupon.id,
-                            },
-                        });
-                    }
-                }
+            // Record applied coupons with the discount each one gave
+            for (const applied of couponEvaluation?.coupons || []) {
+                await tx.orderCoupon.create({
+                    data: {
+                        orderId: order.id,
+                        couponId: applied.couponId,
+                        discountAmount: applied.discount,
+                    },
+                });
             }
 
-            return order;
+            return {
+                ...order,
+                pricing,
+                coupons: couponEvaluation?.coupons || [],
+                shipping: shippingQuote,
+            };
         });
     }
 
     /**
-     * Get all orders with filtering and pagination
+     * Get all orders with filtering and pagination. A store scope limits
+     * the results to that store.
      */
     async getOrders(
         filters: OrderFilters = {},
         page: number = 1,
-        limit: number = 20
+        limit: number = 20,
+        scope?: StoreScope
     ): Promise<{ orders: Order[]; total: number; pages: number }> {
         const skip = (page - 1) * limit;
+        const storeId = scopedStoreId(scope, filters.storeId);
 
         const where: Prisma.OrderWhereInput = {
+            deletedAt: null,
             ...(filters.customerId && { customerId: filters.customerId }),
-            ...(filters.storeId && { storeId: filters.storeId }),
+            ...(storeId && { storeId }),
             ...(filters.status && { status: filters.status }),
             ...(filters.paymentMethod && {
                 paymentMethod: filters.paymentMethod,
@@ -375,11 +475,11 @@ class OrderService {
     }
 
     /**
-     * Get order by ID
+     * Get order by ID. Orders outside the store scope are not found.
      */
-    async getOrderById(id: number): Promise<Order | null> {
+    async getOrderById(id: number, scope?: StoreScope): Promise<Order | null> {
         return await prisma.order.findUnique({
-            where: { id },
+            where: { id, storeId: scopedStoreId(scope), deletedAt: null },
             include: {
                 customer: {
                     select: {
@@ -420,6 +520,17 @@ class OrderService {
                         coupon: true,
                     },
                 },
+                statusHistory: {
+                    include: {
+                        user: {
+                            select: {
+                                id: true,
+                                name: true,
+                            },
+                        },
+                    },
+                    orderBy: { createdAt: "asc" },
+                },
                 stockMovements: {
                     include: {
                         variant: {
@@ -438,7 +549,7 @@ class OrderService {
      */
     async getOrderByNumber(orderNumber: string): Promise<Order | null> {
         return await prisma.order.findUnique({
-            where: { orderNumber },
+            where: { orderNumber, deletedAt: null },
             include: {
                 customer: {
                     select: {
@@ -479,6 +590,17 @@ class OrderService {
                         coupon: true,
                     },
                 },
+                statusHistory: {
+                    include: {
+                        user: {
+                            select: {
+                                id: true,
+                                name: true,
+                            },
+                        },
+                    },
+                    orderBy: { createdAt: "asc" },
+                },
             },
         });
     }
@@ -486,57 +608,158 @@ class OrderService {
     /**
      * Update order status and details
      */
-    async updateOrder(id: number, data: UpdateOrderData): Promise<Order> {
-        return await prisma.$transaction(async (tx) => {
+    async updateOrder(
+        id: number,
+        data: UpdateOrderData,
+        actor: OrderActor = {},
+        scope?: StoreScope
+    ): Promise<Order> {
+        // Refunds of a cancelled order go to the gateway after commit
+        let refunds: Transaction[] = [];
+
+        const updated = await prisma.$transaction(async (tx) => {
+            // Lock the order first, so a concurrent update reads the status
+            // this one sets and stock is committed, released or refunded once
+            await tx.$queryRaw`
+                SELECT "id" FROM "Order" WHERE "id" = ${id} FOR UPDATE
+            `;
             const order = await tx.order.findUnique({
-                where: { id },
+                where: { id, deletedAt: null },
                 include: { items: true, coupons: true },
             });
 
-            if (!order) {
-                throw new Error("Order not found");
+            if (!order || !isInStoreScope(scope, order.storeId)) {
+                const err = new Error("Order not found");
+                (err as any).status = 404;
+                throw err;
             }
 
             // Handle status changes
             if (data.status && data.status !== order.status) {
-                // If cancelling order, restore stock
+                if (!canTransitionTo(order.status, data.status)) {
+                    const err = new Error(
+                        `Cannot change order status from ${order.status} to ${data.status}`
+                    );
+                    (err as any).status = 409;
+                    throw err;
+                }
+
+                // Record the transition with its actor
+                await tx.orderStatusHistory.create({
+                    data: {
+                        orderId: order.id,
+                        fromStatus: order.status,
+                        toStatus: data.status,
+                        userId: actor.userId,
+                        customerId: actor.customerId,
+                        note: data.notes,
+                    },
+                });
+
+                // Reserved stock is taken from on-hand once fulfilment starts
+                if (data.status === "PROCESSING" && order.stockReserved) {
+                    await StockReservationService.commit(tx, order);
+                }
+
+                // If cancelling order, release reserved stock or restore
+                // stock already taken from on-hand
                 if (
                     data.status === "CANCELLED" &&
                     order.status !== "CANCELLED"
                 ) {
-                    for (const item of order.items) {
-                        const stock = await tx.storeVariantStock.findFirst({
-                            where: {
-                                variantId: item.variantId,
-                                storeId: order.storeId || 1,
-                            },
-                        });
-
-                        if (stock) {
-                            await tx.storeVariantStock.update({
-                                where: { id: stock.id },
-                                data: {
-                                    quantity: {
-                                        increment: item.quantity,
-                                    },
-                                },
-                            });
-
-                            // Create stock movement for cancellation
-                            await tx.stockMovement.create({
-                                data: {
+                    if (order.stockReserved) {
+                        await StockReservationService.release(
+                            tx,
+                            order,
+                            `Order ${order.orderNumber} cancelled`
+                        );
+                    } else {
+                        for (const item of order.items) {
+                            const stock = await tx.storeVariantStock.findFirst({
+                                where: {
                                     variantId: item.variantId,
                                     storeId: order.storeId || 1,
-                                    orderId: order.id,
-                                    operation: "increment",
-                                    quantity: item.quantity,
-                                    previousQuantity: stock.quantity,
-                                    newQuantity: stock.quantity + item.quantity,
-                                    reason: `Order ${order.orderNumber} cancelled`,
                                 },
                             });
+
+                            if (stock) {
+                                await tx.storeVariantStock.update({
+                                    where: { id: stock.id },
+                                    data: {
+                                        quantity: {
+                                            increment: item.quantity,
+                                        },
+                                    },
+                                });
+
+                                // Create stock movement for cancellation
+                                await tx.stockMovement.create({
+                                    data: {
+                                        variantId: item.variantId,
+                                        storeId: order.storeId || 1,
+                                        orderId: order.id,
+                                        operation: "increment",
+                                        quantity: item.quantity,
+                                        previousQuantity: stock.quantity,
+                                        newQuantity:
+                                            stock.quantity + item.quantity,
+                                        reason: `Order ${order.orderNumber} cancelled`,
+                                    },
+                                });
+                            }
                         }
                     }
+
+                    // Give back whatever was captured on the order
+                    const balance = await TransactionService.getBalance(
+                        order.id,
+                        tx
+                    );
+                    if (balance.refundable > 0) {
+                        refunds = await RefundService.startRefund(
+                            tx,
+                            order.id,
+                            { reason: `Order ${order.orderNumber} cancelled` },
+                            actor.userId
+                        );
+                    }
+                }
+            }
+
+            // Shipping to a different address replaces the order's copy
+            let shippingAddress: AddressSnapshot | undefined;
+            if (data.addressId && data.addressId !== order.addressId) {
+                const address = await tx.address.findFirst({
+                    where: {
+                        id: data.addressId,
+                        customerId: order.customerId,
+                    },
+                });
+                if (!address) {
+                    const err = new Error(
+                        `Address with ID ${data.addressId} not found`
+                    );
+                    (err as any).status = 404;
+                    throw err;
+                }
+                shippingAddress = toAddressSnapshot(address);
+            }
+
+            // Marking an order paid captures its outstanding amount
+            if (data.paid === true && !order.paid) {
+                const outstanding = roundMoney(
+                    order.totalAmount - order.paidAmount
+                );
+                if (outstanding > 0) {
+                    await TransactionService.recordPayment(
+                        order.id,
+                        {
+                            amount: outstanding,
+                            method: data.paymentMethod || order.paymentMethod,
+                            reason: "Marked as paid",
+                        },
+                        tx
+                    );
                 }
             }
 
@@ -544,6 +767,7 @@ class OrderService {
                 where: { id },
                 data: {
                     ...data,
+                    shippingAddress,
                     updatedAt: new Date(),
                 },
                 include: {
@@ -612,16 +836,34 @@ class OrderService {
 
             return updatedOrder;
         });
+
+        // A refund the gateway refuses is left FAILED on the order for
+        // staff to retry; the cancellation itself stands
+        if (refunds.length) {
+            await RefundService.settleRefunds(refunds);
+            return (await this.getOrderById(id)) ?? updated;
+        }
+        return updated;
     }
 
     /**
      * Cancel an order
      */
-    async cancelOrder(id: number, reason?: string): Promise<Order> {
-        return await this.updateOrder(id, {
-            status: "CANCELLED",
-            notes: reason ? `Cancelled: ${reason}` : "Order cancelled",
-        });
+    async cancelOrder(
+        id: number,
+        reason?: string,
+        actor: OrderActor = {},
+        scope?: StoreScope
+    ): Promise<Order> {
+        return await this.updateOrder(
+            id,
+            {
+                status: "CANCELLED",
+                notes: reason ? `Cancelled: ${reason}` : "Order cancelled",
+            },
+            actor,
+            scope
+        );
     }
 
     /**
@@ -630,9 +872,26 @@ class OrderService {
     async getCustomerOrders(
         customerId: number,
         page: number = 1,
-        limit: number = 20
+        limit: number = 20,
+        scope?: StoreScope
     ): Promise<{ orders: Order[]; total: number; pages: number }> {
-        return await this.getOrders({ customerId }, page, limit);
+        return await this.getOrders({ customerId }, page, limit, scope);
+    }
+
+    /**
+     * Make sure an order exists within the store scope, for actions on
+     * its payments and refunds
+     */
+    async assertOrderInScope(id: number, scope?: StoreScope): Promise<void> {
+        const order = await prisma.order.findUnique({
+            where: { id, deletedAt: null },
+            select: { storeId: true },
+        });
+        if (!order || !isInStoreScope(scope, order.storeId)) {
+            const err = new Error("Order not found");
+            (err as any).status = 404;
+            throw err;
+        }
     }
 
     /**
@@ -641,9 +900,12 @@ class OrderService {
     async getOrderAnalytics(
         storeId?: number,
         dateFrom?: Date,
-        dateTo?: Date
+        dateTo?: Date,
+        scope?: StoreScope
     ): Promise<OrderAnalytics> {
+        storeId = scopedStoreId(scope, storeId);
         const where: Prisma.OrderWhereInput = {
+            deletedAt: null,
             ...(storeId && { storeId }),
             ...((dateFrom || dateTo) && {
                 placedAt: {
@@ -778,67 +1040,51 @@ class OrderService {
     }
 
     /**
-     * Calculate coupon discount amount
-     */
-    private calculateCouponDiscount(coupon: any, orderAmount: number): number {
-        switch (coupon.type) {
-            case "FIXED":
-                return Math.min(coupon.value, orderAmount);
-            case "PERCENTAGE":
-                return (orderAmount * coupon.value) / 100;
-            case "FREESHIPPING":
-                return 0; // Free shipping is handled separately
-            default:
-                return 0;
-        }
-    }
-
-    /**
-     * Delete order (soft delete)
+     * Delete a cancelled order. The order is only hidden: its payments,
+     * refunds, stock movements and status history are kept for the
+     * record. Orders with money still in flight cannot be deleted.
      */
-    async deleteOrder(id: number): Promise<void> {
+    async deleteOrder(id: number, scope?: StoreScope): Promise<void> {
         const order = await prisma.order.findUnique({
-            where: { id },
-            include: { items: true },
+            where: { id, deletedAt: null },
+            include: {
+                transactions: {
+                    where: {
+                        status: {
+                            in: [
+                                TransactionStatus.PENDING,
+                                TransactionStatus.AUTHORIZED,
+                            ],
+                        },
+                    },
+                    select: { id: true },
+                },
+            },
         });
 
-        if (!order) {
-            throw new Error("Order not found");
+        if (!order || !isInStoreScope(scope, order.storeId)) {
+            const err = new Error("Order not found");
+            (err as any).status = 404;
+            throw err;
         }
 
         if (order.status !== "CANCELLED") {
             throw new Error("Only cancelled orders can be deleted");
         }
 
-        // Restore stock if not already restored
-        for (const item of order.items) {
-            const stock = await prisma.storeVariantStock.findFirst({
-                where: {
-                    variantId: item.variantId,
-                    storeId: order.storeId || 1,
-                },
-            });
-
-            if (stock) {
-                await prisma.storeVariantStock.update({
-                    where: { id: stock.id },
-                    data: {
-                        quantity: {
-                            increment: item.quantity,
-                        },
-                    },
-                });
-            }
+        if (order.transactions.length) {
+            const err = new Error(
+                "Orders with payments or refunds in progress cannot be deleted"
+            );
+            (err as any).status = 409;
+            throw err;
         }
 
-        // Delete related records
-        await prisma.$transaction([
-            prisma.stockMovement.deleteMany({ where: { orderId: id } }),
-            prisma.transaction.deleteMany({ where: { orderId: id } }),
-            prisma.orderCoupon.deleteMany({ where: { orderId: id } }),
-            prisma.orderItem.deleteMany({ where: { orderId: id } }),
-            prisma.order.delete({ where: { id } }),
-        ]);
+        // Stock was already given back when the order was cancelled
+        await prisma.order.update({
+            where: { id },
+            data: { deletedAt: new Date() },
+        });
     }
 }
 
@@ -0,0 +1,237 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma, PrismaClient } from "../../generated/prisma/client";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export type PriceType = "REGULAR" | "SALE" | "WHOLESALE";
+
+export interface PricingItemInput {
+    variantId: number;
+    quantity: number;
+    price?: number; // Client-side price, only used for mismatch detection
+}
+
+export interface PricedLine {
+    variantId: number;
+    productId: number;
+    name: string;
+    sku: string;
+    quantity: number;
+    listPrice: number;
+    unitPrice: number;
+    priceType: PriceType;
+    lineTotal: number;
+    discount: number;
+    weight: number; // Total shipping weight of the line in kg
+}
+
+export interface PriceBreakdown {
+    lines: PricedLine[];
+    subtotal: number;
+    discountTotal: number;
+    shippingTotal: number;
+    taxRate: number;
+    taxTotal: number;
+    total: number;
+}
+
+// Tolerance used when comparing client-supplied amounts to server prices
+const PRICE_TOLERANCE = 0.01;
+
+/**
+ * Round a monetary amount to 2 decimal places
+ */
+export const roundMoney = (amount: number): number =>
+    Math.round((amount + Number.EPSILON) * 100) / 100;
+
+const getTaxRate = (): number => {
+    const rate = parseFloat(process.env.TAX_RATE || "0");
+    return isNaN(rate) || rate < 0 ? 0 : rate;
+};
+
+const pricingError = (message: string, status: number) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const PricingService = {
+    /**
+     * Resolve the unit price a variant sells at for a given quantity.
+     * The lowest applicable price wins: sale price when set, and
+     * wholesale price once the wholesale quantity is reached.
+     */
+    resolveUnitPrice: (
+        variant: {
+            price: number;
+            salePrice: number | null;
+            wholesalePrice: number | null;
+            wholesaleQty: number | null;
+        },
+        quantity: number
+    ): { unitPrice: number; priceType: PriceType } => {
+        let unitPrice = variant.price;
+        let priceType: PriceType = "REGULAR";
+
+        if (variant.salePrice != null && variant.salePrice < unitPrice) {
+            unitPrice = variant.salePrice;
+            priceType = "SALE";
+        }
+
+        if (
+            variant.wholesalePrice != null &&
+            variant.wholesaleQty != null &&
+            quantity >= variant.wholesaleQty &&
+            variant.wholesalePrice < unitPrice
+        ) {
+            unitPrice = variant.wholesalePrice;
+            priceType = "WHOLESALE";
+        }
+
+        return { unitPrice: roundMoney(unitPrice), priceType };
+    },
+
+    /**
+     * Price order lines from the database. Duplicate variants are merged
+     * so wholesale thresholds apply to the combined quantity.
+     */
+    priceLines: async (
+        items: PricingItemInput[],
+        db: Db = prisma
+    ): Promise<PricedLine[]> => {
+        const merged = new Map<number, number>();
+        for (const item of items) {
+            merged.set(
+                item.variantId,
+                (merged.get(item.variantId) || 0) + item.quantity
+            );
+        }
+
+        const variants = await db.productVariant.findMany({
+            where: { id: { in: [...merged.keys()] } },
+            include: {
+                product: {
+                    select: { id: true, status: true, deletedAt: true },
+                },
+            },
+        });
+        const variantMap = new Map(variants.map((v) => [v.id, v]));
+
+        const lines: PricedLine[] = [];
+        for (const [variantId, quantity] of merged) {
+            const variant = variantMap.get(variantId);
+            if (!variant) {
+                throw pricingError(
+                    `Product variant with ID ${variantId} not found`,
+                    404
+                );
+            }
+
+            if (
+                variant.product.deletedAt ||
+                variant.product.status === "DISABLED" ||
+                variant.product.status === "ARCHIVED"
+            ) {
+                throw pricingError(
+                    `Product variant ${variant.name} is not available for sale`,
+                    400
+                );
+            }
+
+            const { unitPrice, priceType } = PricingService.resolveUnitPrice(
+                variant,
+                quantity
+            );
+
+            lines.push({
+                variantId,
+                productId: variant.productId,
+                name: variant.name,
+                sku: variant.sku,
+                quantity,
+                listPrice: variant.price,
+                unitPrice,
+                priceType,
+                lineTotal: roundMoney(unitPrice * quantity),
+                discount: 0,
+                weight: (variant.weight || 0) * quantity,
+            });
+        }
+
+        return lines;
+    },
+
+    /**
+     * Build the order totals from priced lines.
+     * Tax (TAX_RATE, e.g. 0.16) is charged on the discounted subtotal.
+     */
+    buildBreakdown: (
+        lines: PricedLine[],
+        charges: { discountTotal?: number; shippingTotal?: number } = {}
+    ): PriceBreakdown => {
+        const subtotal = roundMoney(
+            lines.reduce((sum, line) => sum + line.lineTotal, 0)
+        );
+        const discountTotal = roundMoney(
+            Math.min(charges.discountTotal || 0, subtotal)
+        );
+        const shippingTotal = roundMoney(charges.shippingTotal || 0);
+        const taxRate = getTaxRate();
+        const taxTotal = roundMoney((subtotal - discountTotal) * taxRate);
+
+        return {
+            lines,
+            subtotal,
+            discountTotal,
+            shippingTotal,
+            taxRate,
+            taxTotal,
+            total: roundMoney(
+                subtotal - discountTotal + shippingTotal + taxTotal
+            ),
+        };
+    },
+
+    /**
+     * Reject client-supplied prices or totals that disagree with the
+     * server-side breakdown, so stale carts are refreshed rather than
+     * silently charged a different amount.
+     */
+    assertClientValues: (
+        breakdown: PriceBreakdown,
+        items: PricingItemInput[],
+        clientTotal?: number
+    ): void => {
+        const mismatches: string[] = [];
+
+        for (const item of items) {
+            if (item.price === undefined) continue;
+            const line = breakdown.lines.find(
+                (l) => l.variantId === item.variantId
+            );
+            if (line && Math.abs(line.unitPrice - item.price) > PRICE_TOLERANCE) {
+                mismatches.push(
+                    `${line.sku}: expected ${line.unitPrice}, got ${item.price}`
+                );
+            }
+        }
+
+        if (
+            clientTotal !== undefined &&
+            Math.abs(breakdown.total - clientTotal) > PRICE_TOLERANCE
+        ) {
+            mismatches.push(
+                `total: expected ${breakdown.total}, got ${clientTotal}`
+            );
+        }
+
+        if (mismatches.length > 0) {
+            throw pricingError(
+                `Prices have changed. ${mismatches.join("; ")}`,
+                409
+            );
+        }
+    },
+};
+
+export default PricingService;
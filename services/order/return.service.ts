@@ -0,0 +1,551 @@
+import { prisma } from "../../utils/prisma";
+import {
+    Prisma,
+    PrismaClient,
+    ReturnStatus,
+} from "../../generated/prisma/client";
+import { canReturnOrder, formatOrderStatus } from "../../utils/orderUtils";
+import { canTransitionTo } from "../../validation/order.validation";
+import {
+    StoreScope,
+    isInStoreScope,
+    scopedStoreId,
+} from "../../utils/storeScope";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export interface ReturnItemInput {
+    itemId: number; // OrderItem ID
+    quantity: number;
+    reason: string;
+}
+
+export interface CreateReturnData {
+    reason: string;
+    items: ReturnItemInput[];
+}
+
+export interface ReturnQuantityInput {
+    returnItemId: number;
+    quantity: number;
+}
+
+export interface ReturnFilters {
+    status?: ReturnStatus;
+    orderId?: number;
+    customerId?: number;
+}
+
+// Statuses whose items still count against what can be returned
+const OPEN_STATUSES: ReturnStatus[] = ["REQUESTED", "APPROVED"];
+// Statuses where the items are physically back in stock
+const RECEIVED_STATUSES: ReturnStatus[] = ["RECEIVED", "REFUNDED"];
+
+const returnError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const returnInclude = {
+    items: {
+        include: {
+            orderItem: {
+                include: {
+                    variant: {
+                        select: {
+                            id: true,
+                            name: true,
+                            sku: true,
+                            product: { select: { id: true, name: true } },
+                        },
+                    },
+                },
+            },
+        },
+    },
+    order: {
+        select: {
+            id: true,
+            orderNumber: true,
+            status: true,
+            storeId: true,
+        },
+    },
+    customer: { select: { id: true, name: true, email: true } },
+    approvedBy: { select: { id: true, name: true } },
+    receivedBy: { select: { id: true, name: true } },
+} satisfies Prisma.ReturnRequestInclude;
+
+const lockOrder = async (tx: Prisma.TransactionClient, orderId: number) => {
+    await tx.$queryRaw`
+        SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE
+    `;
+};
+
+/**
+ * Lock a return request so concurrent approvals, rejections and receipts
+ * see each other's status change
+ */
+const lockReturn = async (tx: Prisma.TransactionClient, id: number) => {
+    await tx.$queryRaw`
+        SELECT "id" FROM "ReturnRequest" WHERE "id" = ${id} FOR UPDATE
+    `;
+};
+
+/**
+ * Make sure a return request exists on an order within the store scope.
+ * Returns of other stores are treated as not found.
+ */
+const assertReturnInScope = async (db: Db, id: number, scope: StoreScope) => {
+    const request = await db.returnRequest.findUnique({
+        where: { id },
+        select: { order: { select: { storeId: true } } },
+    });
+    if (!request || !isInStoreScope(scope, request.order.storeId)) {
+        throw returnError("Return request not found", 404);
+    }
+};
+
+/**
+ * Quantity of an order item already claimed by other returns.
+ * Pending requests count in full, approved or received ones by what the
+ * store agreed to take back, and rejected requests not at all.
+ */
+const claimedQuantity = (
+    returnItems: Array<{
+        quantity: number;
+        approvedQuantity: number;
+        receivedQuantity: number;
+        returnRequest: { status: ReturnStatus };
+    }>
+): number =>
+    returnItems.reduce((sum, item) => {
+        switch (item.returnRequest.status) {
+            case "REQUESTED":
+                return sum + item.quantity;
+            case "APPROVED":
+                return sum + item.approvedQuantity;
+            case "RECEIVED":
+            case "REFUNDED":
+                return sum + item.receivedQuantity;
+            default:
+                return sum;
+        }
+    }, 0);
+
+/**
+ * Resolve per-item quantities for approve/receive. Items left out of the
+ * list get the default quantity (e.g. everything requested/approved).
+ */
+const resolveQuantities = (
+    returnItems: Array<{ id: number }>,
+    input: ReturnQuantityInput[] | undefined,
+    defaultFor: (item: any) => number,
+    maxFor: (item: any) => number,
+    label: string
+): Map<number, number> => {
+    const quantities = new Map<number, number>();
+
+    if (!input) {
+        for (const item of returnItems) {
+            quantities.set(item.id, defaultFor(item));
+        }
+        return quantities;
+    }
+
+    for (const item of returnItems) quantities.set(item.id, 0);
+
+    for (const entry of input) {
+        const item = returnItems.find((i) => i.id === entry.returnItemId);
+        if (!item) {
+            throw returnError(
+                `Return item with ID ${entry.returnItemId} not found in this return`
+            );
+        }
+        if (entry.quantity > maxFor(item)) {
+            throw returnError(
+                `${label} quantity for return item ${item.id} cannot exceed ${maxFor(
+                    item
+                )}`
+            );
+        }
+        quantities.set(item.id, entry.quantity);
+    }
+
+    return quantities;
+};
+
+const ReturnService = {
+    /**
+     * Open a return request for a delivered order. The order status is left
+     * untouched until items are actually received back. The order is
+     * locked while quantities are checked, so concurrent requests cannot
+     * claim the same items twice.
+     */
+    createReturn: async (
+        orderId: number,
+        customerId: number,
+        data: CreateReturnData
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await lockOrder(tx, orderId);
+
+            const order = await tx.order.findUnique({
+                where: { id: orderId },
+                include: {
+                    items: {
+                        include: {
+                            returnItems: {
+                                include: {
+                                    returnRequest: { select: { status: true } },
+                                },
+                            },
+                        },
+                    },
+                },
+            });
+
+            if (!order || order.customerId !== customerId) {
+                throw returnError("Order not found", 404);
+            }
+            if (!canReturnOrder(order.status)) {
+                throw returnError(
+                    `Order cannot be returned. Current status: ${formatOrderStatus(
+                        order.status
+                    )}`
+                );
+            }
+
+            // Merge repeated lines for the same order item
+            const requested = new Map<number, ReturnItemInput>();
+            for (const item of data.items) {
+                const existing = requested.get(item.itemId);
+                requested.set(
+                    item.itemId,
+                    existing
+                        ? {
+                              ...existing,
+                              quantity: existing.quantity + item.quantity,
+                          }
+                        : { ...item }
+                );
+            }
+
+            for (const item of requested.values()) {
+                const orderItem = order.items.find((i) => i.id === item.itemId);
+                if (!orderItem) {
+                    throw returnError(
+                        `Item with ID ${item.itemId} not found in order`
+                    );
+                }
+
+                const returnable =
+                    orderItem.quantity - claimedQuantity(orderItem.returnItems);
+                if (item.quantity > returnable) {
+                    throw returnError(
+                        returnable > 0
+                            ? `Only ${returnable} of item ${item.itemId} can still be returned`
+                            : `Item ${item.itemId} has already been returned`
+                    );
+                }
+            }
+
+            return tx.returnRequest.create({
+                data: {
+                    orderId: order.id,
+                    customerId,
+                    reason: data.reason,
+                    items: {
+                        create: [...requested.values()].map((item) => ({
+                            orderItemId: item.itemId,
+                            quantity: item.quantity,
+                            reason: item.reason,
+                        })),
+                    },
+                },
+                include: returnInclude,
+            });
+        });
+    },
+
+    /**
+     * Get return requests with pagination, limited to the store scope
+     */
+    getReturns: async (
+        filters: ReturnFilters = {},
+        page: number = 1,
+        limit: number = 20,
+        scope?: StoreScope
+    ) => {
+        const skip = (page - 1) * limit;
+        const storeId = scopedStoreId(scope);
+        const where: Prisma.ReturnRequestWhereInput = {
+            ...(storeId && { order: { storeId } }),
+            ...(filters.status && { status: filters.status }),
+            ...(filters.orderId && { orderId: filters.orderId }),
+            ...(filters.customerId && { customerId: filters.customerId }),
+        };
+
+        const [returns, total] = await Promise.all([
+            prisma.returnRequest.findMany({
+                where,
+                include: returnInclude,
+                orderBy: { createdAt: "desc" },
+                skip,
+                take: limit,
+            }),
+            prisma.returnRequest.count({ where }),
+        ]);
+
+        return { returns, total, pages: Math.ceil(total / limit) };
+    },
+
+    /**
+     * Get a return request by ID, or null if it is outside the store scope
+     */
+    getReturnById: async (id: number, scope?: StoreScope) => {
+        const request = await prisma.returnRequest.findUnique({
+            where: { id },
+            include: returnInclude,
+        });
+        if (!request || !isInStoreScope(scope, request.order.storeId)) {
+            return null;
+        }
+        return request;
+    },
+
+    /**
+     * Approve a requested return. Each item may be approved for less than
+     * was requested; items not listed are approved in full when no list
+     * is given, or not at all when one is.
+     */
+    approveReturn: async (
+        id: number,
+        data: { items?: ReturnQuantityInput[]; note?: string },
+        userId?: number,
+        scope?: StoreScope
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await assertReturnInScope(tx, id, scope);
+            await lockReturn(tx, id);
+            const request = await tx.returnRequest.findUniqueOrThrow({
+                where: { id },
+                include: { items: true },
+            });
+            if (request.status !== "REQUESTED") {
+                throw returnError(
+                    `Cannot approve a return that is ${request.status}`,
+                    409
+                );
+            }
+
+            const quantities = resolveQuantities(
+                request.items,
+                data.items,
+                (item) => item.quantity,
+                (item) => item.quantity,
+                "Approved"
+            );
+            const totalApproved = [...quantities.values()].reduce(
+                (sum, qty) => sum + qty,
+                0
+            );
+            if (totalApproved === 0) {
+                throw returnError(
+                    "At least one item must be approved; reject the return instead"
+                );
+            }
+
+            for (const [itemId, approvedQuantity] of quantities) {
+                await tx.returnItem.update({
+                    where: { id: itemId },
+                    data: { approvedQuantity },
+                });
+            }
+
+            return tx.returnRequest.update({
+                where: { id },
+                data: {
+                    status: "APPROVED",
+                    adminNote: data.note,
+                    approvedById: userId,
+                    approvedAt: new Date(),
+                },
+                include: returnInclude,
+            });
+        });
+    },
+
+    /**
+     * Reject a return that has not been received yet
+     */
+    rejectReturn: async (
+        id: number,
+        note: string,
+        userId?: number,
+        scope?: StoreScope
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await assertReturnInScope(tx, id, scope);
+            await lockReturn(tx, id);
+            const request = await tx.returnRequest.findUniqueOrThrow({
+                where: { id },
+            });
+            if (!OPEN_STATUSES.includes(request.status)) {
+                throw returnError(
+                    `Cannot reject a return that is ${request.status}`,
+                    409
+                );
+            }
+
+            return tx.returnRequest.update({
+                where: { id },
+                data: {
+                    status: "REJECTED",
+                    adminNote: note,
+                    approvedById: userId,
+                    approvedAt: new Date(),
+                },
+                include: returnInclude,
+            });
+        });
+    },
+
+    /**
+     * Receive approved items back into the store the order was fulfilled
+     * from. Stock is incremented with a StockMovement referencing the order,
+     * and the order is only marked RETURNED once every item on it is back.
+     */
+    receiveReturn: async (
+        id: number,
+        data: { items?: ReturnQuantityInput[]; note?: string },
+        userId?: number,
+        scope?: StoreScope
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await assertReturnInScope(tx, id, scope);
+            // Lock the order before the return, as refunds do. Other returns
+            // on the order may be received at the same time, and the last
+            // one must see every item back.
+            const { orderId } = await tx.returnRequest.findUniqueOrThrow({
+                where: { id },
+                select: { orderId: true },
+            });
+            await lockOrder(tx, orderId);
+            await lockReturn(tx, id);
+            const request = await tx.returnRequest.findUniqueOrThrow({
+                where: { id },
+                include: {
+                    items: { include: { orderItem: true } },
+                    order: true,
+                },
+            });
+            if (request.status !== "APPROVED") {
+                throw returnError(
+                    `Cannot receive a return that is ${request.status}`,
+                    409
+                );
+            }
+
+            const quantities = resolveQuantities(
+                request.items,
+                data.items,
+                (item) => item.approvedQuantity,
+                (item) => item.approvedQuantity,
+                "Received"
+            );
+
+            const order = request.order;
+            const storeId = order.storeId || 1;
+
+            for (const item of request.items) {
+                const quantity = quantities.get(item.id) || 0;
+                await tx.returnItem.update({
+                    where: { id: item.id },
+                    data: { receivedQuantity: quantity },
+                });
+                if (quantity === 0) continue;
+
+                const variantId = item.orderItem.variantId;
+                const stock = await tx.storeVariantStock.findFirst({
+                    where: { variantId, storeId },
+                });
+                const previousQuantity = stock?.quantity || 0;
+
+                await tx.storeVariantStock.upsert({
+                    where: { storeId_variantId: { storeId, variantId } },
+                    update: { quantity: { increment: quantity } },
+                    create: { storeId, variantId, quantity },
+                });
+
+                await tx.stockMovement.create({
+                    data: {
+                        variantId,
+                        storeId,
+                        userId,
+                        orderId: order.id,
+                        operation: "increment",
+                        quantity,
+                        previousQuantity,
+                        newQuantity: previousQuantity + quantity,
+                        reason: `Return #${request.id} for order ${order.orderNumber} received`,
+                        notes: data.note,
+                    },
+                });
+            }
+
+            const received = await tx.returnRequest.update({
+                where: { id },
+                data: {
+                    status: "RECEIVED",
+                    receivedById: userId,
+                    receivedAt: new Date(),
+                    ...(data.note && { adminNote: data.note }),
+                },
+                include: returnInclude,
+            });
+
+            // Mark the order RETURNED only when every item is fully back
+            const orderItems = await tx.orderItem.findMany({
+                where: { orderId: order.id },
+                include: {
+                    returnItems: {
+                        where: {
+                            returnRequest: {
+                                status: { in: RECEIVED_STATUSES },
+                            },
+                        },
+                    },
+                },
+            });
+            const fullyReturned = orderItems.every(
+                (item) =>
+                    item.returnItems.reduce(
+                        (sum, r) => sum + r.receivedQuantity,
+                        0
+                    ) >= item.quantity
+            );
+
+            if (fullyReturned && canTransitionTo(order.status, "RETURNED")) {
+                await tx.order.update({
+                    where: { id: order.id },
+                    data: { status: "RETURNED" },
+                });
+                await tx.orderStatusHistory.create({
+                    data: {
+                        orderId: order.id,
+                        fromStatus: order.status,
+                        toStatus: "RETURNED",
+                        userId,
+                        note: `All items received back (return #${request.id})`,
+                    },
+                });
+            }
+
+            return received;
+        });
+    },
+};
+
+export default ReturnService;
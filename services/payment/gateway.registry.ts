@@ -0,0 +1,34 @@
+import { PaymentMethod } from "../../generated/prisma/client";
+import { gatewayError, PaymentGateway } from "./gateways/payment.gateway";
+import stripeGateway from "./gateways/stripe.gateway";
+import paypalGateway from "./gateways/paypal.gateway";
+
+// Gateways keyed by the payment method they collect
+const gateways = new Map<PaymentMethod, PaymentGateway>([
+    ["CARD", stripeGateway],
+    ["PAYPAL", paypalGateway],
+]);
+
+/**
+ * Register or replace the gateway for a payment method
+ */
+export const registerGateway = (gateway: PaymentGateway) => {
+    gateways.set(gateway.method, gateway);
+};
+
+export const hasGateway = (method: PaymentMethod): boolean =>
+    gateways.has(method);
+
+export const getGateway = (method: PaymentMethod): PaymentGateway => {
+    const gateway = gateways.get(method);
+    if (!gateway) {
+        throw gatewayError(`No payment gateway handles ${method}`, 400);
+    }
+    return gateway;
+};
+
+/**
+ * Find a gateway by its name, as used in webhook URLs
+ */
+export const getGatewayByName = (name: string): PaymentGateway | undefined =>
+    [...gateways.values()].find((gateway) => gateway.name === name);
@@ -0,0 +1,344 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma, Transaction } from "../../generated/prisma/client";
+import paymentConfig from "../../config/payment.config";
+import { roundMoney } from "../order/pricing.service";
+import TransactionService, { TransactionStatus } from "./transaction.service";
+import { getGateway, getGatewayByName } from "./gateway.registry";
+import {
+    GatewayEvent,
+    PaymentGateway,
+    WebhookRequest,
+} from "./gateways/payment.gateway";
+
+// How long a started payment is left for the customer to finish before
+// another one may replace it
+const PENDING_WINDOW_MS = 15 * 60 * 1000;
+
+const paymentError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+/**
+ * Load a payment transaction of an order, checking it belongs to the order
+ */
+const findOrderPayment = async (orderId: number, transactionId: number) => {
+    const transaction = await prisma.transaction.findUnique({
+        where: { id: transactionId },
+    });
+    if (
+        !transaction ||
+        transaction.orderId !== orderId ||
+        transaction.type !== "PAYMENT"
+    ) {
+        throw paymentError("Payment not found for this order", 404);
+    }
+    if (!transaction.providerTxId) {
+        throw paymentError("This payment was not made through a gateway");
+    }
+    return transaction;
+};
+
+/**
+ * Release an open payment at the gateway. Pending PayPal orders hold no
+ * funds yet, so there is nothing to release for them.
+ */
+const releasePayment = async (transaction: Transaction) => {
+    if (
+        transaction.status === TransactionStatus.AUTHORIZED ||
+        transaction.method === "CARD"
+    ) {
+        await getGateway(transaction.method).void({
+            providerTxId: transaction.providerTxId!,
+            providerReference: transaction.providerReference,
+        });
+    }
+};
+
+/**
+ * Hold the funds of a payment the customer approved. Runs once the event
+ * is stored, so a redelivered event never reaches the gateway again. If
+ * the gateway call fails the event is removed, so the provider's retry
+ * can finish the job.
+ */
+const holdApprovedPayment = async (
+    gateway: PaymentGateway,
+    transaction: Transaction,
+    event: GatewayEvent
+) => {
+    if (
+        !gateway.holdApproved ||
+        transaction.status !== TransactionStatus.PENDING
+    ) {
+        return transaction;
+    }
+
+    let result;
+    try {
+        result = await gateway.holdApproved({
+            providerTxId: transaction.providerTxId!,
+            providerReference: transaction.providerReference,
+        });
+    } catch (err) {
+        await prisma.paymentEvent.deleteMany({
+            where: { provider: gateway.name, eventId: event.id },
+        });
+        throw err;
+    }
+
+    return TransactionService.updatePaymentStatus(
+        transaction.id,
+        TransactionStatus.AUTHORIZED,
+        { providerReference: result.providerReference }
+    );
+};
+
+/**
+ * Apply the payment state reported by a webhook event
+ */
+const applyEvent = async (
+    transactionId: number,
+    event: GatewayEvent,
+    tx: Prisma.TransactionClient
+) => {
+    switch (event.status) {
+        case "SUCCESS":
+            return TransactionService.completePayment(
+                transactionId,
+                {
+                    amount: event.amount,
+                    providerReference: event.providerReference,
+                },
+                tx
+            );
+        case "AUTHORIZED":
+        case "FAILED":
+        case "VOIDED":
+            return TransactionService.updatePaymentStatus(
+                transactionId,
+                TransactionStatus[event.status],
+                {
+                    providerReference: event.providerReference,
+                    reason:
+                        event.status === "AUTHORIZED" ? undefined : event.type,
+                },
+                tx
+            );
+        default:
+            return null;
+    }
+};
+
+const PaymentGatewayService = {
+    /**
+     * Start a card or PayPal payment for the outstanding balance of an order.
+     * The customer finishes it with the returned client secret or approval URL.
+     * Only one payment is open at a time: a new one is refused while the
+     * last is recent, and replaces it (voiding it) once it is stale.
+     */
+    authorizePayment: async (orderId: number, customerId: number) => {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            include: { customer: { select: { email: true } } },
+        });
+        if (!order || order.customerId !== customerId) {
+            throw paymentError("Order not found", 404);
+        }
+        if (order.status === "CANCELLED") {
+            throw paymentError("Cancelled orders cannot be paid");
+        }
+
+        const outstanding = roundMoney(order.totalAmount - order.paidAmount);
+        if (order.paid || outstanding <= 0) {
+            throw paymentError("This order has already been paid", 409);
+        }
+
+        const open = await prisma.transaction.findMany({
+            where: {
+                orderId,
+                type: "PAYMENT",
+                status: {
+                    in: [
+                        TransactionStatus.AUTHORIZED,
+                        TransactionStatus.PENDING,
+                    ],
+                },
+            },
+        });
+        if (open.some((t) => t.status === TransactionStatus.AUTHORIZED)) {
+            throw paymentError(
+                "A payment for this order is already authorized",
+                409
+            );
+        }
+        const staleBefore = new Date(Date.now() - PENDING_WINDOW_MS);
+        if (open.some((t) => t.createdAt >= staleBefore)) {
+            throw paymentError(
+                "A payment for this order was just started. Please complete it or try again shortly",
+                409
+            );
+        }
+        for (const pending of open) {
+            if (pending.providerTxId) await releasePayment(pending);
+            await TransactionService.updatePaymentStatus(
+                pending.id,
+                TransactionStatus.VOIDED,
+                { reason: "Replaced by a new payment" }
+            );
+        }
+
+        const gateway = getGateway(order.paymentMethod);
+        const result = await gateway.authorize({
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            amount: outstanding,
+            currency: paymentConfig.currency,
+            customerEmail: order.customer.email || undefined,
+        });
+
+        const transaction = await prisma.transaction.create({
+            data: {
+                orderId,
+                type: "PAYMENT",
+                amount: outstanding,
+                method: order.paymentMethod,
+                status: result.status,
+                providerTxId: result.providerTxId,
+                metadata: { gateway: gateway.name },
+            },
+        });
+
+        return {
+            transaction,
+            clientSecret: result.clientSecret,
+            approvalUrl: result.approvalUrl,
+        };
+    },
+
+    /**
+     * Capture an authorized payment, in full or for a smaller amount
+     */
+    capturePayment: async (
+        orderId: number,
+        transactionId: number,
+        amount?: number
+    ) => {
+        const transaction = await findOrderPayment(orderId, transactionId);
+        if (transaction.status !== TransactionStatus.AUTHORIZED) {
+            throw paymentError(
+                `Only authorized payments can be captured (currently ${transaction.status})`,
+                409
+            );
+        }
+
+        const captureAmount = roundMoney(amount ?? transaction.amount);
+        if (captureAmount <= 0 || captureAmount > transaction.amount) {
+            throw paymentError(
+                `Capture amount must be between 0 and ${transaction.amount}`
+            );
+        }
+
+        const result = await getGateway(transaction.method).capture(
+            {
+                providerTxId: transaction.providerTxId!,
+                providerReference: transaction.providerReference,
+            },
+            captureAmount
+        );
+
+        return prisma.$transaction((tx) =>
+            TransactionService.completePayment(
+                transaction.id,
+                {
+                    amount: captureAmount,
+                    providerReference: result.providerReference,
+                },
+                tx
+            )
+        );
+    },
+
+    /**
+     * Release an authorized (or still pending) payment without capturing it
+     */
+    voidPayment: async (orderId: number, transactionId: number) => {
+        const transaction = await findOrderPayment(orderId, transactionId);
+        if (
+            transaction.status !== TransactionStatus.AUTHORIZED &&
+            transaction.status !== TransactionStatus.PENDING
+        ) {
+            throw paymentError(
+                `Only open payments can be voided (currently ${transaction.status})`,
+                409
+            );
+        }
+
+        await releasePayment(transaction);
+
+        return TransactionService.updatePaymentStatus(
+            transaction.id,
+            TransactionStatus.VOIDED,
+            { reason: "Voided by staff" }
+        );
+    },
+
+    /**
+     * Verify and apply a gateway webhook. Each event is stored once, so
+     * redelivered events are acknowledged without being applied again.
+     * Approvals are acted on at the gateway only after the event is stored.
+     */
+    handleWebhook: async (provider: string, request: WebhookRequest) => {
+        const gateway = getGatewayByName(provider);
+        if (!gateway) {
+            throw paymentError(`Unknown payment provider ${provider}`, 404);
+        }
+
+        const event = await gateway.parseWebhook(request);
+
+        let transaction: Transaction | null;
+        try {
+            transaction = await prisma.$transaction(async (tx) => {
+                const transaction = event.providerTxId
+                    ? await tx.transaction.findFirst({
+                          where: {
+                              providerTxId: event.providerTxId,
+                              method: gateway.method,
+                              type: "PAYMENT",
+                          },
+                      })
+                    : null;
+
+                await tx.paymentEvent.create({
+                    data: {
+                        provider: gateway.name,
+                        eventId: event.id,
+                        type: event.type,
+                        transactionId: transaction?.id,
+                        payload: event.payload as Prisma.InputJsonValue,
+                    },
+                });
+
+                if (transaction) {
+                    await applyEvent(transaction.id, event, tx);
+                }
+                return transaction;
+            });
+        } catch (err) {
+            if (
+                err instanceof Prisma.PrismaClientKnownRequestError &&
+                err.code === "P2002"
+            ) {
+                return { duplicate: true, event: event.type };
+            }
+            throw err;
+        }
+
+        if (transaction && event.status === "APPROVED") {
+            await holdApprovedPayment(gateway, transaction, event);
+        }
+        return { duplicate: false, event: event.type };
+    },
+};
+
+export default PaymentGatewayService;
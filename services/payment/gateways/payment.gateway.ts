@@ -0,0 +1,69 @@
+import { PaymentMethod } from "../../../generated/prisma/client";
+
+export interface AuthorizeInput {
+    orderId: number;
+    orderNumber: string;
+    amount: number;
+    currency: string;
+    customerEmail?: string;
+}
+
+export interface AuthorizeResult {
+    providerTxId: string;
+    // PENDING while the customer still has to approve, AUTHORIZED once
+    // the funds are held
+    status: "PENDING" | "AUTHORIZED";
+    clientSecret?: string; // Card: confirm the payment on the client
+    approvalUrl?: string; // PayPal: redirect the customer here
+    raw?: unknown;
+}
+
+// The gateway's handle on a payment, as stored on the Transaction
+export interface GatewayPaymentRef {
+    providerTxId: string;
+    providerReference?: string | null;
+}
+
+export interface GatewayResult {
+    providerReference?: string;
+    raw?: unknown;
+}
+
+export interface WebhookRequest {
+    headers: Record<string, string | string[] | undefined>;
+    rawBody: Buffer;
+}
+
+/**
+ * A verified webhook event mapped to the payment state it reports
+ */
+export interface GatewayEvent {
+    id: string;
+    type: string;
+    providerTxId?: string;
+    // APPROVED: the customer approved, but no funds are held until
+    // holdApproved is called
+    status?: "APPROVED" | "AUTHORIZED" | "SUCCESS" | "FAILED" | "VOIDED";
+    amount?: number;
+    providerReference?: string;
+    payload: unknown;
+}
+
+export interface PaymentGateway {
+    name: string;
+    method: PaymentMethod;
+    authorize(input: AuthorizeInput): Promise<AuthorizeResult>;
+    capture(payment: GatewayPaymentRef, amount: number): Promise<GatewayResult>;
+    void(payment: GatewayPaymentRef): Promise<GatewayResult>;
+    refund(payment: GatewayPaymentRef, amount: number): Promise<GatewayResult>;
+    // Hold the funds of a payment the customer approved (PayPal)
+    holdApproved?(payment: GatewayPaymentRef): Promise<GatewayResult>;
+    // Throws a 400 error when the signature does not verify
+    parseWebhook(request: WebhookRequest): Promise<GatewayEvent>;
+}
+
+export const gatewayError = (message: string, status = 502) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
@@ -0,0 +1,242 @@
+import paymentConfig from "../../../config/payment.config";
+import {
+    GatewayEvent,
+    gatewayError,
+    PaymentGateway,
+    WebhookRequest,
+} from "./payment.gateway";
+
+const BASE_URLS = {
+    sandbox: "https://api-m.sandbox.paypal.com",
+    live: "https://api-m.paypal.com",
+};
+
+// Access tokens are cached until a minute before they expire
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+const getAccessToken = async (): Promise<string> => {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+        return cachedToken.value;
+    }
+
+    const credentials = Buffer.from(
+        `${paymentConfig.paypal.clientId}:${paymentConfig.paypal.clientSecret}`
+    ).toString("base64");
+
+    const response = await fetch(
+        `${BASE_URLS[paymentConfig.paypal.environment]}/v1/oauth2/token`,
+        {
+            method: "POST",
+            headers: {
+                Authorization: `Basic ${credentials}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: "grant_type=client_credentials",
+        }
+    );
+    if (!response.ok) {
+        throw gatewayError(
+            `PayPal: authentication failed (${response.status})`
+        );
+    }
+
+    const body = (await response.json()) as {
+        access_token: string;
+        expires_in: number;
+    };
+    cachedToken = {
+        value: body.access_token,
+        expiresAt: Date.now() + (body.expires_in - 60) * 1000,
+    };
+    return cachedToken.value;
+};
+
+/**
+ * Call the PayPal REST API with a JSON body
+ */
+const paypalRequest = async (
+    path: string,
+    body: unknown = {}
+): Promise<any> => {
+    const token = await getAccessToken();
+    const response = await fetch(
+        `${BASE_URLS[paymentConfig.paypal.environment]}${path}`,
+        {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${token}`,
+                "Content-Type": "application/json",
+                Prefer: "return=representation",
+            },
+            body: JSON.stringify(body),
+        }
+    );
+
+    // Void returns 204 No Content
+    const data = (await response.json().catch(() => ({}))) as any;
+    if (!response.ok) {
+        throw gatewayError(
+            `PayPal: ${
+                data.details?.[0]?.description ||
+                data.message ||
+                `request failed (${response.status})`
+            }`
+        );
+    }
+    return data;
+};
+
+const money = (amount: number) => ({
+    currency_code: paymentConfig.currency,
+    value: amount.toFixed(2),
+});
+
+// PayPal needs the authorization ID (before capture) or capture ID
+// (after capture), kept in providerReference
+const requireReference = (reference: string | null | undefined) => {
+    if (!reference) {
+        throw gatewayError("PayPal payment has not been approved yet", 409);
+    }
+    return reference;
+};
+
+/**
+ * Ask PayPal to verify the webhook transmission headers
+ */
+const verifySignature = async (request: WebhookRequest, event: unknown) => {
+    const header = (name: string) => request.headers[name] as string;
+    if (!paymentConfig.paypal.webhookId || !header("paypal-transmission-sig")) {
+        throw gatewayError("Missing PayPal signature", 400);
+    }
+
+    const result = await paypalRequest(
+        "/v1/notifications/verify-webhook-signature",
+        {
+            auth_algo: header("paypal-auth-algo"),
+            cert_url: header("paypal-cert-url"),
+            transmission_id: header("paypal-transmission-id"),
+            transmission_sig: header("paypal-transmission-sig"),
+            transmission_time: header("paypal-transmission-time"),
+            webhook_id: paymentConfig.paypal.webhookId,
+            webhook_event: event,
+        }
+    );
+    if (result.verification_status !== "SUCCESS") {
+        throw gatewayError("Invalid PayPal signature", 400);
+    }
+};
+
+/**
+ * PayPal Checkout orders with the AUTHORIZE intent
+ */
+const paypalGateway: PaymentGateway = {
+    name: "paypal",
+    method: "PAYPAL",
+
+    authorize: async (input) => {
+        const order = await paypalRequest("/v2/checkout/orders", {
+            intent: "AUTHORIZE",
+            purchase_units: [
+                {
+                    reference_id: input.orderNumber,
+                    custom_id: String(input.orderId),
+                    amount: money(input.amount),
+                },
+            ],
+            application_context: {
+                return_url: paymentConfig.returnUrl,
+                cancel_url: paymentConfig.cancelUrl,
+                user_action: "CONTINUE",
+            },
+        });
+
+        return {
+            providerTxId: order.id,
+            status: "PENDING",
+            approvalUrl: order.links?.find(
+                (link: any) =>
+                    link.rel === "approve" || link.rel === "payer-action"
+            )?.href,
+        };
+    },
+
+    capture: async (payment, amount) => {
+        const capture = await paypalRequest(
+            `/v2/payments/authorizations/${requireReference(
+                payment.providerReference
+            )}/capture`,
+            { amount: money(amount), final_capture: true }
+        );
+        return { providerReference: capture.id, raw: capture };
+    },
+
+    void: async (payment) => {
+        await paypalRequest(
+            `/v2/payments/authorizations/${requireReference(
+                payment.providerReference
+            )}/void`
+        );
+        return {};
+    },
+
+    refund: async (payment, amount) => {
+        const refund = await paypalRequest(
+            `/v2/payments/captures/${requireReference(
+                payment.providerReference
+            )}/refund`,
+            { amount: money(amount) }
+        );
+        return { providerReference: refund.id, raw: refund };
+    },
+
+    holdApproved: async (payment) => {
+        const order = await paypalRequest(
+            `/v2/checkout/orders/${payment.providerTxId}/authorize`
+        );
+        return {
+            providerReference:
+                order.purchase_units?.[0]?.payments?.authorizations?.[0]?.id,
+            raw: order,
+        };
+    },
+
+    parseWebhook: async (request) => {
+        const event = JSON.parse(request.rawBody.toString("utf8"));
+        await verifySignature(request, event);
+
+        const resource = event.resource || {};
+        const orderId = resource.supplementary_data?.related_ids?.order_id;
+        const parsed: GatewayEvent = {
+            id: event.id,
+            type: event.event_type,
+            providerTxId: orderId,
+            payload: event,
+        };
+
+        switch (event.event_type) {
+            case "CHECKOUT.ORDER.APPROVED":
+                // The hold is placed once the event is stored, see
+                // holdApproved
+                return {
+                    ...parsed,
+                    providerTxId: resource.id,
+                    status: "APPROVED",
+                };
+            case "PAYMENT.CAPTURE.COMPLETED":
+                return {
+                    ...parsed,
+                    status: "SUCCESS",
+                    amount: parseFloat(resource.amount?.value),
+                    providerReference: resource.id,
+                };
+            case "PAYMENT.CAPTURE.DENIED":
+                return { ...parsed, status: "FAILED" };
+            case "PAYMENT.AUTHORIZATION.VOIDED":
+                return { ...parsed, status: "VOIDED" };
+            default:
+                return parsed;
+        }
+    },
+};
+
+export default paypalGateway;
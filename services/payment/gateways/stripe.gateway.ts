@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import paymentConfig from "../../../config/payment.config";
+import {
+    GatewayEvent,
+    gatewayError,
+    PaymentGateway,
+    WebhookRequest,
+} from "./payment.gateway";
+
+const API_URL = "https://api.stripe.com/v1";
+
+// Reject webhooks signed more than 5 minutes ago (replay protection)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Currencies Stripe charges in whole units
+const ZERO_DECIMAL_CURRENCIES = [
+    "JPY",
+    "KRW",
+    "UGX",
+    "RWF",
+    "VND",
+    "XAF",
+    "XOF",
+];
+
+const toMinorUnits = (amount: number, currency: string) =>
+    ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+        ? Math.round(amount)
+        : Math.round(amount * 100);
+
+const fromMinorUnits = (amount: number, currency: string) =>
+    ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase())
+        ? amount
+        : amount / 100;
+
+/**
+ * Call the Stripe API with a form-encoded body
+ */
+const stripeRequest = async (
+    path: string,
+    params: Record<string, string | number | undefined> = {}
+): Promise<any> => {
+    const body = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) body.append(key, String(value));
+    }
+
+    const response = await fetch(`${API_URL}${path}`, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${paymentConfig.stripe.secretKey}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body,
+    });
+
+    const data = (await response.json().catch(() => ({}))) as any;
+    if (!response.ok) {
+        throw gatewayError(
+            `Stripe: ${
+                data.error?.message || `request failed (${response.status})`
+            }`
+        );
+    }
+    return data;
+};
+
+/**
+ * Verify the Stripe-Signature header (t=timestamp,v1=signature)
+ */
+const verifySignature = (request: WebhookRequest) => {
+    const header = request.headers["stripe-signature"];
+    if (typeof header !== "string" || !paymentConfig.stripe.webhookSecret) {
+        throw gatewayError("Missing Stripe signature", 400);
+    }
+
+    const parts = header.split(",").map((part) => part.split("="));
+    const timestamp = parts.find(([key]) => key === "t")?.[1];
+    const signatures = parts
+        .filter(([key]) => key === "v1")
+        .map(([, value]) => value);
+    if (!timestamp || signatures.length === 0) {
+        throw gatewayError("Malformed Stripe signature", 400);
+    }
+
+    if (
+        Math.abs(Date.now() / 1000 - parseInt(timestamp)) >
+        SIGNATURE_TOLERANCE_SECONDS
+    ) {
+        throw gatewayError("Stripe signature has expired", 400);
+    }
+
+    const expected = crypto
+        .createHmac("sha256", paymentConfig.stripe.webhookSecret)
+        .update(`${timestamp}.${request.rawBody.toString("utf8")}`)
+        .digest("hex");
+
+    const valid = signatures.some(
+        (signature) =>
+            signature.length === expected.length &&
+            crypto.timingSafeEqual(
+                Buffer.from(signature),
+                Buffer.from(expected)
+            )
+    );
+    if (!valid) {
+        throw gatewayError("Invalid Stripe signature", 400);
+    }
+};
+
+// Payment intent events and the transaction status they lead to
+const EVENT_STATUS: Record<string, GatewayEvent["status"]> = {
+    "payment_intent.amount_capturable_updated": "AUTHORIZED",
+    "payment_intent.succeeded": "SUCCESS",
+    "payment_intent.payment_failed": "FAILED",
+    "payment_intent.canceled": "VOIDED",
+};
+
+/**
+ * Card payments through Stripe PaymentIntents with manual capture
+ */
+const stripeGateway: PaymentGateway = {
+    name: "stripe",
+    method: "CARD",
+
+    authorize: async (input) => {
+        const intent = await stripeRequest("/payment_intents", {
+            amount: toMinorUnits(input.amount, input.currency),
+            currency: input.currency.toLowerCase(),
+            capture_method: "manual",
+            "automatic_payment_methods[enabled]": "true",
+            receipt_email: input.customerEmail,
+            description: `Order ${input.orderNumber}`,
+            "metadata[orderId]": input.orderId,
+            "metadata[orderNumber]": input.orderNumber,
+        });
+
+        return {
+            providerTxId: intent.id,
+            status:
+                intent.status === "requires_capture" ? "AUTHORIZED" : "PENDING",
+            clientSecret: intent.client_secret,
+        };
+    },
+
+    capture: async (payment, amount) => {
+        const intent = await stripeRequest(
+            `/payment_intents/${payment.providerTxId}/capture`,
+            {
+                amount_to_capture: toMinorUnits(amount, paymentConfig.currency),
+            }
+        );
+        return { providerReference: intent.latest_charge, raw: intent };
+    },
+
+    void: async (payment) => {
+        const intent = await stripeRequest(
+            `/payment_intents/${payment.providerTxId}/cancel`
+        );
+        return { raw: intent };
+    },
+
+    refund: async (payment, amount) => {
+        const refund = await stripeRequest("/refunds", {
+            payment_intent: payment.providerTxId,
+            amount: toMinorUnits(amount, paymentConfig.currency),
+        });
+        return { providerReference: refund.id, raw: refund };
+    },
+
+    parseWebhook: async (request) => {
+        verifySignature(request);
+
+        const event = JSON.parse(request.rawBody.toString("utf8"));
+        const object = event.data?.object || {};
+        const isIntent = object.object === "payment_intent";
+
+        return {
+            id: event.id,
+            type: event.type,
+            providerTxId: isIntent ? object.id : undefined,
+            status: EVENT_STATUS[event.type],
+            amount:
+                event.type === "payment_intent.succeeded"
+                    ? fromMinorUnits(object.amount_received, object.currency)
+                    : undefined,
+            providerReference: isIntent
+                ? object.latest_charge || undefined
+                : undefined,
+            payload: event,
+        };
+    },
+};
+
+export default stripeGateway;
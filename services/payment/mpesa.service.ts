@@ -0,0 +1,181 @@
+import { prisma } from "../../utils/prisma";
+import mpesaConfig from "../../config/mpesa.config";
+import { roundMoney } from "../order/pricing.service";
+import TransactionService, { TransactionStatus } from "./transaction.service";
+import darajaProvider from "./mpesa/daraja.provider";
+import fakeProvider from "./mpesa/fake.provider";
+import { MpesaProvider, StkCallbackPayload } from "./mpesa/mpesa.types";
+
+// Customers must wait this long before re-sending an unanswered prompt
+const PENDING_WINDOW_MS = 2 * 60 * 1000;
+
+let provider: MpesaProvider =
+    mpesaConfig.provider === "fake" ? fakeProvider : darajaProvider;
+
+const mpesaError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+/**
+ * Normalize a Kenyan phone number (07.., 01.., +254.., 254..) to 2547XXXXXXXX
+ */
+export const normalizeMsisdn = (phone: string): string | null => {
+    const digits = phone.replace(/[\s\-+]/g, "");
+    const match = digits.match(/^(?:254|0)?([17]\d{8})$/);
+    return match ? `254${match[1]}` : null;
+};
+
+const MpesaService = {
+    /**
+     * Replace the active provider, e.g. with the offline fake
+     */
+    setProvider: (next: MpesaProvider) => {
+        provider = next;
+    },
+
+    getProvider: (): MpesaProvider => provider,
+
+    /**
+     * Send an STK push for the outstanding balance of an order and record
+     * it as a pending transaction keyed by the CheckoutRequestID
+     */
+    initiatePayment: async (
+        orderId: number,
+        customerId: number,
+        phone: string
+    ) => {
+        const msisdn = normalizeMsisdn(phone);
+        if (!msisdn) {
+            throw mpesaError("Enter a valid Safaricom phone number");
+        }
+
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+        });
+        if (!order || order.customerId !== customerId) {
+            throw mpesaError("Order not found", 404);
+        }
+        if (order.paymentMethod !== "MPESAEXPRESS") {
+            throw mpesaError("This order is not paid with M-Pesa Express");
+        }
+        if (order.status === "CANCELLED") {
+            throw mpesaError("Cancelled orders cannot be paid");
+        }
+
+        const outstanding = roundMoney(order.totalAmount - order.paidAmount);
+        if (order.paid || outstanding <= 0) {
+            throw mpesaError("This order has already been paid", 409);
+        }
+
+        const recentPending = await prisma.transaction.findFirst({
+            where: {
+                orderId,
+                type: "PAYMENT",
+                method: "MPESAEXPRESS",
+                status: TransactionStatus.PENDING,
+                createdAt: { gte: new Date(Date.now() - PENDING_WINDOW_MS) },
+            },
+        });
+        if (recentPending) {
+            throw mpesaError(
+                "A payment request was just sent to your phone. Please complete it or try again shortly",
+                409
+            );
+        }
+
+        // M-Pesa only accepts whole shillings
+        const amount = Math.ceil(outstanding);
+        const response = await provider.initiateStkPush({
+            phone: msisdn,
+            amount,
+            accountReference: order.orderNumber,
+            description: "Order payment",
+        });
+
+        const transaction = await prisma.transaction.create({
+            data: {
+                orderId,
+                type: "PAYMENT",
+                amount,
+                method: "MPESAEXPRESS",
+                status: TransactionStatus.PENDING,
+                providerTxId: response.checkoutRequestId,
+                metadata: {
+                    provider: provider.name,
+                    merchantRequestId: response.merchantRequestId,
+                    phone: msisdn,
+                },
+            },
+        });
+
+        return { transaction, customerMessage: response.customerMessage };
+    },
+
+    /**
+     * Apply an STK callback: ResultCode 0 marks the transaction successful
+     * and credits the order, anything else marks it failed. Unknown or
+     * already processed requests are ignored.
+     *
+     * Customers know their CheckoutRequestID, so a success is only
+     * applied once the provider's status query confirms it, and for the
+     * amount that was requested rather than the amount in the callback.
+     */
+    handleCallback: async (payload: StkCallbackPayload) => {
+        const callback = payload?.Body?.stkCallback;
+        if (!callback?.CheckoutRequestID) {
+            throw mpesaError("Invalid M-Pesa callback payload");
+        }
+
+        const transaction = await prisma.transaction.findFirst({
+            where: {
+                providerTxId: callback.CheckoutRequestID,
+                method: "MPESAEXPRESS",
+            },
+        });
+        if (!transaction || transaction.status !== TransactionStatus.PENDING) {
+            return transaction;
+        }
+
+        const items = callback.CallbackMetadata?.Item || [];
+        const valueOf = (name: string) =>
+            items.find((item) => item.Name === name)?.Value;
+
+        if (callback.ResultCode === 0) {
+            const confirmed = await provider.queryStkPush(
+                callback.CheckoutRequestID
+            );
+            if (confirmed.resultCode !== 0) {
+                throw mpesaError(
+                    `M-Pesa did not confirm payment ${callback.CheckoutRequestID}: ${confirmed.resultDesc}`,
+                    409
+                );
+            }
+        }
+
+        return prisma.$transaction(async (tx) => {
+            if (callback.ResultCode === 0) {
+                return TransactionService.completePayment(
+                    transaction.id,
+                    {
+                        providerReference: valueOf("MpesaReceiptNumber")
+                            ? String(valueOf("MpesaReceiptNumber"))
+                            : undefined,
+                        metadata: payload as any,
+                    },
+                    tx
+                );
+            }
+
+            return TransactionService.updatePaymentStatus(
+                transaction.id,
+                TransactionStatus.FAILED,
+                { reason: callback.ResultDesc, metadata: payload as any },
+                tx
+            );
+        });
+    },
+};
+
+export default MpesaService;
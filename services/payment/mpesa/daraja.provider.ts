@@ -0,0 +1,167 @@
+import { format } from "date-fns";
+import mpesaConfig from "../../../config/mpesa.config";
+import {
+    MpesaProvider,
+    StkPushRequest,
+    StkPushResponse,
+    StkQueryResponse,
+} from "./mpesa.types";
+
+const BASE_URLS = {
+    sandbox: "https://sandbox.safaricom.co.ke",
+    production: "https://api.safaricom.co.ke",
+};
+
+// Error Daraja returns from a status query while the prompt is unanswered
+const STILL_PROCESSING_CODE = "500.001.1001";
+
+// Access tokens are valid for an hour; refresh a minute early
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+const providerError = (message: string) => {
+    const err = new Error(`M-Pesa: ${message}`);
+    (err as any).status = 502;
+    return err;
+};
+
+const getAccessToken = async (): Promise<string> => {
+    if (cachedToken && cachedToken.expiresAt > Date.now()) {
+        return cachedToken.value;
+    }
+
+    const credentials = Buffer.from(
+        `${mpesaConfig.consumerKey}:${mpesaConfig.consumerSecret}`
+    ).toString("base64");
+
+    const response = await fetch(
+        `${
+            BASE_URLS[mpesaConfig.environment]
+        }/oauth/v1/generate?grant_type=client_credentials`,
+        { headers: { Authorization: `Basic ${credentials}` } }
+    );
+    if (!response.ok) {
+        throw providerError(`authentication failed (${response.status})`);
+    }
+
+    const body = (await response.json()) as {
+        access_token: string;
+        expires_in: string;
+    };
+    cachedToken = {
+        value: body.access_token,
+        expiresAt: Date.now() + (parseInt(body.expires_in) - 60) * 1000,
+    };
+    return cachedToken.value;
+};
+
+// Password and timestamp sent with STK push requests and queries
+const stkCredentials = () => {
+    const timestamp = format(new Date(), "yyyyMMddHHmmss");
+    const password = Buffer.from(
+        `${mpesaConfig.shortCode}${mpesaConfig.passkey}${timestamp}`
+    ).toString("base64");
+    return { password, timestamp };
+};
+
+/**
+ * Safaricom Daraja API provider
+ */
+const darajaProvider: MpesaProvider = {
+    name: "daraja",
+
+    initiateStkPush: async (
+        request: StkPushRequest
+    ): Promise<StkPushResponse> => {
+        const token = await getAccessToken();
+        const { password, timestamp } = stkCredentials();
+
+        const callbackUrl = new URL(mpesaConfig.callbackUrl);
+        if (mpesaConfig.callbackToken) {
+            callbackUrl.searchParams.set("token", mpesaConfig.callbackToken);
+        }
+
+        const response = await fetch(
+            `${
+                BASE_URLS[mpesaConfig.environment]
+            }/mpesa/stkpush/v1/processrequest`,
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    BusinessShortCode: mpesaConfig.shortCode,
+                    Password: password,
+                    Timestamp: timestamp,
+                    TransactionType: "CustomerPayBillOnline",
+                    Amount: request.amount,
+                    PartyA: request.phone,
+                    PartyB: mpesaConfig.shortCode,
+                    PhoneNumber: request.phone,
+                    CallBackURL: callbackUrl.toString(),
+                    AccountReference: request.accountReference.slice(0, 12),
+                    TransactionDesc: request.description.slice(0, 13),
+                }),
+            }
+        );
+
+        const body = (await response.json().catch(() => ({}))) as any;
+        if (!response.ok || body.ResponseCode !== "0") {
+            throw providerError(
+                body.errorMessage ||
+                    body.ResponseDescription ||
+                    `STK push failed (${response.status})`
+            );
+        }
+
+        return {
+            merchantRequestId: body.MerchantRequestID,
+            checkoutRequestId: body.CheckoutRequestID,
+            customerMessage: body.CustomerMessage,
+        };
+    },
+
+    queryStkPush: async (
+        checkoutRequestId: string
+    ): Promise<StkQueryResponse> => {
+        const token = await getAccessToken();
+        const { password, timestamp } = stkCredentials();
+
+        const response = await fetch(
+            `${BASE_URLS[mpesaConfig.environment]}/mpesa/stkpushquery/v1/query`,
+            {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    BusinessShortCode: mpesaConfig.shortCode,
+                    Password: password,
+                    Timestamp: timestamp,
+                    CheckoutRequestID: checkoutRequestId,
+                }),
+            }
+        );
+
+        const body = (await response.json().catch(() => ({}))) as any;
+        if (body.errorCode === STILL_PROCESSING_CODE) {
+            return { resultCode: null, resultDesc: body.errorMessage };
+        }
+        if (!response.ok || body.ResponseCode !== "0") {
+            throw providerError(
+                body.errorMessage ||
+                    body.ResponseDescription ||
+                    `STK query failed (${response.status})`
+            );
+        }
+
+        return {
+            resultCode: Number(body.ResultCode),
+            resultDesc: body.ResultDesc,
+        };
+    },
+};
+
+export default darajaProvider;
@@ -0,0 +1,100 @@
+import { v4 as uuid } from "uuid";
+import {
+    MpesaProvider,
+    StkCallbackPayload,
+    StkPushRequest,
+    StkPushResponse,
+    StkQueryResponse,
+} from "./mpesa.types";
+
+// Requests made through the fake, kept so callbacks can be simulated
+const requests = new Map<string, StkPushRequest>();
+
+// Simulated customer answers, reported back by status queries
+const results = new Map<string, StkQueryResponse>();
+
+/**
+ * Offline stand-in for Daraja. STK pushes always succeed and the
+ * customer's response is simulated with buildCallback.
+ */
+const fakeProvider: MpesaProvider & {
+    buildCallback(
+        checkoutRequestId: string,
+        success: boolean
+    ): StkCallbackPayload;
+} = {
+    name: "fake",
+
+    initiateStkPush: async (
+        request: StkPushRequest
+    ): Promise<StkPushResponse> => {
+        const checkoutRequestId = `ws_CO_FAKE_${uuid()}`;
+        requests.set(checkoutRequestId, request);
+
+        return {
+            merchantRequestId: `FAKE-${uuid()}`,
+            checkoutRequestId,
+            customerMessage: "Success. Request accepted for processing",
+        };
+    },
+
+    queryStkPush: async (
+        checkoutRequestId: string
+    ): Promise<StkQueryResponse> => {
+        return (
+            results.get(checkoutRequestId) || {
+                resultCode: null,
+                resultDesc: "The transaction is being processed",
+            }
+        );
+    },
+
+    /**
+     * Build the callback Safaricom would send for a request
+     */
+    buildCallback: (
+        checkoutRequestId: string,
+        success: boolean
+    ): StkCallbackPayload => {
+        const request = requests.get(checkoutRequestId);
+        if (request) {
+            results.set(checkoutRequestId, {
+                resultCode: success ? 0 : 1032,
+                resultDesc: success ? "Success" : "Request cancelled by user",
+            });
+        }
+
+        return {
+            Body: {
+                stkCallback: {
+                    MerchantRequestID: `FAKE-${uuid()}`,
+                    CheckoutRequestID: checkoutRequestId,
+                    ResultCode: success ? 0 : 1032,
+                    ResultDesc: success
+                        ? "The service request is processed successfully."
+                        : "Request cancelled by user",
+                    ...(success && {
+                        CallbackMetadata: {
+                            Item: [
+                                { Name: "Amount", Value: request?.amount },
+                                {
+                                    Name: "MpesaReceiptNumber",
+                                    Value: `FAKE${Date.now()
+                                        .toString(36)
+                                        .toUpperCase()}`,
+                                },
+                                {
+                                    Name: "TransactionDate",
+                                    Value: Date.now(),
+                                },
+                                { Name: "PhoneNumber", Value: request?.phone },
+                            ],
+                        },
+                    }),
+                },
+            },
+        };
+    },
+};
+
+export default fakeProvider;
@@ -0,0 +1,45 @@
+export interface StkPushRequest {
+    phone: string; // MSISDN in 2547XXXXXXXX format
+    amount: number; // Whole shillings
+    accountReference: string;
+    description: string;
+}
+
+export interface StkPushResponse {
+    merchantRequestId: string;
+    checkoutRequestId: string;
+    customerMessage: string;
+}
+
+/**
+ * Callback body posted by Safaricom once the customer completes or
+ * abandons the STK prompt
+ */
+export interface StkCallbackPayload {
+    Body: {
+        stkCallback: {
+            MerchantRequestID: string;
+            CheckoutRequestID: string;
+            ResultCode: number;
+            ResultDesc: string;
+            CallbackMetadata?: {
+                Item: Array<{ Name: string; Value?: string | number }>;
+            };
+        };
+    };
+}
+
+/**
+ * Result of an STK push as reported by the provider's status query.
+ * resultCode is null while the customer has not answered yet.
+ */
+export interface StkQueryResponse {
+    resultCode: number | null;
+    resultDesc: string;
+}
+
+export interface MpesaProvider {
+    name: string;
+    initiateStkPush(request: StkPushRequest): Promise<StkPushResponse>;
+    queryStkPush(checkoutRequestId: string): Promise<StkQueryResponse>;
+}
@@ -0,0 +1,317 @@
+import jwt from "jsonwebtoken";
+import { prisma } from "../../utils/prisma";
+import paymentConfig from "../../config/payment.config";
+import emailController from "../../controllers/users/email.controller";
+import { logEvents } from "../../middleware/logger";
+import { roundMoney } from "../order/pricing.service";
+import { PREPAID_METHODS } from "../product/reservation.service";
+
+// Orders handled per run, so a backlog is worked through over several runs
+const BATCH_SIZE = 50;
+
+const PAYMENT_LINK_PURPOSE = "order-payment";
+
+interface PaymentLinkPayload {
+    purpose: typeof PAYMENT_LINK_PURPOSE;
+    orderId: number;
+    customerId: number;
+}
+
+export interface RecoveryReportFilters {
+    storeId?: number;
+    dateFrom?: Date;
+    dateTo?: Date;
+}
+
+const reminderError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const PaymentReminderService = {
+    /**
+     * Build the signed "complete payment" link for an order. The link
+     * expires with the order's reservation if that comes first, since the
+     * order is cancelled then.
+     */
+    createPaymentLink: (
+        order: {
+            id: number;
+            customerId: number;
+            reservationExpiresAt?: Date | null;
+        },
+        now: Date = new Date()
+    ) => {
+        const payload: PaymentLinkPayload = {
+            purpose: PAYMENT_LINK_PURPOSE,
+            orderId: order.id,
+            customerId: order.customerId,
+        };
+        let ttlSeconds = paymentConfig.reminders.linkTtlHours * 3600;
+        if (order.reservationExpiresAt) {
+            ttlSeconds = Math.min(
+                ttlSeconds,
+                Math.floor(
+                    (order.reservationExpiresAt.getTime() - now.getTime()) /
+                        1000
+                )
+            );
+        }
+        const token = jwt.sign(payload, paymentConfig.reminders.linkSecret, {
+            expiresIn: Math.max(ttlSeconds, 1),
+        });
+        return `${paymentConfig.reminders.linkUrl}?token=${token}`;
+    },
+
+    /**
+     * Check a payment link token and return the order it was issued for
+     */
+    verifyPaymentLink: (token: string) => {
+        let payload: PaymentLinkPayload;
+        try {
+            payload = jwt.verify(
+                token,
+                paymentConfig.reminders.linkSecret
+            ) as PaymentLinkPayload;
+        } catch (err) {
+            throw reminderError("This payment link is invalid or expired", 403);
+        }
+        if (payload.purpose !== PAYMENT_LINK_PURPOSE) {
+            throw reminderError("This payment link is invalid or expired", 403);
+        }
+        return { orderId: payload.orderId, customerId: payload.customerId };
+    },
+
+    /**
+     * Get the order a payment link was issued for, with what is still owed
+     */
+    getLinkedOrder: async (token: string) => {
+        const { orderId, customerId } =
+            PaymentReminderService.verifyPaymentLink(token);
+
+        const order = await prisma.order.findFirst({
+            where: { id: orderId, customerId },
+            select: {
+                id: true,
+                orderNumber: true,
+                status: true,
+                paymentMethod: true,
+                paid: true,
+                totalAmount: true,
+                paidAmount: true,
+                placedAt: true,
+                reservationExpiresAt: true,
+                items: {
+                    select: {
+                        quantity: true,
+                        price: true,
+                        variant: { select: { name: true, sku: true } },
+                    },
+                },
+            },
+        });
+        if (!order) {
+            throw reminderError("Order not found", 404);
+        }
+
+        return {
+            ...order,
+            outstanding: roundMoney(
+                Math.max(order.totalAmount - order.paidAmount, 0)
+            ),
+        };
+    },
+
+    /**
+     * Email a payment reminder for unpaid PENDING orders paid online that
+     * are older than PAYMENT_REMINDER_AFTER_MINUTES. Each order gets at
+     * most PAYMENT_REMINDER_MAX reminders, PAYMENT_REMINDER_INTERVAL_HOURS
+     * apart. Each reminder extends the order's reservation by one interval,
+     * so the order is not cancelled before the customer can act on it or
+     * the next reminder is due. Returns the number of reminders sent.
+     */
+    sendDueReminders: async (now: Date = new Date()): Promise<number> => {
+        const { afterMinutes, intervalHours, maxPerOrder } =
+            paymentConfig.reminders;
+
+        const due = await prisma.order.findMany({
+            where: {
+                status: "PENDING",
+                paid: false,
+                paymentMethod: { in: PREPAID_METHODS },
+                placedAt: {
+                    lte: new Date(now.getTime() - afterMinutes * 60000),
+                },
+                paymentReminders: { lt: maxPerOrder },
+                customer: { email: { not: null } },
+                AND: [
+                    {
+                        OR: [
+                            { lastReminderAt: null },
+                            {
+                                lastReminderAt: {
+                                    lte: new Date(
+                                        now.getTime() - intervalHours * 3600000
+                                    ),
+                                },
+                            },
+                        ],
+                    },
+                    // Orders about to be released by the sweeper can no
+                    // longer be paid
+                    {
+                        OR: [
+                            { reservationExpiresAt: null },
+                            { reservationExpiresAt: { gt: now } },
+                        ],
+                    },
+                ],
+            },
+            include: { customer: { select: { name: true, email: true } } },
+            orderBy: { placedAt: "asc" },
+            take: BATCH_SIZE,
+        });
+
+        let sent = 0;
+        for (const order of due) {
+            const heldUntil = new Date(now.getTime() + intervalHours * 3600000);
+            const reservationExpiresAt =
+                order.reservationExpiresAt &&
+                order.reservationExpiresAt < heldUntil
+                    ? heldUntil
+                    : order.reservationExpiresAt;
+
+            // Claim the reminder first so overlapping runs never send twice.
+            // A failed send still counts, so a bad address is not retried
+            // forever.
+            const claimed = await prisma.order.updateMany({
+                where: {
+                    id: order.id,
+                    status: "PENDING",
+                    paid: false,
+                    paymentReminders: order.paymentReminders,
+                },
+                data: {
+                    paymentReminders: { increment: 1 },
+                    lastReminderAt: now,
+                    reservationExpiresAt,
+                    ...(!order.firstReminderAt && { firstReminderAt: now }),
+                },
+            });
+            if (claimed.count === 0) continue;
+
+            const outstanding = roundMoney(
+                order.totalAmount - order.paidAmount
+            );
+
+            try {
+                await emailController.paymentReminder({
+                    name: order.customer.name || undefined,
+                    email: order.customer.email!,
+                    orderNumber: order.orderNumber,
+                    amount: `${paymentConfig.currency} ${outstanding.toFixed(
+                        2
+                    )}`,
+                    link: PaymentReminderService.createPaymentLink(
+                        { ...order, reservationExpiresAt },
+                        now
+                    ),
+                });
+                sent++;
+            } catch (err: any) {
+                logEvents(
+                    `Payment reminder for order ${order.orderNumber} failed: ${err.message}`,
+                    "errLog.log"
+                );
+            }
+        }
+
+        return sent;
+    },
+
+    /**
+     * Compare what was paid on reminded orders after their first reminder
+     * (recovered) with what was still owed on those cancelled (lost) or
+     * still waiting. Payments made before the first reminder are not
+     * credited to the reminders.
+     */
+    getRecoveryReport: async (filters: RecoveryReportFilters = {}) => {
+        const orders = await prisma.order.findMany({
+            where: {
+                paymentReminders: { gt: 0 },
+                ...(filters.storeId && { storeId: filters.storeId }),
+                ...((filters.dateFrom || filters.dateTo) && {
+                    placedAt: {
+                        ...(filters.dateFrom && { gte: filters.dateFrom }),
+                        ...(filters.dateTo && { lte: filters.dateTo }),
+                    },
+                }),
+            },
+            select: {
+                status: true,
+                totalAmount: true,
+                paymentReminders: true,
+                firstReminderAt: true,
+                lastReminderAt: true,
+                transactions: {
+                    where: { type: "PAYMENT", status: "SUCCESS" },
+                    select: { amount: true, createdAt: true },
+                },
+            },
+        });
+
+        const bucket = () => ({ orders: 0, value: 0, remindersSent: 0 });
+        const recovered = bucket();
+        const lost = bucket();
+        const pending = bucket();
+
+        for (const order of orders) {
+            const remindedAt = order.firstReminderAt ?? order.lastReminderAt;
+            let paidBefore = 0;
+            let paidAfter = 0;
+            for (const payment of order.transactions) {
+                if (remindedAt && payment.createdAt >= remindedAt) {
+                    paidAfter += payment.amount;
+                } else {
+                    paidBefore += payment.amount;
+                }
+            }
+
+            let target: typeof recovered;
+            let value = Math.max(order.totalAmount - paidBefore, 0);
+            if (paidAfter > 0) {
+                target = recovered;
+                value = paidAfter;
+            } else if (order.status === "CANCELLED") {
+                target = lost;
+            } else if (order.status === "PENDING") {
+                target = pending;
+            } else {
+                continue;
+            }
+            target.orders++;
+            target.value += value;
+            target.remindersSent += order.paymentReminders;
+        }
+
+        for (const summary of [recovered, lost, pending]) {
+            summary.value = roundMoney(summary.value);
+        }
+
+        const settled = recovered.value + lost.value;
+        return {
+            recovered,
+            lost,
+            pending,
+            remindersSent:
+                recovered.remindersSent +
+                lost.remindersSent +
+                pending.remindersSent,
+            recoveryRate:
+                settled > 0 ? roundMoney((recovered.value / settled) * 100) : 0,
+        };
+    },
+};
+
+export default PaymentReminderService;
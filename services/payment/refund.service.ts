@@ -0,0 +1,463 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma, Transaction } from "../../generated/prisma/client";
+import { roundMoney } from "../order/pricing.service";
+import TransactionService, { TransactionStatus } from "./transaction.service";
+import { getGateway, hasGateway } from "./gateway.registry";
+
+export interface RefundItemInput {
+    orderItemId: number;
+    quantity: number;
+}
+
+export interface CreateRefundData {
+    amount?: number; // Defaults to the item total, or the full balance
+    items?: RefundItemInput[];
+    reason?: string;
+    returnRequestId?: number;
+}
+
+// Tolerance used when comparing refund amounts to the refundable balance
+const AMOUNT_TOLERANCE = 0.01;
+
+// Refunds that count against the balance: completed or still in progress
+const LIVE_STATUSES: string[] = [
+    TransactionStatus.SUCCESS,
+    TransactionStatus.PENDING,
+];
+
+const refundError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+/**
+ * Lock the order's row so concurrent refunds see each other's reservations
+ */
+const lockOrder = async (tx: Prisma.TransactionClient, orderId: number) => {
+    await tx.$queryRaw`
+        SELECT "id" FROM "Order" WHERE "id" = ${orderId} FOR UPDATE
+    `;
+};
+
+/**
+ * Bring the order's refunded total, and the returns its refunds settle,
+ * in line with the refunds that completed
+ */
+const syncRefunds = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    returnRequestIds: number[] = []
+) => {
+    const balance = await TransactionService.getBalance(orderId, tx);
+    await tx.order.update({
+        where: { id: orderId },
+        data: {
+            refundedAmount: balance.refunded,
+            // An order stops counting as paid once everything is refunded
+            ...(balance.captured - balance.refunded <= AMOUNT_TOLERANCE && {
+                paid: false,
+            }),
+        },
+    });
+
+    for (const returnRequestId of new Set(returnRequestIds)) {
+        const refunds = await tx.transaction.findMany({
+            where: { returnRequestId, type: "REFUND" },
+            select: { status: true },
+        });
+        const settled =
+            refunds.some((r) => r.status === TransactionStatus.SUCCESS) &&
+            !refunds.some((r) => r.status === TransactionStatus.PENDING);
+        if (settled) {
+            await tx.returnRequest.updateMany({
+                where: { id: returnRequestId, status: "RECEIVED" },
+                data: { status: "REFUNDED", refundedAt: new Date() },
+            });
+        }
+    }
+};
+
+/**
+ * Reserve a refund inside an existing database transaction. The order is
+ * locked while the refundable balance is checked, and the refund is
+ * split across the captured gateway payments, newest first. Gateway
+ * refunds and M-Pesa refunds (reversed by hand) are created PENDING and
+ * count against the balance until they are settled; payments recorded
+ * by hand are refunded outside the system and recorded as SUCCESS.
+ */
+const reserveRefund = async (
+    tx: Prisma.TransactionClient,
+    orderId: number,
+    data: CreateRefundData,
+    userId?: number
+) => {
+    await lockOrder(tx, orderId);
+
+    const order = await tx.order.findUnique({
+        where: { id: orderId },
+        include: {
+            items: {
+                include: {
+                    refundItems: {
+                        where: {
+                            transaction: { status: { in: LIVE_STATUSES } },
+                        },
+                    },
+                },
+            },
+        },
+    });
+    if (!order) {
+        throw refundError("Order not found", 404);
+    }
+
+    const balance = await TransactionService.getBalance(order.id, tx);
+    if (balance.refundable <= 0) {
+        throw refundError("This order has no captured payment left to refund");
+    }
+
+    let items = data.items;
+
+    if (data.returnRequestId) {
+        const returnRequest = await tx.returnRequest.findUnique({
+            where: { id: data.returnRequestId },
+            include: {
+                items: true,
+                refunds: {
+                    where: { status: TransactionStatus.PENDING },
+                    select: { id: true },
+                },
+            },
+        });
+        if (!returnRequest || returnRequest.orderId !== order.id) {
+            throw refundError(
+                `Return request ${data.returnRequestId} not found for this order`,
+                404
+            );
+        }
+        if (returnRequest.status !== "RECEIVED") {
+            throw refundError(
+                `Return request must be RECEIVED before it is refunded (currently ${returnRequest.status})`,
+                409
+            );
+        }
+        if (returnRequest.refunds.length) {
+            throw refundError(
+                "A refund for this return is already in progress",
+                409
+            );
+        }
+
+        // Refund what was received back unless items were given
+        items =
+            items ||
+            returnRequest.items
+                .filter((item) => item.receivedQuantity > 0)
+                .map((item) => ({
+                    orderItemId: item.orderItemId,
+                    quantity: item.receivedQuantity,
+                }));
+    }
+
+    // Item amounts carry their share of the order discount and tax;
+    // shipping is only refunded through an explicit amount
+    const factor =
+        order.subtotal > 0
+            ? (order.subtotal - order.discountAmount + order.taxAmount) /
+              order.subtotal
+            : 1;
+
+    const refundItems: Array<RefundItemInput & { amount: number }> = [];
+    for (const input of items || []) {
+        const orderItem = order.items.find((i) => i.id === input.orderItemId);
+        if (!orderItem) {
+            throw refundError(
+                `Item with ID ${input.orderItemId} not found in order`
+            );
+        }
+
+        const alreadyRefunded = orderItem.refundItems.reduce(
+            (sum, r) => sum + r.quantity,
+            0
+        );
+        if (input.quantity > orderItem.quantity - alreadyRefunded) {
+            throw refundError(
+                `Only ${
+                    orderItem.quantity - alreadyRefunded
+                } of item ${orderItem.id} can still be refunded`
+            );
+        }
+
+        refundItems.push({
+            ...input,
+            amount: roundMoney(orderItem.price * input.quantity * factor),
+        });
+    }
+
+    const itemTotal = roundMoney(
+        refundItems.reduce((sum, item) => sum + item.amount, 0)
+    );
+    const amount = roundMoney(
+        data.amount ?? (refundItems.length > 0 ? itemTotal : balance.refundable)
+    );
+
+    if (amount <= 0) {
+        throw refundError("Refund amount must be greater than zero");
+    }
+    if (amount > balance.refundable + AMOUNT_TOLERANCE) {
+        throw refundError(
+            `Refund of ${amount} exceeds the refundable balance of ${balance.refundable}`
+        );
+    }
+
+    // Card and PayPal money goes back through the gateways that captured
+    // it, each payment refunded up to what is left of it
+    const parts: Array<{ amount: number; providerTxId?: string }> = [];
+    let remaining = roundMoney(Math.min(amount, balance.refundable));
+    if (hasGateway(order.paymentMethod)) {
+        const [payments, refunds] = await Promise.all([
+            tx.transaction.findMany({
+                where: {
+                    orderId: order.id,
+                    type: "PAYMENT",
+                    method: order.paymentMethod,
+                    status: TransactionStatus.SUCCESS,
+                    providerTxId: { not: null },
+                },
+                orderBy: { createdAt: "desc" },
+            }),
+            tx.transaction.findMany({
+                where: {
+                    orderId: order.id,
+                    type: "REFUND",
+                    status: { in: LIVE_STATUSES },
+                    providerTxId: { not: null },
+                },
+            }),
+        ]);
+
+        for (const payment of payments) {
+            if (remaining <= 0) break;
+            const refunded = refunds
+                .filter((r) => r.providerTxId === payment.providerTxId)
+                .reduce((sum, r) => sum + r.amount, 0);
+            const part = roundMoney(
+                Math.min(payment.amount - refunded, remaining)
+            );
+            if (part <= 0) continue;
+            parts.push({ amount: part, providerTxId: payment.providerTxId! });
+            remaining = roundMoney(remaining - part);
+        }
+    }
+    if (remaining > 0) parts.push({ amount: remaining });
+
+    const created = [];
+    for (const [index, part] of parts.entries()) {
+        const pending =
+            !!part.providerTxId || order.paymentMethod === "MPESAEXPRESS";
+        created.push(
+            await tx.transaction.create({
+                data: {
+                    orderId: order.id,
+                    type: "REFUND",
+                    amount: part.amount,
+                    method: order.paymentMethod,
+                    status: pending
+                        ? TransactionStatus.PENDING
+                        : TransactionStatus.SUCCESS,
+                    providerTxId: part.providerTxId,
+                    reason: data.reason,
+                    userId,
+                    returnRequestId: data.returnRequestId,
+                    // Items are recorded once, on the first part
+                    ...(index === 0 && {
+                        refundItems: { create: refundItems },
+                    }),
+                },
+                include: { refundItems: true },
+            })
+        );
+    }
+
+    await syncRefunds(
+        tx,
+        order.id,
+        data.returnRequestId ? [data.returnRequestId] : []
+    );
+    return created;
+};
+
+/**
+ * Send pending gateway refunds to their gateways, outside any database
+ * transaction, and mark each SUCCESS or FAILED with the outcome.
+ * M-Pesa refunds are left PENDING until staff resolve them.
+ */
+const settleRefunds = async (refunds: Transaction[]) => {
+    for (const refund of refunds) {
+        if (
+            refund.status !== TransactionStatus.PENDING ||
+            !refund.providerTxId ||
+            !hasGateway(refund.method)
+        ) {
+            continue;
+        }
+
+        const payment = await prisma.transaction.findFirstOrThrow({
+            where: {
+                orderId: refund.orderId,
+                type: "PAYMENT",
+                providerTxId: refund.providerTxId,
+                status: TransactionStatus.SUCCESS,
+            },
+        });
+
+        let result: {
+            status: string;
+            providerReference?: string;
+            reason?: string;
+        };
+        try {
+            const response = await getGateway(refund.method).refund(
+                {
+                    providerTxId: payment.providerTxId!,
+                    providerReference: payment.providerReference,
+                },
+                refund.amount
+            );
+            result = {
+                status: TransactionStatus.SUCCESS,
+                providerReference: response.providerReference,
+            };
+        } catch (err: any) {
+            result = { status: TransactionStatus.FAILED, reason: err.message };
+        }
+
+        await prisma.transaction.updateMany({
+            where: { id: refund.id, status: TransactionStatus.PENDING },
+            data: result,
+        });
+    }
+
+    const orderIds = [...new Set(refunds.map((r) => r.orderId))];
+    for (const orderId of orderIds) {
+        await prisma.$transaction(async (tx) => {
+            await lockOrder(tx, orderId);
+            await syncRefunds(
+                tx,
+                orderId,
+                refunds
+                    .filter((r) => r.orderId === orderId && r.returnRequestId)
+                    .map((r) => r.returnRequestId!)
+            );
+        });
+    }
+
+    return prisma.transaction.findMany({
+        where: { id: { in: refunds.map((r) => r.id) } },
+        include: { refundItems: true },
+        orderBy: { id: "asc" },
+    });
+};
+
+const RefundService = {
+    /**
+     * Get refunds issued against an order, newest first
+     */
+    getRefunds: async (orderId: number) => {
+        return prisma.transaction.findMany({
+            where: { orderId, type: "REFUND" },
+            include: {
+                refundItems: true,
+                user: { select: { id: true, name: true } },
+            },
+            orderBy: { createdAt: "desc" },
+        });
+    },
+
+    /**
+     * Refund an order in full or in part, by amount or per item.
+     * Refunds can never exceed the captured payments on the order.
+     * Throws a 502 error if a gateway refused its part; parts that went
+     * through stay refunded.
+     */
+    createRefund: async (
+        orderId: number,
+        data: CreateRefundData,
+        userId?: number
+    ) => {
+        const reserved = await prisma.$transaction((tx) =>
+            reserveRefund(tx, orderId, data, userId)
+        );
+        const refunds = await settleRefunds(reserved);
+
+        const failed = refunds.find(
+            (r) => r.status === TransactionStatus.FAILED
+        );
+        if (failed) {
+            throw refundError(`Refund failed: ${failed.reason}`, 502);
+        }
+        return refunds;
+    },
+
+    /**
+     * Reserve a refund inside a caller's database transaction. The
+     * returned refunds must be passed to settleRefunds once it commits.
+     */
+    startRefund: reserveRefund,
+
+    settleRefunds,
+
+    /**
+     * Record the outcome of a pending refund completed outside the
+     * system, e.g. an M-Pesa reversal, or one whose gateway result was lost
+     */
+    resolveRefund: async (
+        orderId: number,
+        refundId: number,
+        data: {
+            status: "SUCCESS" | "FAILED";
+            providerReference?: string;
+            reason?: string;
+        }
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await lockOrder(tx, orderId);
+
+            const refund = await tx.transaction.findUnique({
+                where: { id: refundId },
+            });
+            if (
+                !refund ||
+                refund.orderId !== orderId ||
+                refund.type !== "REFUND"
+            ) {
+                throw refundError("Refund not found for this order", 404);
+            }
+            if (refund.status !== TransactionStatus.PENDING) {
+                throw refundError(
+                    `Only pending refunds can be resolved (currently ${refund.status})`,
+                    409
+                );
+            }
+
+            const resolved = await tx.transaction.update({
+                where: { id: refundId },
+                data: {
+                    status: TransactionStatus[data.status],
+                    providerReference: data.providerReference,
+                    ...(data.reason && { reason: data.reason }),
+                },
+                include: { refundItems: true },
+            });
+            await syncRefunds(
+                tx,
+                orderId,
+                refund.returnRequestId ? [refund.returnRequestId] : []
+            );
+            return resolved;
+        });
+    },
+};
+
+export default RefundService;
@@ -0,0 +1,252 @@
+import { prisma } from "../../utils/prisma";
+import {
+    PaymentMethod,
+    Prisma,
+    PrismaClient,
+} from "../../generated/prisma/client";
+import { roundMoney } from "../order/pricing.service";
+import { logEvents } from "../../middleware/logger";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// Values stored in Transaction.status
+export const TransactionStatus = {
+    PENDING: "PENDING", // Waiting on the customer or provider
+    AUTHORIZED: "AUTHORIZED", // Funds held, not yet captured
+    SUCCESS: "SUCCESS", // Captured (payments) or completed (refunds)
+    FAILED: "FAILED",
+    VOIDED: "VOIDED", // Authorization released without capture
+} as const;
+
+export type TransactionStatusValue =
+    (typeof TransactionStatus)[keyof typeof TransactionStatus];
+
+// Payment statuses that can still move forward
+const OPEN_STATUSES: string[] = [
+    TransactionStatus.PENDING,
+    TransactionStatus.AUTHORIZED,
+];
+
+export interface OrderBalance {
+    captured: number; // Successful payments
+    refunded: number; // Successful refunds
+    pending: number; // Refunds still waiting on a gateway or staff
+    refundable: number; // What can still be refunded
+}
+
+// Tolerance used when checking whether an order is fully paid
+const AMOUNT_TOLERANCE = 0.01;
+
+// Left on payments that complete after their order was cancelled
+const LATE_PAYMENT_REASON =
+    "Received after the order was cancelled; refund required";
+
+/**
+ * Add a captured amount to the order's paid balance. The order is marked
+ * paid once the balance covers its total, its coupons count as used and
+ * its stock reservation no longer expires. Cancelled orders are never
+ * marked paid; their payments are left for staff to refund.
+ */
+const applyPayment = async (orderId: number, amount: number, db: Db) => {
+    const order = await db.order.update({
+        where: { id: orderId },
+        data: { paidAmount: { increment: amount } },
+        include: { coupons: true },
+    });
+
+    if (
+        order.paid ||
+        order.status === "CANCELLED" ||
+        order.paidAmount < order.totalAmount - AMOUNT_TOLERANCE
+    ) {
+        return order;
+    }
+
+    // Paid orders keep their stock reservation until they are processed
+    await db.order.update({
+        where: { id: orderId },
+        data: { paid: true, reservationExpiresAt: null },
+    });
+
+    for (const oc of order.coupons) {
+        await db.couponUsage.upsert({
+            where: {
+                couponId_customerId_orderId: {
+                    couponId: oc.couponId,
+                    customerId: order.customerId,
+                    orderId: order.id,
+                },
+            },
+            update: {},
+            create: {
+                couponId: oc.couponId,
+                customerId: order.customerId,
+                orderId: order.id,
+            },
+        });
+    }
+    return order;
+};
+
+const TransactionService = {
+    /**
+     * Get all transactions recorded against an order, newest first
+     */
+    getOrderTransactions: async (orderId: number, db: Db = prisma) => {
+        return db.transaction.findMany({
+            where: { orderId },
+            include: { refundItems: true },
+            orderBy: { createdAt: "desc" },
+        });
+    },
+
+    /**
+     * Work out how much has been captured and refunded on an order
+     * from its successful transactions. Pending refunds are already
+     * taken out of what is refundable.
+     */
+    getBalance: async (
+        orderId: number,
+        db: Db = prisma
+    ): Promise<OrderBalance> => {
+        const totals = await db.transaction.groupBy({
+            by: ["type", "status"],
+            where: {
+                orderId,
+                OR: [
+                    { status: TransactionStatus.SUCCESS },
+                    { type: "REFUND", status: TransactionStatus.PENDING },
+                ],
+            },
+            _sum: { amount: true },
+        });
+        const sumFor = (type: "PAYMENT" | "REFUND", status: string) =>
+            roundMoney(
+                totals.find((t) => t.type === type && t.status === status)
+                    ?._sum.amount || 0
+            );
+
+        const captured = sumFor("PAYMENT", TransactionStatus.SUCCESS);
+        const refunded = sumFor("REFUND", TransactionStatus.SUCCESS);
+        const pending = sumFor("REFUND", TransactionStatus.PENDING);
+        return {
+            captured,
+            refunded,
+            pending,
+            refundable: roundMoney(
+                Math.max(captured - refunded - pending, 0)
+            ),
+        };
+    },
+
+    /**
+     * Record a successful payment and add it to the order's paid balance
+     */
+    recordPayment: async (
+        orderId: number,
+        data: {
+            amount: number;
+            method: PaymentMethod;
+            providerTxId?: string;
+            reason?: string;
+        },
+        db: Db = prisma
+    ) => {
+        const transaction = await db.transaction.create({
+            data: {
+                orderId,
+                type: "PAYMENT",
+                amount: roundMoney(data.amount),
+                method: data.method,
+                status: TransactionStatus.SUCCESS,
+                providerTxId: data.providerTxId,
+                reason: data.reason,
+            },
+        });
+
+        await applyPayment(orderId, transaction.amount, db);
+        return transaction;
+    },
+
+    /**
+     * Mark an open payment successful and apply it to the order.
+     * Transactions that are no longer open are returned unchanged, so
+     * repeated provider callbacks are harmless. Payments for cancelled
+     * orders are flagged for refund instead of marking the order paid.
+     */
+    completePayment: async (
+        transactionId: number,
+        data: {
+            amount?: number; // Amount confirmed by the provider
+            providerReference?: string;
+            metadata?: Prisma.InputJsonValue;
+        },
+        db: Db = prisma
+    ) => {
+        const pending = await db.transaction.updateMany({
+            where: { id: transactionId, status: { in: OPEN_STATUSES } },
+            data: {
+                status: TransactionStatus.SUCCESS,
+                ...(data.amount !== undefined && {
+                    amount: roundMoney(data.amount),
+                }),
+                providerReference: data.providerReference,
+                metadata: data.metadata,
+            },
+        });
+
+        const transaction = await db.transaction.findUniqueOrThrow({
+            where: { id: transactionId },
+        });
+        if (pending.count === 0) return transaction;
+
+        const order = await applyPayment(
+            transaction.orderId,
+            transaction.amount,
+            db
+        );
+        if (order.status !== "CANCELLED") return transaction;
+
+        // Money taken for a cancelled order, e.g. a prompt answered after
+        // the reservation expired, is flagged for refund
+        logEvents(
+            `Payment ${transaction.id} of ${transaction.amount} received for cancelled order ${order.orderNumber}; refund required`,
+            "paymentLog.log"
+        );
+        return db.transaction.update({
+            where: { id: transactionId },
+            data: { reason: LATE_PAYMENT_REASON },
+        });
+    },
+
+    /**
+     * Move an open payment to AUTHORIZED, FAILED or VOIDED. Payments that
+     * already reached a final status are returned unchanged.
+     */
+    updatePaymentStatus: async (
+        transactionId: number,
+        status: Exclude<TransactionStatusValue, "SUCCESS" | "PENDING">,
+        data: {
+            reason?: string;
+            providerReference?: string;
+            metadata?: Prisma.InputJsonValue;
+        } = {},
+        db: Db = prisma
+    ) => {
+        await db.transaction.updateMany({
+            where: { id: transactionId, status: { in: OPEN_STATUSES } },
+            data: {
+                status,
+                reason: data.reason,
+                providerReference: data.providerReference,
+                metadata: data.metadata,
+            },
+        });
+
+        return db.transaction.findUniqueOrThrow({
+            where: { id: transactionId },
+        });
+    },
+};
+
+export default TransactionService;
@@ -1,8 +1,16 @@
 import { prisma } from "../../utils/prisma";
 import { StockStatus } from "../../generated/prisma/client";
+import WishlistService from "../customer/wishlist.service";
+import {
+    StoreScope,
+    assertAllStores,
+    assertStoreInScope,
+    scopedStoreId,
+} from "../../utils/storeScope";
 
 const InventoryService = {
-    // Update variant pricing and SKU only
+    // Update variant pricing and SKU only, alerting wishlist watchers
+    // when the selling price drops
     updateVariantInventory: async (
         variantId: number,
         data: {
@@ -10,18 +18,34 @@ const InventoryService = {
             salePrice?: number;
             wholesalePrice?: number;
             wholesaleQty?: number;
+            weight?: number;
             sku?: string;
-        }
+        },
+        scope?: StoreScope
     ) => {
-        return await prisma.productVariant.update({
-            where: { id: variantId },
-            data: {
-                price: data.price,
-                salePrice: data.salePrice,
-                wholesalePrice: data.wholesalePrice,
-                wholesaleQty: data.wholesaleQty,
-                sku: data.sku,
-            },
+        // Prices apply in every store
+        assertAllStores(scope);
+
+        return await prisma.$transaction(async (tx) => {
+            const current = await tx.productVariant.findUniqueOrThrow({
+                where: { id: variantId },
+            });
+
+            const updated = await tx.productVariant.update({
+                where: { id: variantId },
+                data: {
+                    price: data.price,
+                    salePrice: data.salePrice,
+                    wholesalePrice: data.wholesalePrice,
+                    wholesaleQty: data.wholesaleQty,
+                    weight: data.weight,
+                    sku: data.sku,
+                },
+            });
+
+            await WishlistService.notifyIfPriceDropped(tx, current, updated);
+
+            return updated;
         });
     },
 
@@ -36,8 +60,11 @@ const InventoryService = {
             userId?: number; // Who is making the change
             reason?: string; // Why the change is being made
             notes?: string; // Additional notes
-        }
+        },
+        scope?: StoreScope
     ) => {
+        assertStoreInScope(scope, storeId);
+
         // Convert stockStatus string to enum
         const stockStatusEnum =
             (data.stockStatus as keyof typeof StockStatus) in StockStatus
@@ -77,6 +104,14 @@ const InventoryService = {
             }
             // For 'set', finalQuantity is already data.quantity
 
+            // Units held for unpaid orders must stay on hand
+            const reserved = currentStock?.reserved || 0;
+            if (finalQuantity < reserved) {
+                throw new Error(
+                    `Cannot reduce stock below the ${reserved} units reserved for orders`
+                );
+            }
+
             // Update or create stock record
             const updatedStock = await tx.storeVariantStock.upsert({
                 where: {
@@ -129,14 +164,22 @@ const InventoryService = {
                 });
             }
 
+            // Tell wishlist watchers when the variant comes back in stock
+            await WishlistService.notifyIfRestocked(
+                tx,
+                variantId,
+                finalQuantity - previousQuantity
+            );
+
             return updatedStock;
         });
     },
 
-    // Get stock for a variant across all stores
-    getVariantStock: async (variantId: number) => {
-        return await prisma.storeVariantStock.findMany({
-            where: { variantId },
+    // Get stock for a variant across all stores, split into on-hand,
+    // reserved (held for unpaid orders) and available
+    getVariantStock: async (variantId: number, scope?: StoreScope) => {
+        const stock = await prisma.storeVariantStock.findMany({
+            where: { variantId, storeId: scopedStoreId(scope) },
             include: {
                 store: {
                     select: {
@@ -146,10 +189,22 @@ const InventoryService = {
                 },
             },
         });
+
+        return stock.map((entry) => ({
+            ...entry,
+            onHand: entry.quantity,
+            reserved: entry.reserved,
+            available: entry.quantity - entry.reserved,
+        }));
     },
 
     // Get stock for a specific variant in a specific store
-    getStockByStore: async (variantId: number, storeId: number) => {
+    getStockByStore: async (
+        variantId: number,
+        storeId: number,
+        scope?: StoreScope
+    ) => {
+        assertStoreInScope(scope, storeId);
         return await prisma.storeVariantStock.findUnique({
             where: {
                 storeId_variantId: {
@@ -167,12 +222,14 @@ const InventoryService = {
             storeId?: number;
             limit?: number;
             offset?: number;
-        }
+        },
+        scope?: StoreScope
     ) => {
+        const storeId = scopedStoreId(scope, options?.storeId);
         return await prisma.stockMovement.findMany({
             where: {
                 variantId,
-                ...(options?.storeId && { storeId: options.storeId }),
+                ...(storeId && { storeId }),
             },
             include: {
                 user: {
@@ -211,8 +268,10 @@ const InventoryService = {
             offset?: number;
             startDate?: Date;
             endDate?: Date;
-        }
+        },
+        scope?: StoreScope
     ) => {
+        assertStoreInScope(scope, storeId);
         return await prisma.stockMovement.findMany({
             where: {
                 storeId,
@@ -257,10 +316,11 @@ const InventoryService = {
         options?: {
             limit?: number;
             offset?: number;
-        }
+        },
+        scope?: StoreScope
     ) => {
         return await prisma.stockMovement.findMany({
-            where: { userId },
+            where: { userId, storeId: scopedStoreId(scope) },
             include: {
                 variant: {
                     select: {
@@ -295,8 +355,11 @@ const InventoryService = {
             reason: string;
             notes?: string;
             stockStatus?: string;
-        }
+        },
+        scope?: StoreScope
     ) => {
+        assertStoreInScope(scope, storeId);
+
         const stockStatusEnum = metadata.stockStatus
             ? (metadata.stockStatus as keyof typeof StockStatus) in StockStatus
                 ? StockStatus[metadata.stockStatus as keyof typeof StockStatus]
@@ -350,6 +413,14 @@ const InventoryService = {
                 }
                 // For 'set', finalQuantity is already item.quantity
 
+                // Units held for unpaid orders must stay on hand
+                const reserved = currentStock?.reserved || 0;
+                if (finalQuantity < reserved) {
+                    throw new Error(
+                        `Cannot reduce stock of variant ${item.variantId} below the ${reserved} units reserved for orders`
+                    );
+                }
+
                 // Determine stock status based on final quantity
                 const finalStockStatus =
                     finalQuantity === 0
@@ -396,6 +467,12 @@ const InventoryService = {
                     },
                 });
 
+                await WishlistService.notifyIfRestocked(
+                    tx,
+                    item.variantId,
+                    finalQuantity - previousQuantity
+                );
+
                 results.push(updatedStock);
             }
 
@@ -415,12 +492,14 @@ const InventoryService = {
             endDate?: Date;
             limit?: number;
             offset?: number;
-        } = {}
+        } = {},
+        scope?: StoreScope
     ) => {
         const where: any = {};
+        const storeId = scopedStoreId(scope, filters.storeId);
 
         if (filters.userId) where.userId = filters.userId;
-        if (filters.storeId) where.storeId = filters.storeId;
+        if (storeId) where.storeId = storeId;
         if (filters.adjustmentType)
             where.adjustmentType = filters.adjustmentType;
 
@@ -468,9 +547,12 @@ const InventoryService = {
     },
 
     // Get stock adjustment by ID
-    getStockAdjustmentById: async (adjustmentId: number) => {
+    getStockAdjustmentById: async (
+        adjustmentId: number,
+        scope?: StoreScope
+    ) => {
         return await prisma.stockAdjustment.findUnique({
-            where: { id: adjustmentId },
+            where: { id: adjustmentId, storeId: scopedStoreId(scope) },
             include: {
                 user: {
                     select: {
@@ -511,9 +593,12 @@ const InventoryService = {
             offset?: number;
             startDate?: Date;
             endDate?: Date;
-        } = {}
+        } = {},
+        scope?: StoreScope
     ) => {
         const where: any = { userId };
+        const storeId = scopedStoreId(scope);
+        if (storeId) where.storeId = storeId;
 
         if (options.startDate || options.endDate) {
             where.createdAt = {};
@@ -566,8 +651,10 @@ const InventoryService = {
             offset?: number;
             startDate?: Date;
             endDate?: Date;
-        } = {}
+        } = {},
+        scope?: StoreScope
     ) => {
+        assertStoreInScope(scope, storeId);
         const where: any = { storeId };
 
         if (options.startDate || options.endDate) {
@@ -620,12 +707,14 @@ const InventoryService = {
             storeId?: number;
             startDate?: Date;
             endDate?: Date;
-        } = {}
+        } = {},
+        scope?: StoreScope
     ) => {
         const where: any = {};
+        const storeId = scopedStoreId(scope, filters.storeId);
 
         if (filters.userId) where.userId = filters.userId;
-        if (filters.storeId) where.storeId = filters.storeId;
+        if (storeId) where.storeId = storeId;
 
         if (filters.startDate || filters.endDate) {
             where.createdAt = {};
@@ -4,6 +4,7 @@ import {
     ProductStatus,
     PromotionStatus,
 } from "../../generated/prisma/client";
+import { StoreScope, assertStoreInScope } from "../../utils/storeScope";
 
 const ProductService = {
     findAll: async () => {
@@ -229,7 +230,9 @@ const ProductService = {
      * Get all products (variants) available in a specific store
      * - Variants: via StoreVariantStock, include parent product
      */
-    getProductsByStore: async (storeId: number) => {
+    getProductsByStore: async (storeId: number, scope?: StoreScope) => {
+        assertStoreInScope(scope, storeId);
+
         // Get variants with stock in this store, including their parent product
         const variantStocks = await prisma.storeVariantStock.findMany({
             where: { storeId },
@@ -262,7 +265,8 @@ const ProductService = {
         const unifiedVariants = variantStocks.map((vs) => ({
             id: vs.variant.product.id,
             name: vs.variant.product.name,
-            stockQty: vs.variant.stock[0]?.quantity ?? 0,
+            // Sellable stock: units held for unpaid orders are excluded
+            stockQty: Math.max(vs.quantity - vs.reserved, 0),
             price: vs.variant.price,
             variantId: vs.variant.id,
             brand: vs.variant.product.brand,
@@ -0,0 +1,264 @@
+import { prisma } from "../../utils/prisma";
+import { PaymentMethod, Prisma } from "../../generated/prisma/client";
+
+// Online payments must complete within this window before the order
+// is cancelled and its stock released
+const RESERVATION_TTL_MINUTES =
+    parseInt(process.env.RESERVATION_TTL_MINUTES || "") || 30;
+
+// Expired orders are kept this long after a payment was started, so a
+// customer answering a prompt at the last moment is not cancelled
+const PAYMENT_GRACE_MINUTES =
+    parseInt(process.env.RESERVATION_PAYMENT_GRACE_MINUTES || "") || 15;
+
+// Methods paid up front; other methods keep their reservation until the
+// order is processed or cancelled
+export const PREPAID_METHODS: PaymentMethod[] = [
+    "MPESAEXPRESS",
+    "CARD",
+    "PAYPAL",
+];
+
+interface ReservedOrder {
+    id: number;
+    orderNumber: string;
+    storeId: number | null;
+    items: Array<{ variantId: number; quantity: number }>;
+}
+
+const StockReservationService = {
+    /**
+     * When a reservation for an order paid with this method expires
+     */
+    expiryFor: (method: PaymentMethod, from: Date = new Date()) =>
+        PREPAID_METHODS.includes(method)
+            ? new Date(from.getTime() + RESERVATION_TTL_MINUTES * 60 * 1000)
+            : null,
+
+    /**
+     * Hold stock for new order lines. On-hand quantity is untouched; the
+     * movement's previous/new quantities are the available stock.
+     */
+    reserve: async (
+        tx: Prisma.TransactionClient,
+        order: {
+            orderNumber: string;
+            storeId: number;
+            customerId: number;
+            lines: Array<{ variantId: number; name: string; quantity: number }>;
+        }
+    ) => {
+        for (const line of order.lines) {
+            const stock = await tx.storeVariantStock.findUnique({
+                where: {
+                    storeId_variantId: {
+                        storeId: order.storeId,
+                        variantId: line.variantId,
+                    },
+                },
+            });
+            const available = stock ? stock.quantity - stock.reserved : 0;
+
+            if (!stock || available < line.quantity) {
+                throw new Error(`Insufficient stock for variant ${line.name}`);
+            }
+
+            // Guard against a concurrent reservation taking the same units
+            const reserved = await tx.storeVariantStock.updateMany({
+                where: { id: stock.id, reserved: stock.reserved },
+                data: { reserved: { increment: line.quantity } },
+            });
+            if (reserved.count === 0) {
+                throw new Error(`Insufficient stock for variant ${line.name}`);
+            }
+
+            await tx.stockMovement.create({
+                data: {
+                    variantId: line.variantId,
+                    storeId: order.storeId,
+                    customerId: order.customerId,
+                    orderId: null, // Will be updated after order creation
+                    operation: "reserve",
+                    quantity: line.quantity,
+                    previousQuantity: available,
+                    newQuantity: available - line.quantity,
+                    reason: `Order ${order.orderNumber}`,
+                },
+            });
+        }
+    },
+
+    /**
+     * Give an order's reserved stock back to available stock
+     */
+    release: async (
+        tx: Prisma.TransactionClient,
+        order: ReservedOrder,
+        reason: string
+    ) => {
+        const storeId = order.storeId || 1;
+
+        for (const item of order.items) {
+            const stock = await tx.storeVariantStock.findUnique({
+                where: {
+                    storeId_variantId: { storeId, variantId: item.variantId },
+                },
+            });
+            if (!stock) continue;
+
+            const released = Math.min(item.quantity, stock.reserved);
+            const available = stock.quantity - stock.reserved;
+
+            await tx.storeVariantStock.update({
+                where: { id: stock.id },
+                data: { reserved: { decrement: released } },
+            });
+
+            await tx.stockMovement.create({
+                data: {
+                    variantId: item.variantId,
+                    storeId,
+                    orderId: order.id,
+                    operation: "release",
+                    quantity: released,
+                    previousQuantity: available,
+                    newQuantity: available + released,
+                    reason,
+                },
+            });
+        }
+
+        await tx.order.update({
+            where: { id: order.id },
+            data: { stockReserved: false, reservationExpiresAt: null },
+        });
+    },
+
+    /**
+     * Turn an order's reservation into a real stock decrement once the
+     * order goes into fulfilment
+     */
+    commit: async (tx: Prisma.TransactionClient, order: ReservedOrder) => {
+        const storeId = order.storeId || 1;
+
+        for (const item of order.items) {
+            const stock = await tx.storeVariantStock.findUnique({
+                where: {
+                    storeId_variantId: { storeId, variantId: item.variantId },
+                },
+            });
+            if (!stock) continue;
+
+            await tx.storeVariantStock.update({
+                where: { id: stock.id },
+                data: {
+                    quantity: { decrement: item.quantity },
+                    reserved: {
+                        decrement: Math.min(item.quantity, stock.reserved),
+                    },
+                },
+            });
+
+            await tx.stockMovement.create({
+                data: {
+                    variantId: item.variantId,
+                    storeId,
+                    orderId: order.id,
+                    operation: "decrement",
+                    quantity: item.quantity,
+                    previousQuantity: stock.quantity,
+                    newQuantity: stock.quantity - item.quantity,
+                    reason: `Order ${order.orderNumber} fulfilled`,
+                },
+            });
+        }
+
+        await tx.order.update({
+            where: { id: order.id },
+            data: { stockReserved: false, reservationExpiresAt: null },
+        });
+    },
+
+    /**
+     * Cancel unpaid PENDING orders whose reservation has expired and
+     * release their stock. Returns the number of orders released.
+     */
+    releaseExpired: async (now: Date = new Date()): Promise<number> => {
+        // Leave orders with funds on hold for staff to settle, and orders
+        // whose payment was started recently
+        const noOpenPayment: Prisma.OrderWhereInput = {
+            transactions: {
+                none: {
+                    OR: [
+                        { status: "AUTHORIZED" },
+                        {
+                            type: "PAYMENT",
+                            status: "PENDING",
+                            createdAt: {
+                                gte: new Date(
+                                    now.getTime() -
+                                        PAYMENT_GRACE_MINUTES * 60 * 1000
+                                ),
+                            },
+                        },
+                    ],
+                },
+            },
+        };
+
+        const expired = await prisma.order.findMany({
+            where: {
+                status: "PENDING",
+                paid: false,
+                stockReserved: true,
+                reservationExpiresAt: { lt: now },
+                ...noOpenPayment,
+            },
+            select: { id: true },
+        });
+
+        let released = 0;
+        for (const { id } of expired) {
+            await prisma.$transaction(async (tx) => {
+                // Re-check inside the transaction in case it was just paid
+                const claimed = await tx.order.updateMany({
+                    where: {
+                        id,
+                        status: "PENDING",
+                        paid: false,
+                        stockReserved: true,
+                        ...noOpenPayment,
+                    },
+                    data: { status: "CANCELLED" },
+                });
+                if (claimed.count === 0) return;
+
+                const order = await tx.order.findUniqueOrThrow({
+                    where: { id },
+                    include: { items: true },
+                });
+
+                await StockReservationService.release(
+                    tx,
+                    order,
+                    `Order ${order.orderNumber} reservation expired`
+                );
+
+                await tx.orderStatusHistory.create({
+                    data: {
+                        orderId: id,
+                        fromStatus: "PENDING",
+                        toStatus: "CANCELLED",
+                        note: "Payment not received before the reservation expired",
+                    },
+                });
+
+                released++;
+            });
+        }
+
+        return released;
+    },
+};
+
+export default StockReservationService;
@@ -0,0 +1,31 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma } from "../../generated/prisma/client";
+
+const ShippingLocationService = {
+    findAll: async () => {
+        return prisma.shippingLocation.findMany({
+            include: { zone: true },
+            orderBy: { name: "asc" },
+        });
+    },
+    findById: async (id: number) => {
+        return prisma.shippingLocation.findUnique({
+            where: { id },
+            include: { zone: true },
+        });
+    },
+    create: async (data: Prisma.ShippingLocationUncheckedCreateInput) => {
+        return prisma.shippingLocation.create({ data });
+    },
+    update: async (
+        id: number,
+        data: Prisma.ShippingLocationUncheckedUpdateInput
+    ) => {
+        return prisma.shippingLocation.update({ where: { id }, data });
+    },
+    delete: async (id: number) => {
+        return prisma.shippingLocation.delete({ where: { id } });
+    },
+};
+
+export default ShippingLocationService;
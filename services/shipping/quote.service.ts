@@ -0,0 +1,146 @@
+import { prisma } from "../../utils/prisma";
+import {
+    Prisma,
+    PrismaClient,
+    ShippingChargeType,
+    ShippingRule,
+    ShippingRuleType,
+} from "../../generated/prisma/client";
+import { roundMoney } from "../order/pricing.service";
+
+type Db = Prisma.TransactionClient | PrismaClient;
+
+// A location with this name matches any address not covered by another zone
+export const CATCH_ALL_LOCATION = "*";
+
+export interface ShippingDestination {
+    county: string;
+    city?: string;
+}
+
+export interface ShippingQuote {
+    zoneId: number;
+    zoneName: string;
+    ruleId: number;
+    ruleType: ShippingRuleType;
+    chargeType: ShippingChargeType;
+    amount: number;
+}
+
+const shippingError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const normalize = (value?: string | null) => (value || "").trim().toLowerCase();
+
+/**
+ * Work out the charge a rule gives for an order amount
+ */
+const chargeFor = (rule: ShippingRule, orderAmount: number): number => {
+    switch (rule.chargeType) {
+        case "FREE":
+            return 0;
+        case "FIXED":
+            return roundMoney(rule.amount || 0);
+        case "PERCENTAGE":
+            return roundMoney((orderAmount * (rule.amount || 0)) / 100);
+        default:
+            return 0;
+    }
+};
+
+const ShippingQuoteService = {
+    /**
+     * Resolve a destination to a shipping zone. A city match wins over a
+     * county match, which wins over the catch-all location.
+     */
+    resolveZone: async (destination: ShippingDestination, db: Db = prisma) => {
+        const city = normalize(destination.city);
+        const county = normalize(destination.county);
+
+        const locations = await db.shippingLocation.findMany({
+            include: { zone: { include: { rules: true } } },
+        });
+
+        const byName = (name: string) =>
+            name
+                ? locations.find((loc) => normalize(loc.name) === name)
+                : undefined;
+
+        const location =
+            byName(city) || byName(county) || byName(CATCH_ALL_LOCATION);
+
+        return location?.zone || null;
+    },
+
+    /**
+     * Quote shipping for an order going to a destination.
+     * AMOUNT rules match on the order amount and WEIGHT rules on the total
+     * weight (kg); when several rules match, the cheapest charge is used.
+     */
+    quote: async (
+        destination: ShippingDestination,
+        order: { amount: number; weight: number },
+        db: Db = prisma
+    ): Promise<ShippingQuote> => {
+        const zone = await ShippingQuoteService.resolveZone(destination, db);
+        if (!zone) {
+            throw shippingError(
+                `We do not deliver to ${
+                    destination.city || destination.county
+                } yet`
+            );
+        }
+
+        const candidates = zone.rules
+            .filter((rule) => {
+                const value =
+                    rule.ruleType === "WEIGHT" ? order.weight : order.amount;
+                return value >= rule.minValue && value <= rule.maxValue;
+            })
+            .map((rule) => ({ rule, amount: chargeFor(rule, order.amount) }))
+            .sort((a, b) => a.amount - b.amount);
+
+        if (candidates.length === 0) {
+            throw shippingError(
+                `No shipping rate is available in zone ${zone.name} for this order`
+            );
+        }
+
+        const { rule, amount } = candidates[0];
+        return {
+            zoneId: zone.id,
+            zoneName: zone.name,
+            ruleId: rule.id,
+            ruleType: rule.ruleType,
+            chargeType: rule.chargeType,
+            amount,
+        };
+    },
+
+    /**
+     * Quote shipping to a saved customer address
+     */
+    quoteForAddress: async (
+        addressId: number,
+        order: { amount: number; weight: number },
+        db: Db = prisma
+    ): Promise<ShippingQuote> => {
+        const address = await db.address.findUnique({
+            where: { id: addressId },
+        });
+        if (!address) {
+            throw shippingError(`Address with ID ${addressId} not found`, 404);
+        }
+
+        return ShippingQuoteService.quote(
+            { county: address.county, city: address.city },
+            order,
+            db
+        );
+    },
+};
+
+export default ShippingQuoteService;
@@ -0,0 +1,58 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma } from "../../generated/prisma/client";
+
+const ruleError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const ShippingRuleService = {
+    findAll: async () => {
+        return prisma.shippingRule.findMany({
+            include: { zone: true },
+            orderBy: [{ zoneId: "asc" }, { minValue: "asc" }],
+        });
+    },
+    findById: async (id: number) => {
+        return prisma.shippingRule.findUnique({
+            where: { id },
+            include: { zone: true },
+        });
+    },
+    create: async (data: Prisma.ShippingRuleUncheckedCreateInput) => {
+        return prisma.shippingRule.create({ data });
+    },
+    /**
+     * Update a rule, checking the range and amount as they will be saved:
+     * fields left out of the update keep their current values.
+     */
+    update: async (
+        id: number,
+        data: Partial<Prisma.ShippingRuleUncheckedCreateInput>
+    ) => {
+        const rule = await prisma.shippingRule.findUnique({ where: { id } });
+        if (!rule) throw ruleError(`Shipping rule with ID ${id} not found`, 404);
+
+        const merged = { ...rule, ...data };
+        if (merged.minValue > merged.maxValue) {
+            throw ruleError("minValue must be less than or equal to maxValue");
+        }
+        if (
+            (merged.chargeType === "FIXED" ||
+                merged.chargeType === "PERCENTAGE") &&
+            merged.amount == null
+        ) {
+            throw ruleError(
+                "amount is required for FIXED and PERCENTAGE rules"
+            );
+        }
+
+        return prisma.shippingRule.update({ where: { id }, data });
+    },
+    delete: async (id: number) => {
+        return prisma.shippingRule.delete({ where: { id } });
+    },
+};
+
+export default ShippingRuleService;
@@ -0,0 +1,33 @@
+import { prisma } from "../../utils/prisma";
+import { Prisma } from "../../generated/prisma/client";
+
+const ShippingZoneService = {
+    findAll: async () => {
+        return prisma.shippingZone.findMany({
+            include: { locations: true, rules: true },
+            orderBy: { name: "asc" },
+        });
+    },
+    findById: async (id: number) => {
+        return prisma.shippingZone.findUnique({
+            where: { id },
+            include: { locations: true, rules: true },
+        });
+    },
+    create: async (data: Prisma.ShippingZoneCreateInput) => {
+        return prisma.shippingZone.create({ data });
+    },
+    update: async (id: number, data: Prisma.ShippingZoneUpdateInput) => {
+        return prisma.shippingZone.update({ where: { id }, data });
+    },
+    delete: async (id: number) => {
+        // 🔒 Remove the zone together with its locations and rules
+        return prisma.$transaction(async (tx) => {
+            await tx.shippingLocation.deleteMany({ where: { zoneId: id } });
+            await tx.shippingRule.deleteMany({ where: { zoneId: id } });
+            return tx.shippingZone.delete({ where: { id } });
+        });
+    },
+};
+
+export default ShippingZoneService;
@@ -0,0 +1,335 @@
+import crypto from "crypto";
+import { prisma } from "../../utils/prisma";
+import {
+    Action,
+    PermissionScope,
+    Prisma,
+} from "../../generated/prisma/client";
+import {
+    isAdminRole,
+    registeredPermissions,
+} from "../../config/permissions.config";
+import PermissionService from "./permission.service";
+
+const KEY_PREFIX = "ak_";
+
+// Characters of the key kept in clear, "ak_" and 8 more
+const DISPLAY_PREFIX_LENGTH = 11;
+
+// lastUsedAt is rewritten at most this often, so a busy integration does
+// not write on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyInput {
+    name: string;
+    roleId?: number;
+    permissions?: { resource: string; actions: Action[] }[];
+    storeId?: number;
+    expiresAt?: Date;
+}
+
+// The staff user creating a key, as set by verifyJWT and requirePermission
+export interface ApiKeyCreator {
+    id: number | null;
+    roleId: number;
+    storeId: number | null;
+    storeScope?: number; // Set when their apiKeys:create is own-store only
+}
+
+// What verifyJWT and the RBAC middleware need to know about a key
+export interface ApiKeyAccess {
+    id: number;
+    name: string;
+    roleId: number | null;
+    storeId: number | null;
+    createdById: number | null;
+    grants: Map<string, PermissionScope> | null; // Null to use the role's as is
+}
+
+const apiKeyError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+const hashKey = (key: string) =>
+    crypto.createHash("sha256").update(key).digest("hex");
+
+// Never includes the key hash
+const apiKeySelect = {
+    id: true,
+    name: true,
+    prefix: true,
+    storeId: true,
+    lastUsedAt: true,
+    lastUsedIp: true,
+    expiresAt: true,
+    revokedAt: true,
+    createdAt: true,
+    role: { select: { id: true, name: true } },
+    store: { select: { id: true, name: true } },
+    createdBy: { select: { id: true, name: true, email: true } },
+    permissions: {
+        select: {
+            scope: true,
+            permission: { select: { resource: true, action: true } },
+        },
+    },
+} satisfies Prisma.ApiKeySelect;
+
+// Narrow a key's grants to what its creator holds now, so a key stops
+// working for permissions the creator has lost, and a role key does not
+// pick up permissions added to its role that the creator never had.
+// Returns null when the key can use its role's grants as they are.
+const grantsWithinCreator = async (
+    keyGrants: Map<string, PermissionScope> | null,
+    roleId: number | null,
+    creatorRoleId: number | null
+): Promise<Map<string, PermissionScope> | null> => {
+    const creator = creatorRoleId
+        ? await PermissionService.getRoleAccess(creatorRoleId)
+        : null;
+    if (creatorRoleId && !creator) return new Map();
+    if (!creator || isAdminRole(creator.name)) return keyGrants;
+
+    let grants = keyGrants;
+    if (!grants && roleId) {
+        const role = await PermissionService.getRoleAccess(roleId);
+        if (!role) return new Map();
+        // Only an admin creator can hand out the admin role; for anyone
+        // else it is worth no more than their own grants
+        grants = isAdminRole(role.name) ? creator.grants : role.grants;
+    }
+
+    const narrowed = new Map<string, PermissionScope>();
+    for (const [key, scope] of grants ?? []) {
+        const held = creator.grants.get(key);
+        if (!held) continue;
+        narrowed.set(key, held === PermissionScope.OWN_STORE ? held : scope);
+    }
+    return narrowed;
+};
+
+const ApiKeyService = {
+    /**
+     * Create a key with a role's permissions or its own list, optionally
+     * limited to one store. A creator can only hand out permissions they
+     * hold, and a creator limited to their store only creates keys for
+     * it. The key itself is only returned here; just its hash is stored.
+     */
+    create: async (input: ApiKeyInput, creator: ApiKeyCreator) => {
+        if (input.roleId && input.permissions) {
+            throw apiKeyError("Give either roleId or permissions, not both");
+        }
+
+        const creatorAccess = await PermissionService.getRoleAccess(
+            creator.roleId
+        );
+        if (!creatorAccess) throw apiKeyError("Role not found", 403);
+        const creatorIsAdmin = isAdminRole(creatorAccess.name);
+
+        // "resource:action" keys the new key would be granted
+        let requested: string[] = [];
+
+        if (input.roleId) {
+            const role = await PermissionService.getRoleAccess(input.roleId);
+            if (!role) {
+                throw apiKeyError(
+                    `Role with ID ${input.roleId} not found`,
+                    404
+                );
+            }
+            if (isAdminRole(role.name) && !creatorIsAdmin) {
+                throw apiKeyError(
+                    "Only admins can create keys with the admin role",
+                    403
+                );
+            }
+            requested = [...role.grants.keys()];
+        }
+        if (input.storeId) {
+            const store = await prisma.store.findFirst({
+                where: { id: input.storeId, deletedAt: null },
+            });
+            if (!store) {
+                throw apiKeyError(
+                    `Store with ID ${input.storeId} not found`,
+                    404
+                );
+            }
+        }
+
+        const desired = (input.permissions ?? []).flatMap((p) =>
+            p.actions.map((action) => ({ resource: p.resource, action }))
+        );
+        const known = new Set(
+            registeredPermissions().map((p) => `${p.resource}:${p.action}`)
+        );
+        const unknown = desired
+            .map((p) => `${p.resource}:${p.action}`)
+            .filter((key) => !known.has(key));
+        if (unknown.length) {
+            throw apiKeyError(`Unknown permissions: ${unknown.join(", ")}`);
+        }
+        requested.push(...desired.map((p) => `${p.resource}:${p.action}`));
+
+        let storeId = input.storeId;
+        if (!creatorIsAdmin) {
+            const missing = requested.filter(
+                (key) => !creatorAccess.grants.has(key)
+            );
+            if (missing.length) {
+                throw apiKeyError(
+                    `You cannot grant permissions you do not have: ${missing.join(", ")}`,
+                    403
+                );
+            }
+
+            // Own-store grants can only be passed on for the same store
+            const storeLimited =
+                creator.storeScope !== undefined ||
+                requested.some(
+                    (key) =>
+                        creatorAccess.grants.get(key) ===
+                        PermissionScope.OWN_STORE
+                );
+            if (storeLimited) {
+                if (!creator.storeId) {
+                    throw apiKeyError(
+                        "Your permissions are limited to your store, but you are not assigned to one",
+                        403
+                    );
+                }
+                if (storeId && storeId !== creator.storeId) {
+                    throw apiKeyError(
+                        "You can only create keys for your own store",
+                        403
+                    );
+                }
+                storeId = creator.storeId;
+            }
+        }
+
+        const permissions = desired.length
+            ? await prisma.permission.findMany({ where: { OR: desired } })
+            : [];
+
+        const key =
+            KEY_PREFIX + crypto.randomBytes(32).toString("base64url");
+        const apiKey = await prisma.apiKey.create({
+            data: {
+                name: input.name,
+                prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+                keyHash: hashKey(key),
+                roleId: input.roleId,
+                storeId,
+                createdById: creator.id,
+                expiresAt: input.expiresAt,
+                permissions: {
+                    // The creator's own scope for each permission
+                    create: permissions.map((p) => ({
+                        permissionId: p.id,
+                        scope: creatorIsAdmin
+                            ? PermissionScope.ALL_STORES
+                            : creatorAccess.grants.get(
+                                  `${p.resource}:${p.action}`
+                              ),
+                    })),
+                },
+            },
+            select: apiKeySelect,
+        });
+
+        return { apiKey, key };
+    },
+
+    findAll: async () => {
+        return prisma.apiKey.findMany({
+            select: apiKeySelect,
+            orderBy: { createdAt: "desc" },
+        });
+    },
+
+    findById: async (id: number) => {
+        return prisma.apiKey.findUnique({
+            where: { id },
+            select: apiKeySelect,
+        });
+    },
+
+    /**
+     * Stop a key from working. Revoked keys stay listed for the record.
+     */
+    revoke: async (id: number) => {
+        const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+        if (!apiKey) throw apiKeyError(`API key with ID ${id} not found`, 404);
+        if (apiKey.revokedAt) {
+            throw apiKeyError("API key is already revoked", 409);
+        }
+
+        return prisma.apiKey.update({
+            where: { id },
+            data: { revokedAt: new Date() },
+            select: apiKeySelect,
+        });
+    },
+
+    /**
+     * Look up a key sent by a client. Returns null for unknown, revoked
+     * and expired keys, and for keys whose creator has been deactivated
+     * or deleted. The key's grants are limited to what its creator holds.
+     */
+    authenticate: async (
+        key: string,
+        ip: string | null
+    ): Promise<ApiKeyAccess | null> => {
+        const apiKey = await prisma.apiKey.findUnique({
+            where: { keyHash: hashKey(key) },
+            include: {
+                permissions: { include: { permission: true } },
+                createdBy: {
+                    select: { active: true, deletedAt: true, roleId: true },
+                },
+            },
+        });
+        if (!apiKey || apiKey.revokedAt) return null;
+        if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return null;
+        const creator = apiKey.createdBy;
+        if (apiKey.createdById && (!creator?.active || creator.deletedAt)) {
+            return null;
+        }
+
+        if (
+            !apiKey.lastUsedAt ||
+            apiKey.lastUsedIp !== ip ||
+            Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS
+        ) {
+            await prisma.apiKey.update({
+                where: { id: apiKey.id },
+                data: { lastUsedAt: new Date(), lastUsedIp: ip },
+            });
+        }
+
+        return {
+            id: apiKey.id,
+            name: apiKey.name,
+            roleId: apiKey.roleId,
+            storeId: apiKey.storeId,
+            createdById: apiKey.createdById,
+            grants: await grantsWithinCreator(
+                apiKey.roleId
+                    ? null
+                    : new Map(
+                          apiKey.permissions.map((kp) => [
+                              `${kp.permission.resource}:${kp.permission.action}`,
+                              kp.scope,
+                          ])
+                      ),
+                apiKey.roleId,
+                creator?.roleId ?? null
+            ),
+        };
+    },
+};
+
+export default ApiKeyService;
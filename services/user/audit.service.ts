@@ -0,0 +1,327 @@
+import crypto from "crypto";
+import { prisma } from "../../utils/prisma";
+import { Prisma } from "../../generated/prisma/client";
+
+export interface AuditEntry {
+    userId: number | null;
+    action: string;
+    entity: string;
+    entityId: string | null;
+    changes: AuditChanges | null;
+    payload: unknown;
+    status: number;
+    ip: string | null;
+    requestId: string | null;
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditFilters {
+    userId?: number;
+    entity?: string;
+    entityId?: string;
+    action?: string;
+    requestId?: string;
+    dateFrom?: Date;
+    dateTo?: Date;
+}
+
+// Body and snapshot fields that are never written to the log
+const SECRET_FIELDS = new Set(
+    [
+        "password",
+        "currentPassword",
+        "passwordToken",
+        "token",
+        "refreshToken",
+        "challengeToken",
+        "twoFactorSecret",
+        "recoveryCodes",
+        "recoveryCode",
+        "secret",
+    ].map((field) => field.toLowerCase())
+);
+
+// Fields that change on every write and say nothing about the change
+const IGNORED_CHANGES = new Set(["updatedAt"]);
+
+// Any fixed key works; it only has to be the same for every writer
+const CHAIN_LOCK_KEY = 7402231;
+
+const VERIFY_BATCH_SIZE = 500;
+
+// Entities whose before/after state is snapshotted for diffs, keyed by
+// the admin area they are changed through
+const SNAPSHOTS = {
+    users: (id: number) => prisma.user.findUnique({ where: { id } }),
+    roles: (id: number) =>
+        prisma.role.findUnique({
+            where: { id },
+            include: {
+                permissions: {
+                    select: {
+                        scope: true,
+                        permission: {
+                            select: { resource: true, action: true },
+                        },
+                    },
+                },
+            },
+        }),
+    stores: (id: number) => prisma.store.findUnique({ where: { id } }),
+    products: (id: number) => prisma.product.findUnique({ where: { id } }),
+    variants: (id: number) =>
+        prisma.productVariant.findUnique({ where: { id } }),
+    coupons: (id: number) => prisma.coupon.findUnique({ where: { id } }),
+    orders: (id: number) => prisma.order.findUnique({ where: { id } }),
+    payments: (id: number) => prisma.transaction.findUnique({ where: { id } }),
+    returns: (id: number) =>
+        prisma.returnRequest.findUnique({
+            where: { id },
+            include: { items: true },
+        }),
+    // A variant's stock in every store, keyed by store ID
+    stock: async (variantId: number) => {
+        const rows = await prisma.storeVariantStock.findMany({
+            where: { variantId },
+            orderBy: { storeId: "asc" },
+        });
+        return rows.length
+            ? Object.fromEntries(rows.map((row) => [row.storeId, row]))
+            : null;
+    },
+    shippingZones: (id: number) =>
+        prisma.shippingZone.findUnique({ where: { id } }),
+    shippingLocations: (id: number) =>
+        prisma.shippingLocation.findUnique({ where: { id } }),
+    shippingRules: (id: number) =>
+        prisma.shippingRule.findUnique({ where: { id } }),
+};
+
+export type AuditEntity = keyof typeof SNAPSHOTS;
+
+/**
+ * Plain JSON copy of a value with secret fields removed. Dates and
+ * Decimals become strings, as they would once stored.
+ */
+const sanitize = (value: unknown): unknown => {
+    if (value === undefined) return null;
+    const json = JSON.parse(JSON.stringify(value));
+
+    const strip = (node: any): any => {
+        if (Array.isArray(node)) return node.map(strip);
+        if (node && typeof node === "object") {
+            return Object.fromEntries(
+                Object.entries(node)
+                    .filter(([key]) => !SECRET_FIELDS.has(key.toLowerCase()))
+                    .map(([key, child]) => [key, strip(child)])
+            );
+        }
+        return node;
+    };
+    return strip(json);
+};
+
+// JSON with sorted keys; Postgres reorders jsonb keys, so hashes are
+// computed over this form to survive the round trip
+const canonical = (value: unknown): string => {
+    if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+    if (value && typeof value === "object") {
+        const entries = Object.keys(value)
+            .sort()
+            .map(
+                (key) =>
+                    `${JSON.stringify(key)}:${canonical((value as any)[key])}`
+            );
+        return `{${entries.join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+};
+
+const hashEntry = (
+    prevHash: string | null,
+    entry: AuditEntry,
+    createdAt: Date
+): string =>
+    crypto
+        .createHash("sha256")
+        .update(
+            canonical({
+                ...entry,
+                prevHash,
+                createdAt: createdAt.toISOString(),
+            })
+        )
+        .digest("hex");
+
+const jsonOrNull = (value: unknown) =>
+    value === null ? Prisma.DbNull : (value as Prisma.InputJsonValue);
+
+const AuditService = {
+    /**
+     * Current state of an entity, without secrets, or null if it does
+     * not exist
+     */
+    snapshot: async (entity: AuditEntity, id: number) => {
+        const record = await SNAPSHOTS[entity](id);
+        return sanitize(record) as Record<string, unknown> | null;
+    },
+
+    /**
+     * Fields that differ between two snapshots, as { field: { from, to } }.
+     * Returns null when nothing changed.
+     */
+    diff: (
+        before: Record<string, unknown> | null,
+        after: Record<string, unknown> | null
+    ): AuditChanges | null => {
+        const changes: AuditChanges = {};
+        const fields = new Set([
+            ...Object.keys(before ?? {}),
+            ...Object.keys(after ?? {}),
+        ]);
+
+        for (const field of fields) {
+            if (IGNORED_CHANGES.has(field)) continue;
+            const from = before?.[field] ?? null;
+            const to = after?.[field] ?? null;
+            if (canonical(from) !== canonical(to)) {
+                changes[field] = { from, to };
+            }
+        }
+        return Object.keys(changes).length ? changes : null;
+    },
+
+    /**
+     * Append an entry to the log. Each entry stores the hash of the one
+     * before it, so editing or deleting a stored entry breaks the chain
+     * from that point on. Appends are serialised with an advisory lock so
+     * concurrent requests cannot fork the chain.
+     */
+    record: async (entry: AuditEntry) => {
+        const sanitized: AuditEntry = {
+            ...entry,
+            changes: sanitize(entry.changes) as AuditChanges | null,
+            payload: sanitize(entry.payload),
+        };
+
+        return prisma.$transaction(async (tx) => {
+            await tx.$executeRaw`
+                SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEY}::bigint)
+            `;
+
+            const last = await tx.auditLog.findFirst({
+                orderBy: { id: "desc" },
+                select: { hash: true },
+            });
+            const prevHash = last?.hash ?? null;
+            const createdAt = new Date();
+
+            return tx.auditLog.create({
+                data: {
+                    ...sanitized,
+                    changes: jsonOrNull(sanitized.changes),
+                    payload: jsonOrNull(sanitized.payload),
+                    prevHash,
+                    hash: hashEntry(prevHash, sanitized, createdAt),
+                    createdAt,
+                },
+            });
+        });
+    },
+
+    /**
+     * Get log entries, newest first, with filtering and pagination
+     */
+    getLogs: async (
+        filters: AuditFilters = {},
+        page: number = 1,
+        limit: number = 50
+    ) => {
+        const skip = (page - 1) * limit;
+        const where: Prisma.AuditLogWhereInput = {
+            ...(filters.userId && { userId: filters.userId }),
+            ...(filters.entity && { entity: filters.entity }),
+            ...(filters.entityId && { entityId: filters.entityId }),
+            ...(filters.action && {
+                action: { contains: filters.action, mode: "insensitive" },
+            }),
+            ...(filters.requestId && { requestId: filters.requestId }),
+            ...((filters.dateFrom || filters.dateTo) && {
+                createdAt: {
+                    ...(filters.dateFrom && { gte: filters.dateFrom }),
+                    ...(filters.dateTo && { lte: filters.dateTo }),
+                },
+            }),
+        };
+
+        const [logs, total] = await Promise.all([
+            prisma.auditLog.findMany({
+                where,
+                include: {
+                    user: { select: { id: true, name: true, email: true } },
+                },
+                orderBy: { id: "desc" },
+                skip,
+                take: limit,
+            }),
+            prisma.auditLog.count({ where }),
+        ]);
+
+        return { logs, total, pages: Math.ceil(total / limit) };
+    },
+
+    /**
+     * Recompute the chain from the first entry. Returns the ID of the
+     * first entry that was altered, or follows a deleted one. Removing
+     * the newest entries cannot be detected from the chain alone; compare
+     * lastHash with a previously recorded value for that.
+     */
+    verifyChain: async () => {
+        let prevHash: string | null = null;
+        let checked = 0;
+        let cursor = 0;
+
+        for (;;) {
+            const batch = await prisma.auditLog.findMany({
+                where: { id: { gt: cursor } },
+                orderBy: { id: "asc" },
+                take: VERIFY_BATCH_SIZE,
+            });
+            if (!batch.length) break;
+
+            for (const row of batch) {
+                const { id, hash, prevHash: storedPrev, createdAt } = row;
+                const entry: AuditEntry = {
+                    userId: row.userId,
+                    action: row.action,
+                    entity: row.entity,
+                    entityId: row.entityId,
+                    changes: row.changes as AuditChanges | null,
+                    payload: row.payload,
+                    status: row.status,
+                    ip: row.ip,
+                    requestId: row.requestId,
+                };
+                if (
+                    storedPrev !== prevHash ||
+                    hash !== hashEntry(prevHash, entry, createdAt)
+                ) {
+                    return {
+                        valid: false,
+                        checked,
+                        brokenAt: id,
+                        lastHash: null,
+                    };
+                }
+                prevHash = hash;
+                checked++;
+            }
+            cursor = batch[batch.length - 1].id;
+        }
+
+        return { valid: true, checked, brokenAt: null, lastHash: prevHash };
+    },
+};
+
+export default AuditService;
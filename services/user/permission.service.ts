@@ -1,81 +1,274 @@
 // services/permissionService.ts
-import { Prisma, Action } from "../../generated/prisma/client";
+import {
+    Prisma,
+    Action,
+    PermissionScope,
+} from "../../generated/prisma/client";
 import { prisma } from "../../utils/prisma";
+import {
+    isAdminRole,
+    registeredPermissions,
+} from "../../config/permissions.config";
+
+// What the RBAC middleware needs to know about a role
+export interface RoleAccess {
+    name: string;
+    grants: Map<string, PermissionScope>; // "resource:action" -> scope
+}
+
+// Grants given to a role, one entry per resource and scope
+export interface RolePermissionInput {
+    resource: string;
+    actions: Action[];
+    scope?: PermissionScope; // Defaults to all stores
+}
+
+const permissionError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+interface Grant {
+    resource: string;
+    action: Action;
+    scope: PermissionScope;
+}
+
+/**
+ * Check grants about to be given to a role: each must be in the registry,
+ * and a grantor who is not an admin must hold it, for every store if it
+ * is given for every store.
+ */
+const assertGrantable = (grants: Grant[], grantor: RoleAccess | null) => {
+    const known = new Set(
+        registeredPermissions().map((p) => `${p.resource}:${p.action}`)
+    );
+    const unknown = grants
+        .map((g) => `${g.resource}:${g.action}`)
+        .filter((key) => !known.has(key));
+    if (unknown.length) {
+        throw permissionError(`Unknown permissions: ${unknown.join(", ")}`);
+    }
+
+    if (grantor && isAdminRole(grantor.name)) return;
+    const missing = grants
+        .filter((g) => {
+            const held = grantor?.grants.get(`${g.resource}:${g.action}`);
+            return (
+                !held ||
+                (held === PermissionScope.OWN_STORE &&
+                    g.scope === PermissionScope.ALL_STORES)
+            );
+        })
+        .map((g) => `${g.resource}:${g.action}`);
+    if (missing.length) {
+        throw permissionError(
+            `You cannot grant permissions you do not have: ${missing.join(", ")}`,
+            403
+        );
+    }
+};
+
+// Roles' permissions are cached per process. Changes made here clear the
+// entry at once; the TTL bounds how long other processes serve stale sets.
+const ROLE_CACHE_TTL_MS = 5 * 60 * 1000;
+const roleCache = new Map<number, RoleAccess & { loadedAt: number }>();
 
 const PermissionService = {
-    syncRolePermissions: async (
+    /**
+     * Create any permission in the code registry that is missing from the
+     * database. Rows no longer in the registry are reported, not deleted,
+     * since roles may still hold them.
+     */
+    syncRegistry: async () => {
+        const registry = registeredPermissions();
+        const { count } = await prisma.permission.createMany({
+            data: registry,
+            skipDuplicates: true,
+        });
+
+        const known = new Set(registry.map((p) => `${p.resource}:${p.action}`));
+        const stale = (await prisma.permission.findMany())
+            .map((p) => `${p.resource}:${p.action}`)
+            .filter((key) => !known.has(key));
+
+        return { created: count, stale };
+    },
+
+    /**
+     * Get a role's name and granted permissions, from the cache when fresh
+     */
+    getRoleAccess: async (roleId: number): Promise<RoleAccess | null> => {
+        const cached = roleCache.get(roleId);
+        if (cached && Date.now() - cached.loadedAt < ROLE_CACHE_TTL_MS) {
+            return cached;
+        }
+
+        const role = await prisma.role.findUnique({
+            where: { id: roleId },
+            include: { permissions: { include: { permission: true } } },
+        });
+        if (!role) {
+            roleCache.delete(roleId);
+            return null;
+        }
+
+        const access = {
+            name: role.name,
+            grants: new Map(
+                role.permissions.map((rp) => [
+                    `${rp.permission.resource}:${rp.permission.action}`,
+                    rp.scope,
+                ])
+            ),
+            loadedAt: Date.now(),
+        };
+        roleCache.set(roleId, access);
+        return access;
+    },
+
+    /**
+     * Drop a role's cached permissions, or every role's
+     */
+    invalidateRoleCache: (roleId?: number) => {
+        if (roleId === undefined) roleCache.clear();
+        else roleCache.delete(roleId);
+    },
+
+    /**
+     * Replace a role's grants inside the caller's transaction. Added and
+     * widened grants are checked against the registry and the grantor's
+     * own grants (see assertGrantable). The caller clears the role's cache
+     * entry once the transaction has committed.
+     */
+    applyRolePermissions: async (
+        tx: Prisma.TransactionClient,
         roleId: number,
-        permissions: { resource: string; actions: Action[] }[]
+        permissions: RolePermissionInput[],
+        grantor: RoleAccess | null
     ) => {
-        // Flatten into [{resource, action}]
-        const desired = permissions.flatMap((p) =>
+        // Flatten into [{resource, action, scope}]
+        const desired: Grant[] = permissions.flatMap((p) =>
             p.actions.map((action) => ({
                 resource: p.resource,
                 action,
+                scope: p.scope ?? PermissionScope.ALL_STORES,
             }))
         );
 
-        // 🔒 Use a transaction to ensure ACID compliance
-        return await prisma.$transaction(async (tx) => {
-            // ✅ Ensure all permission entries exist
-            for (const { resource, action } of desired) {
-                await tx.permission.upsert({
-                    where: {
-                        resource_action: { resource, action },
-                    },
-                    update: {},
-                    create: { resource, action },
-                });
-            }
+        // ✅ Get current RolePermission list
+        const current = await tx.rolePermission.findMany({
+            where: { roleId },
+            include: { permission: true },
+        });
+
+        // Grants kept as they are, or narrowed to own store, need no check
+        const currentScope = new Map(
+            current.map((rp) => [
+                `${rp.permission.resource}:${rp.permission.action}`,
+                rp.scope,
+            ])
+        );
+        assertGrantable(
+            desired.filter((p) => {
+                const scope = currentScope.get(`${p.resource}:${p.action}`);
+                return (
+                    !scope ||
+                    (scope === PermissionScope.OWN_STORE &&
+                        p.scope === PermissionScope.ALL_STORES)
+                );
+            }),
+            grantor
+        );
 
-            // ✅ Get current RolePermission list
-            const current = await tx.rolePermission.findMany({
-                where: { roleId },
-                include: { permission: true },
+        // ✅ Ensure all permission entries exist
+        for (const { resource, action } of desired) {
+            await tx.permission.upsert({
+                where: {
+                    resource_action: { resource, action },
+                },
+                update: {},
+                create: { resource, action },
             });
+        }
+
+        const currentSet = new Set(
+            current.map(
+                (rp) => `${rp.permission.resource}:${rp.permission.action}`
+            )
+        );
 
-            const currentSet = new Set(
-                current.map(
-                    (rp) => `${rp.permission.resource}:${rp.permission.action}`
+        const desiredSet = new Set(
+            desired.map((p) => `${p.resource}:${p.action}`)
+        );
+
+        // ✅ Remove outdated permissions
+        const toRemove = current.filter(
+            (rp) =>
+                !desiredSet.has(
+                    `${rp.permission.resource}:${rp.permission.action}`
                 )
-            );
+        );
 
-            const desiredSet = new Set(
-                desired.map((p) => `${p.resource}:${p.action}`)
-            );
+        for (const rp of toRemove) {
+            await tx.rolePermission.delete({ where: { id: rp.id } });
+        }
 
-            // ✅ Remove outdated permissions
-            const toRemove = current.filter(
-                (rp) =>
-                    !desiredSet.has(
-                        `${rp.permission.resource}:${rp.permission.action}`
-                    )
+        // ✅ Re-scope kept permissions whose store scope changed
+        for (const rp of current) {
+            const wanted = desired.find(
+                (p) =>
+                    p.resource === rp.permission.resource &&
+                    p.action === rp.permission.action
             );
-
-            for (const rp of toRemove) {
-                await tx.rolePermission.delete({ where: { id: rp.id } });
+            if (wanted && wanted.scope !== rp.scope) {
+                await tx.rolePermission.update({
+                    where: { id: rp.id },
+                    data: { scope: wanted.scope },
+                });
             }
+        }
 
-            // ✅ Add missing ones
-            for (const { resource, action } of desired) {
-                if (!currentSet.has(`${resource}:${action}`)) {
-                    const permission = await tx.permission.findUnique({
-                        where: { resource_action: { resource, action } },
-                    });
+        // ✅ Add missing ones
+        for (const { resource, action, scope } of desired) {
+            if (!currentSet.has(`${resource}:${action}`)) {
+                const permission = await tx.permission.findUnique({
+                    where: { resource_action: { resource, action } },
+                });
 
-                    if (permission) {
-                        await tx.rolePermission.create({
-                            data: {
-                                roleId,
-                                permissionId: permission.id,
-                            },
-                        });
-                    }
+                if (permission) {
+                    await tx.rolePermission.create({
+                        data: {
+                            roleId,
+                            permissionId: permission.id,
+                            scope,
+                        },
+                    });
                 }
             }
+        }
 
-            return { added: desired.length, removed: toRemove.length };
-        });
+        return { added: desired.length, removed: toRemove.length };
+    },
+
+    syncRolePermissions: async (
+        roleId: number,
+        permissions: RolePermissionInput[],
+        grantor: RoleAccess | null
+    ) => {
+        // 🔒 Use a transaction to ensure ACID compliance
+        const result = await prisma.$transaction((tx) =>
+            PermissionService.applyRolePermissions(
+                tx,
+                roleId,
+                permissions,
+                grantor
+            )
+        );
+
+        PermissionService.invalidateRoleCache(roleId);
+        return result;
     },
 
     findByResourceAndAction: async (resource: string, action: Action) => {
@@ -94,9 +287,11 @@ const PermissionService = {
     },
 
     assignPermissionToRole: async (roleId: number, permissionId: number) => {
-        return await prisma.rolePermission.create({
+        const rolePermission = await prisma.rolePermission.create({
             data: { roleId, permissionId },
         });
+        PermissionService.invalidateRoleCache(roleId);
+        return rolePermission;
     },
 
     findRolePermission: async (roleId: number, permissionId: number) => {
@@ -110,11 +305,55 @@ const PermissionService = {
         });
     },
 
-    updateRolePermission: async (id: number, permissionId: number) => {
-        return await prisma.rolePermission.update({
+    /**
+     * Point a grant at another permission or change its store scope. The
+     * new permission, or a scope widened to every store, is checked like
+     * any other grant.
+     */
+    updateRolePermission: async (
+        id: number,
+        data: { permissionId?: number; scope?: PermissionScope },
+        grantor: RoleAccess | null
+    ) => {
+        const current = await prisma.rolePermission.findUnique({
+            where: { id },
+            include: { permission: true },
+        });
+        if (!current) {
+            throw permissionError(
+                `Role permission with ID ${id} not found`,
+                404
+            );
+        }
+
+        const permission =
+            data.permissionId && data.permissionId !== current.permissionId
+                ? await prisma.permission.findUnique({
+                      where: { id: data.permissionId },
+                  })
+                : current.permission;
+        if (!permission) {
+            throw permissionError(
+                `Permission with ID ${data.permissionId} not found`,
+                404
+            );
+        }
+        const scope = data.scope ?? current.scope;
+        if (
+            permission.id !== current.permissionId ||
+            (current.scope === PermissionScope.OWN_STORE &&
+                scope === PermissionScope.ALL_STORES)
+        ) {
+            const { resource, action } = permission;
+            assertGrantable([{ resource, action, scope }], grantor);
+        }
+
+        const updated = await prisma.rolePermission.update({
             where: { id },
-            data: { permissionId },
+            data,
         });
+        PermissionService.invalidateRoleCache(updated.roleId);
+        return updated;
     },
     findPermissionExists: async (id: number) => {
         return prisma.permission.findUnique({
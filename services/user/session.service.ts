@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import geoip from "geoip-lite";
+import { prisma } from "../../utils/prisma";
+import { logEvents } from "../../middleware/logger";
+
+// How long a session lasts without being refreshed
+export const SESSION_TTL_DAYS = 7;
+
+interface RefreshPayload {
+    email: string;
+    duid: string; // Log row of the session
+}
+
+export interface SessionClient {
+    ip: string;
+    browser?: string;
+    os?: string;
+}
+
+const sessionError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+// Only the hash of the current refresh token is stored
+const hashToken = (token: string) =>
+    crypto.createHash("sha256").update(token).digest("hex");
+
+// Every token gets its own jti, so a rotated token never repeats
+const signRefreshToken = (payload: RefreshPayload) =>
+    jwt.sign(payload, process.env.REFRESH_TOKEN_SECRET as string, {
+        expiresIn: `${SESSION_TTL_DAYS}d`,
+        jwtid: crypto.randomUUID(),
+    });
+
+const getLocation = (ip: string) => {
+    const geo = geoip.lookup(ip);
+    return geo ? `${geo.city}, ${geo.country}` : "Unknown";
+};
+
+const isActiveUser = (user: { active: boolean; deletedAt: Date | null }) =>
+    user.active && user.deletedAt == null;
+
+// Sessions refreshed within the TTL that were not revoked
+const activeSince = () =>
+    new Date(Date.now() - SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const SessionService = {
+    /**
+     * Start a session for a login and return its refresh token
+     */
+    createSession: async (
+        user: { id: number; email: string },
+        client: SessionClient
+    ) => {
+        const duid = crypto.randomUUID();
+        const refreshToken = signRefreshToken({ email: user.email, duid });
+
+        await prisma.log.create({
+            data: {
+                userId: user.id,
+                duid,
+                refreshToken: hashToken(refreshToken),
+                ip: client.ip,
+                location: getLocation(client.ip),
+                browser: client.browser || "Unknown",
+                os: client.os || "Unknown",
+            },
+        });
+
+        return { duid, refreshToken };
+    },
+
+    /**
+     * Swap a refresh token for a new one. Presenting a token that was
+     * already swapped means it leaked, so the whole session is revoked.
+     * Returns null when the token cannot be used.
+     */
+    rotate: async (refreshToken: string) => {
+        let decoded: RefreshPayload;
+        try {
+            decoded = jwt.verify(
+                refreshToken,
+                process.env.REFRESH_TOKEN_SECRET as string
+            ) as RefreshPayload;
+        } catch (err) {
+            return null;
+        }
+
+        const log = await prisma.log.findUnique({
+            where: { duid: decoded.duid },
+            include: { user: true },
+        });
+        if (
+            !log ||
+            log.revokedAt ||
+            log.user.email !== decoded.email ||
+            !isActiveUser(log.user)
+        ) {
+            return null;
+        }
+
+        const nextToken = signRefreshToken({
+            email: log.user.email,
+            duid: log.duid,
+        });
+        const rotated = await prisma.log.updateMany({
+            where: {
+                duid: log.duid,
+                revokedAt: null,
+                refreshToken: hashToken(refreshToken),
+            },
+            data: { refreshToken: hashToken(nextToken) },
+        });
+
+        if (rotated.count === 0) {
+            await prisma.log.updateMany({
+                where: { duid: log.duid, revokedAt: null },
+                data: { revokedAt: new Date() },
+            });
+            logEvents(
+                `Refresh token reuse for user ${log.userId}, session ${log.duid} revoked`,
+                "errLog.log"
+            );
+            return null;
+        }
+
+        return { user: log.user, duid: log.duid, refreshToken: nextToken };
+    },
+
+    /**
+     * Revoke the session a refresh token belongs to (logout)
+     */
+    revokeByToken: async (refreshToken: string) => {
+        let decoded: RefreshPayload;
+        try {
+            decoded = jwt.verify(
+                refreshToken,
+                process.env.REFRESH_TOKEN_SECRET as string
+            ) as RefreshPayload;
+        } catch (err) {
+            return;
+        }
+
+        await prisma.log.updateMany({
+            where: {
+                duid: decoded.duid,
+                revokedAt: null,
+                refreshToken: hashToken(refreshToken),
+            },
+            data: { revokedAt: new Date() },
+        });
+    },
+
+    /**
+     * Get a user's sessions, newest first, marking which can still be
+     * refreshed and which one made the request
+     */
+    getSessions: async (userId: number, currentDuid?: string) => {
+        const logs = await prisma.log.findMany({
+            where: { userId },
+            select: {
+                duid: true,
+                ip: true,
+                location: true,
+                os: true,
+                browser: true,
+                createdAt: true,
+                updatedAt: true,
+                revokedAt: true,
+            },
+            orderBy: { createdAt: "desc" },
+            take: 15,
+        });
+
+        const since = activeSince();
+        return logs.map(({ updatedAt, ...log }) => ({
+            ...log,
+            lastUsedAt: updatedAt,
+            active: !log.revokedAt && updatedAt > since,
+            current: log.duid === currentDuid,
+        }));
+    },
+
+    /**
+     * Revoke one of the user's own sessions
+     */
+    revokeSession: async (userId: number, duid: string) => {
+        const { count } = await prisma.log.updateMany({
+            where: { userId, duid, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+        if (count === 0) {
+            throw sessionError("Session not found", 404);
+        }
+    },
+
+    /**
+     * Revoke every session of a user ("sign out everywhere"), except the
+     * one given to keep. Returns the number of sessions revoked.
+     */
+    revokeAll: async (userId: number, keepDuid?: string): Promise<number> => {
+        const { count } = await prisma.log.updateMany({
+            where: {
+                userId,
+                revokedAt: null,
+                duid: keepDuid ? { not: keepDuid } : undefined,
+            },
+            data: { revokedAt: new Date() },
+        });
+        return count;
+    },
+};
+
+export default SessionService;
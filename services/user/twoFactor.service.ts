@@ -0,0 +1,366 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { prisma } from "../../utils/prisma";
+import {
+    generateTotpSecret,
+    matchTotpStep,
+    totpProvisioningUri,
+} from "../../utils/totp";
+import { SessionClient } from "./session.service";
+
+// Recovery codes issued at enrollment; each works once
+const RECOVERY_CODE_COUNT = 10;
+
+// How long the second login step may take
+const CHALLENGE_TTL = "5m";
+
+// Invalid codes accepted per login challenge (and, when signed in, until
+// the next login) before the user has to sign in again
+const MAX_FAILED_CODES = 5;
+
+// A challenge either asks for a code (login) or for enrollment (setup)
+export type ChallengePurpose = "2fa-login" | "2fa-setup";
+
+interface ChallengePayload {
+    purpose: ChallengePurpose;
+    userId: number;
+    challengeId: string;
+    client: SessionClient;
+}
+
+const twoFactorError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+// Secrets are stored encrypted (AES-256-GCM) so a database leak alone
+// does not reveal them
+const encryptionKey = () =>
+    crypto
+        .createHash("sha256")
+        .update(
+            (process.env.TWO_FACTOR_ENCRYPTION_KEY ||
+                process.env.ACCESS_TOKEN_SECRET) as string
+        )
+        .digest();
+
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv("aes-256-gcm", encryptionKey(), iv);
+    const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data]
+        .map((part) => part.toString("base64"))
+        .join(":");
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, tag, data] = stored
+        .split(":")
+        .map((part) => Buffer.from(part, "base64"));
+    const decipher = crypto.createDecipheriv(
+        "aes-256-gcm",
+        encryptionKey(),
+        iv
+    );
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+        "utf8"
+    );
+};
+
+// Recovery codes are compared without case, spaces or dashes
+const hashRecoveryCode = (code: string) =>
+    crypto
+        .createHash("sha256")
+        .update(code.replace(/[\s-]/g, "").toUpperCase())
+        .digest("hex");
+
+const generateRecoveryCodes = () =>
+    Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const code = crypto.randomBytes(5).toString("hex").toUpperCase();
+        return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+
+const findUser = async (userId: number) => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        include: { role: { select: { requireTwoFactor: true } } },
+    });
+    if (!user || !user.active || user.deletedAt) {
+        throw twoFactorError("User not found", 404);
+    }
+    return user;
+};
+
+/**
+ * Accept a TOTP code once. The time step is recorded so the same code
+ * cannot be replayed within its 30 second window.
+ */
+const useTotpCode = async (
+    user: { id: number; twoFactorSecret: string | null },
+    code: string
+): Promise<boolean> => {
+    if (!user.twoFactorSecret) return false;
+
+    const step = matchTotpStep(decryptSecret(user.twoFactorSecret), code);
+    if (step === null) return false;
+
+    const { count } = await prisma.user.updateMany({
+        where: {
+            id: user.id,
+            OR: [{ twoFactorStep: null }, { twoFactorStep: { lt: step } }],
+        },
+        data: { twoFactorStep: step },
+    });
+    return count === 1;
+};
+
+/**
+ * Accept a recovery code once by removing its hash
+ */
+const useRecoveryCode = async (
+    user: { id: number; recoveryCodes: string[] },
+    code: string
+): Promise<boolean> => {
+    const hash = hashRecoveryCode(code);
+    if (!user.recoveryCodes.includes(hash)) return false;
+
+    const { count } = await prisma.user.updateMany({
+        where: { id: user.id, recoveryCodes: { has: hash } },
+        data: {
+            recoveryCodes: user.recoveryCodes.filter((item) => item !== hash),
+        },
+    });
+    return count === 1;
+};
+
+const TwoFactorService = {
+    /**
+     * Whether the user's role makes 2FA mandatory
+     */
+    isRequiredByRole: async (roleId: number): Promise<boolean> => {
+        const role = await prisma.role.findUnique({
+            where: { id: roleId },
+            select: { requireTwoFactor: true },
+        });
+        return !!role?.requireTwoFactor;
+    },
+
+    /**
+     * Sign the short-lived token that carries a password-checked login
+     * to its second step. Only the newest challenge is accepted, and it
+     * comes with a fresh allowance of invalid codes.
+     */
+    createChallenge: async (
+        userId: number,
+        purpose: ChallengePurpose,
+        client: SessionClient
+    ): Promise<string> => {
+        const challengeId = crypto.randomBytes(16).toString("hex");
+        await prisma.user.update({
+            where: { id: userId },
+            data: { twoFactorChallenge: challengeId, twoFactorFailures: 0 },
+        });
+
+        const payload: ChallengePayload = {
+            purpose,
+            userId,
+            challengeId,
+            client,
+        };
+        return jwt.sign(payload, process.env.ACCESS_TOKEN_SECRET as string, {
+            expiresIn: CHALLENGE_TTL,
+        });
+    },
+
+    /**
+     * Check a challenge token and return who it was issued for
+     */
+    readChallenge: (token: string, purpose: ChallengePurpose) => {
+        let payload: ChallengePayload;
+        try {
+            payload = jwt.verify(
+                token,
+                process.env.ACCESS_TOKEN_SECRET as string
+            ) as ChallengePayload;
+        } catch (err) {
+            throw twoFactorError("Login expired. Please sign in again", 401);
+        }
+        if (payload.purpose !== purpose) {
+            throw twoFactorError("Login expired. Please sign in again", 401);
+        }
+        return {
+            userId: payload.userId,
+            challengeId: payload.challengeId,
+            client: payload.client,
+        };
+    },
+
+    /**
+     * Start enrollment with a new secret. Nothing changes at login until
+     * the first code is confirmed.
+     */
+    beginEnrollment: async (userId: number) => {
+        const user = await findUser(userId);
+        if (user.twoFactorEnabled) {
+            throw twoFactorError(
+                "Two-factor authentication is already enabled",
+                409
+            );
+        }
+
+        const secret = generateTotpSecret();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorSecret: encryptSecret(secret),
+                twoFactorStep: null,
+            },
+        });
+
+        return {
+            secret,
+            otpauthUrl: totpProvisioningUri(
+                secret,
+                user.email,
+                process.env.SITE_NAME || "Admin"
+            ),
+        };
+    },
+
+    /**
+     * Turn 2FA on once the authenticator app produces a valid code.
+     * Returns the recovery codes, which are only shown this once.
+     */
+    confirmEnrollment: async (userId: number, code: string) => {
+        const user = await findUser(userId);
+        if (user.twoFactorEnabled) {
+            throw twoFactorError(
+                "Two-factor authentication is already enabled",
+                409
+            );
+        }
+        if (!user.twoFactorSecret) {
+            throw twoFactorError("Start two-factor enrollment first");
+        }
+        if (!(await useTotpCode(user, code))) {
+            throw twoFactorError("Invalid two-factor code", 401);
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorEnabled: true,
+                recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+            },
+        });
+
+        return recoveryCodes;
+    },
+
+    /**
+     * Check a TOTP code or, failing that, a recovery code for a user with
+     * 2FA enabled. Throws 401 when neither matches. At login, pass the
+     * challenge being answered; it is used up by a valid code. After
+     * MAX_FAILED_CODES invalid codes every code is refused with 429 until
+     * the user signs in again.
+     */
+    verify: async (userId: number, code: string, challengeId?: string) => {
+        const user = await findUser(userId);
+        if (!user.twoFactorEnabled) {
+            throw twoFactorError("Two-factor authentication is not enabled");
+        }
+        if (
+            challengeId !== undefined &&
+            user.twoFactorChallenge !== challengeId
+        ) {
+            throw twoFactorError("Login expired. Please sign in again", 401);
+        }
+
+        // Count the attempt before checking it, so parallel guesses cannot
+        // get past the limit
+        const { count } = await prisma.user.updateMany({
+            where: {
+                id: user.id,
+                twoFactorFailures: { lt: MAX_FAILED_CODES },
+                ...(challengeId !== undefined && {
+                    twoFactorChallenge: challengeId,
+                }),
+            },
+            data: { twoFactorFailures: { increment: 1 } },
+        });
+        if (count === 0) {
+            throw twoFactorError(
+                "Too many invalid codes. Please sign in again",
+                429
+            );
+        }
+
+        const accepted =
+            (await useTotpCode(user, code)) ||
+            (await useRecoveryCode(user, code));
+        if (!accepted) {
+            throw twoFactorError("Invalid two-factor code", 401);
+        }
+
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorFailures: 0,
+                ...(challengeId !== undefined && { twoFactorChallenge: null }),
+            },
+        });
+    },
+
+    /**
+     * Replace the recovery codes after checking a current code
+     */
+    regenerateRecoveryCodes: async (userId: number, code: string) => {
+        await TwoFactorService.verify(userId, code);
+
+        const recoveryCodes = generateRecoveryCodes();
+        await prisma.user.update({
+            where: { id: userId },
+            data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+        });
+
+        return recoveryCodes;
+    },
+
+    /**
+     * Turn 2FA off after checking a current code. Not allowed when the
+     * user's role requires it.
+     */
+    disable: async (userId: number, code: string) => {
+        const user = await findUser(userId);
+        if (user.role.requireTwoFactor) {
+            throw twoFactorError(
+                "Your role requires two-factor authentication",
+                403
+            );
+        }
+        await TwoFactorService.verify(userId, code);
+        await TwoFactorService.reset(userId);
+    },
+
+    /**
+     * Remove a user's 2FA (e.g. a lost phone). They enroll again at their
+     * next login if their role requires it.
+     */
+    reset: async (userId: number) => {
+        await findUser(userId);
+        await prisma.user.update({
+            where: { id: userId },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorStep: null,
+                recoveryCodes: [],
+            },
+        });
+    },
+};
+
+export default TwoFactorService;
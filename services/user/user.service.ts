@@ -1,5 +1,20 @@
 import { prisma } from "../../utils/prisma";
-import { Prisma, Action } from "../../generated/prisma/client";
+import {
+    Prisma,
+    Action,
+    PermissionScope,
+} from "../../generated/prisma/client";
+import PermissionService, {
+    RoleAccess,
+    RolePermissionInput,
+} from "./permission.service";
+import { isAdminRole } from "../../config/permissions.config";
+
+const roleError = (message: string, status = 400) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
 // import { Action } from "../generated/prisma/client";
 // interface CreateLog {
 //     userId: number;
@@ -10,6 +25,34 @@ import { Prisma, Action } from "../../generated/prisma/client";
 //     refreshToken: string;
 // }
 
+/**
+ * Refuse a change that would leave no active user with the admin role,
+ * so the dashboard cannot be locked out. The admin role's row is locked
+ * until the transaction ends, so concurrent changes to two different
+ * admins are checked one after the other.
+ */
+const assertNotLastAdmin = async (
+    tx: Prisma.TransactionClient,
+    userId: number
+) => {
+    const user = await tx.user.findUnique({
+        where: { id: userId },
+        include: { role: true },
+    });
+    if (!user || !user.active || user.deletedAt) return;
+    if (!isAdminRole(user.role.name)) return;
+
+    await tx.$queryRaw`
+        SELECT "id" FROM "Role" WHERE "id" = ${user.roleId} FOR UPDATE
+    `;
+    const admins = await tx.user.count({
+        where: { roleId: user.roleId, active: true, deletedAt: null },
+    });
+    if (admins <= 1) {
+        throw roleError("Cannot remove the last active admin", 409);
+    }
+};
+
 const UserService = {
     findAll: async () => {
         return prisma.user.findMany({
@@ -21,6 +64,7 @@ const UserService = {
                 email: true,
                 role: true,
                 lastLogin: true,
+                twoFactorEnabled: true,
                 createdAt: true,
             },
             where: { deletedAt: null },
@@ -46,6 +90,42 @@ const UserService = {
     updateUser: async (data: Prisma.UserUpdateInput, id: number) => {
         return await prisma.user.update({ where: { id }, data });
     },
+    /**
+     * Only admins may give a user the admin role or change the account of
+     * a user who has it. roleIds are the user's current and new roles.
+     */
+    assertMayManageRoles: async (
+        roleIds: number[],
+        callerRoleId: number | undefined
+    ) => {
+        const roles = await prisma.role.findMany({
+            where: { id: { in: roleIds } },
+        });
+        if (!roles.some((role) => isAdminRole(role.name))) return;
+
+        const caller = callerRoleId
+            ? await prisma.role.findUnique({ where: { id: callerRoleId } })
+            : null;
+        if (!caller || !isAdminRole(caller.name)) {
+            throw roleError(
+                "Only admins can assign the admin role or change admin accounts",
+                403
+            );
+        }
+    },
+    /**
+     * Update a user who may be losing admin access (role change,
+     * deactivation, deletion), unless they are the last active admin
+     */
+    updateUserKeepingAdmin: async (
+        data: Prisma.UserUpdateInput,
+        id: number
+    ) => {
+        return prisma.$transaction(async (tx) => {
+            await assertNotLastAdmin(tx, id);
+            return tx.user.update({ where: { id }, data });
+        });
+    },
     //  deleteUser: async (id: number) => {
     //      return prisma.user.delete({ where: { id } });
     //  },
@@ -63,7 +143,10 @@ const UserService = {
         return await prisma.role.create({ data });
     },
     updateRole: async (data: Prisma.RoleUpdateInput, id: number) => {
-        return await prisma.role.update({ where: { id }, data });
+        const role = await prisma.role.update({ where: { id }, data });
+        // The RBAC cache keys the admin override on the role name
+        PermissionService.invalidateRoleCache(id);
+        return role;
     },
     findRoleById: async (id: number) => {
         return prisma.role.findUnique({
@@ -72,6 +155,143 @@ const UserService = {
             },
         });
     },
+    // Roles with their permissions and how many (non-deleted) users hold them
+    findRoles: async (where: Prisma.RoleWhereInput = {}) => {
+        return prisma.role.findMany({
+            where,
+            include: {
+                permissions: {
+                    include: { permission: true },
+                    orderBy: { permissionId: "asc" },
+                },
+                _count: { select: { users: { where: { deletedAt: null } } } },
+            },
+            orderBy: { id: "asc" },
+        });
+    },
+    /**
+     * Copy a role's grants, with their store scopes, into a new role. The
+     * role and its grants are created together or not at all. A grantor
+     * who is not an admin can only clone grants they hold.
+     */
+    cloneRole: async (
+        id: number,
+        data: { name: string; requireTwoFactor?: boolean },
+        grantor: RoleAccess | null
+    ) => {
+        const [source] = await UserService.findRoles({ id });
+        if (!source) throw roleError(`Role with ID ${id} not found`, 404);
+
+        // Same grants, grouped the way applyRolePermissions takes them
+        const grouped = new Map<
+            string,
+            RolePermissionInput & { scope: PermissionScope }
+        >();
+        for (const rp of source.permissions) {
+            const key = `${rp.permission.resource}:${rp.scope}`;
+            const entry = grouped.get(key) ?? {
+                resource: rp.permission.resource,
+                actions: [] as Action[],
+                scope: rp.scope,
+            };
+            entry.actions.push(rp.permission.action);
+            grouped.set(key, entry);
+        }
+
+        const role = await prisma.$transaction(async (tx) => {
+            const created = await tx.role.create({
+                data: {
+                    name: data.name,
+                    requireTwoFactor:
+                        data.requireTwoFactor ?? source.requireTwoFactor,
+                },
+            });
+            await PermissionService.applyRolePermissions(
+                tx,
+                created.id,
+                [...grouped.values()],
+                grantor
+            );
+            return created;
+        });
+
+        PermissionService.invalidateRoleCache(role.id);
+        return { source, role };
+    },
+    /**
+     * Delete a role, moving its users to another role first. Deleted users
+     * still reference the role, so they are moved too. Only admins can
+     * move users to the admin role.
+     */
+    deleteRole: async (
+        id: number,
+        reassignTo: number | undefined,
+        callerRoleId: number
+    ) => {
+        const result = await prisma.$transaction(async (tx) => {
+            const role = await tx.role.findUnique({ where: { id } });
+            if (!role) throw roleError(`Role with ID ${id} not found`, 404);
+            if (isAdminRole(role.name)) {
+                throw roleError("The admin role cannot be deleted", 403);
+            }
+
+            const members = await tx.user.count({
+                where: { roleId: id, deletedAt: null },
+            });
+            const assigned = await tx.user.count({ where: { roleId: id } });
+
+            let reassigned = 0;
+            if (assigned > 0) {
+                if (!reassignTo) {
+                    throw roleError(
+                        `Role has ${members} user(s); choose a role to move them to`,
+                        409
+                    );
+                }
+                if (reassignTo === id) {
+                    throw roleError("Cannot move users to the deleted role");
+                }
+                const target = await tx.role.findUnique({
+                    where: { id: reassignTo },
+                });
+                if (!target) {
+                    throw roleError(
+                        `Role with ID ${reassignTo} not found`,
+                        404
+                    );
+                }
+                if (isAdminRole(target.name)) {
+                    const caller = await tx.role.findUnique({
+                        where: { id: callerRoleId },
+                    });
+                    if (!caller || !isAdminRole(caller.name)) {
+                        throw roleError(
+                            "Only admins can move users to the admin role",
+                            403
+                        );
+                    }
+                }
+                ({ count: reassigned } = await tx.user.updateMany({
+                    where: { roleId: id },
+                    data: { roleId: reassignTo },
+                }));
+            }
+
+            // Keys would otherwise lose every permission silently
+            const { count: revokedKeys } = await tx.apiKey.updateMany({
+                where: { roleId: id, revokedAt: null },
+                data: { revokedAt: new Date() },
+            });
+
+            await tx.rolePermission.deleteMany({ where: { roleId: id } });
+            await tx.role.delete({ where: { id } });
+
+            return { role, reassigned, revokedKeys };
+        });
+
+        PermissionService.invalidateRoleCache(id);
+        return result;
+    },
 };
 
 export default UserService;
@@ -0,0 +1,117 @@
+import crypto from "crypto";
+import { PermissionScope } from "../generated/prisma/client";
+import ApiKeyService from "../services/user/apiKey.service";
+import PermissionService from "../services/user/permission.service";
+import { resetPrisma, seed } from "./helpers/prisma";
+
+const { ALL_STORES, OWN_STORE } = PermissionScope;
+
+const KEY = "ak_test-key";
+
+type Grants = [string, PermissionScope][];
+
+const roles: Record<number, { name: string; grants: Grants }> = {
+    1: { name: "admin", grants: [] },
+    2: { name: "manager", grants: [["inventory:edit", ALL_STORES]] },
+    3: {
+        name: "cashier",
+        grants: [
+            ["inventory:edit", ALL_STORES],
+            ["orders:view", ALL_STORES],
+        ],
+    },
+    4: { name: "branch-lead", grants: [["inventory:edit", OWN_STORE]] },
+};
+
+const seedKey = (
+    key: Record<string, any>,
+    creator: Record<string, any> | null = {
+        active: true,
+        deletedAt: null,
+        roleId: 2,
+    }
+) =>
+    seed("apiKey", [
+        {
+            id: 1,
+            name: "pos",
+            keyHash: crypto.createHash("sha256").update(KEY).digest("hex"),
+            roleId: null,
+            storeId: null,
+            createdById: 7,
+            lastUsedAt: new Date(),
+            lastUsedIp: "::1",
+            revokedAt: null,
+            expiresAt: null,
+            permissions: [],
+            createdBy: creator,
+            ...key,
+        },
+    ]);
+
+const grant = (resource: string, action: string, scope: PermissionScope) => ({
+    scope,
+    permission: { resource, action },
+});
+
+beforeEach(() => {
+    resetPrisma();
+    jest.spyOn(PermissionService, "getRoleAccess").mockImplementation(
+        async (id: number) =>
+            roles[id]
+                ? { name: roles[id].name, grants: new Map(roles[id].grants) }
+                : null
+    );
+});
+
+describe("ApiKeyService.authenticate", () => {
+    it("refuses keys of a deactivated or deleted creator", async () => {
+        seedKey({}, { active: false, deletedAt: null, roleId: 2 });
+        await expect(ApiKeyService.authenticate(KEY, "::1")).resolves.toBeNull();
+
+        resetPrisma();
+        seedKey({}, { active: true, deletedAt: new Date(), roleId: 2 });
+        await expect(ApiKeyService.authenticate(KEY, "::1")).resolves.toBeNull();
+    });
+
+    it("drops permissions the creator no longer holds", async () => {
+        seedKey({
+            permissions: [
+                grant("inventory", "edit", ALL_STORES),
+                grant("orders", "view", ALL_STORES),
+            ],
+        });
+
+        const access = await ApiKeyService.authenticate(KEY, "::1");
+        expect([...access!.grants!]).toEqual([["inventory:edit", ALL_STORES]]);
+    });
+
+    it("limits a role key to what its creator holds", async () => {
+        seedKey({ roleId: 3 }, { active: true, deletedAt: null, roleId: 4 });
+
+        const access = await ApiKeyService.authenticate(KEY, "::1");
+        expect([...access!.grants!]).toEqual([["inventory:edit", OWN_STORE]]);
+    });
+
+    it("uses the role as is for keys created by an admin", async () => {
+        seedKey({ roleId: 3 }, { active: true, deletedAt: null, roleId: 1 });
+
+        const access = await ApiKeyService.authenticate(KEY, "::1");
+        expect(access!.grants).toBeNull();
+    });
+});
+
+describe("ApiKeyService.create", () => {
+    it("rejects a role and a permission list together", async () => {
+        await expect(
+            ApiKeyService.create(
+                {
+                    name: "pos",
+                    roleId: 3,
+                    permissions: [{ resource: "orders", actions: ["view"] }],
+                },
+                { id: 7, roleId: 1, storeId: null }
+            )
+        ).rejects.toMatchObject({ status: 400 });
+    });
+});
@@ -0,0 +1,86 @@
+import AuditService, { AuditEntry } from "../services/user/audit.service";
+import { prismaMock, resetPrisma } from "./helpers/prisma";
+
+// Stored entries, in id order
+let rows: Record<string, any>[];
+
+const entry = (entityId: string, payload: object): AuditEntry => ({
+    userId: 2,
+    action: "PUT /orders/:id",
+    entity: "orders",
+    entityId,
+    changes: { status: { from: "PENDING", to: "PROCESSING" } },
+    payload,
+    status: 200,
+    ip: "127.0.0.1",
+    requestId: `req-${entityId}`,
+});
+
+beforeEach(async () => {
+    resetPrisma();
+    rows = [];
+    prismaMock.auditLog.create.mockImplementation(
+        async ({ data }: Record<string, any>) => {
+            const row = { id: rows.length + 1, ...data };
+            // jsonb comes back as plain JSON
+            row.changes = JSON.parse(JSON.stringify(data.changes));
+            row.payload = JSON.parse(JSON.stringify(data.payload));
+            rows.push(row);
+            return row;
+        }
+    );
+    prismaMock.auditLog.findFirst.mockImplementation(
+        async () => rows[rows.length - 1] ?? null
+    );
+    prismaMock.auditLog.findMany.mockImplementation(
+        async ({ where }: Record<string, any>) =>
+            rows.filter((row) => row.id > where.id.gt)
+    );
+
+    await AuditService.record(entry("10", { status: "PROCESSING" }));
+    await AuditService.record(
+        entry("11", { status: "SHIPPED", notes: "DHL" })
+    );
+    await AuditService.record(entry("12", { status: "CANCELLED" }));
+});
+
+describe("audit hash chain", () => {
+    it("links each entry to the one before it", async () => {
+        expect(rows[0].prevHash).toBeNull();
+        expect(rows[1].prevHash).toBe(rows[0].hash);
+        expect(rows[2].prevHash).toBe(rows[1].hash);
+
+        await expect(AuditService.verifyChain()).resolves.toEqual({
+            valid: true,
+            checked: 3,
+            brokenAt: null,
+            lastHash: rows[2].hash,
+        });
+    });
+
+    it("survives the database reordering JSON keys", async () => {
+        rows[1].payload = { notes: "DHL", status: "SHIPPED" };
+
+        const result = await AuditService.verifyChain();
+        expect(result.valid).toBe(true);
+    });
+
+    it("finds an edited entry", async () => {
+        rows[1].payload = { status: "DELIVERED", notes: "DHL" };
+
+        await expect(AuditService.verifyChain()).resolves.toMatchObject({
+            valid: false,
+            checked: 1,
+            brokenAt: 2,
+        });
+    });
+
+    it("finds the entry after a deleted one", async () => {
+        rows.splice(1, 1);
+
+        await expect(AuditService.verifyChain()).resolves.toMatchObject({
+            valid: false,
+            brokenAt: 3,
+        });
+    });
+});
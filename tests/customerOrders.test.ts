@@ -0,0 +1,99 @@
+import request from "supertest";
+import app from "../app";
+import { resetPrisma, seed, prismaMock } from "./helpers/prisma";
+import { customerAuth } from "./helpers/auth";
+
+// Signed in as customer 1; order 20 belongs to customer 2
+const customer = customerAuth({ id: 1 });
+
+const order = (id: number, customerId: number) => ({
+    id,
+    orderNumber: `ORD-${id}`,
+    customerId,
+    status: "DELIVERED",
+    paymentMethod: "CARD",
+    totalAmount: 100,
+    paidAmount: 0,
+    paid: false,
+    placedAt: new Date(),
+    deletedAt: null,
+    customer: {
+        id: customerId,
+        email: `customer${customerId}@example.com`,
+        phone: null,
+    },
+    items: [{ id: 1, quantity: 1, price: 100, returnItems: [] }],
+    coupons: [],
+});
+
+beforeEach(() => {
+    resetPrisma();
+    seed("order", [order(20, 2), order(21, 1)]);
+});
+
+describe("another customer's order", () => {
+    it("is not found by ID", async () => {
+        const res = await request(app).get("/customer/orders/20").set(customer);
+        expect(res.status).toBe(404);
+    });
+
+    it("cannot be cancelled", async () => {
+        const res = await request(app)
+            .post("/customer/orders/20/cancel")
+            .set(customer)
+            .send({ reason: "Changed my mind" });
+        expect(res.status).toBe(404);
+        expect(prismaMock.order.update).not.toHaveBeenCalled();
+    });
+
+    it("cannot be returned", async () => {
+        const res = await request(app)
+            .post("/customer/orders/20/return")
+            .set(customer)
+            .send({
+                reason: "Too small",
+                items: [{ itemId: 1, quantity: 1, reason: "Too small" }],
+            });
+        expect(res.status).toBe(404);
+        expect(prismaMock.returnRequest.create).not.toHaveBeenCalled();
+    });
+
+    it("cannot be paid", async () => {
+        const gateway = await request(app)
+            .post("/customer/orders/20/pay")
+            .set(customer);
+        const mpesa = await request(app)
+            .post("/customer/orders/20/pay/mpesa")
+            .set(customer)
+            .send({ phone: "0712345678" });
+        expect(gateway.status).toBe(404);
+        expect(mpesa.status).toBe(404);
+        expect(prismaMock.transaction.create).not.toHaveBeenCalled();
+    });
+
+    it("cannot be tracked without its contact details", async () => {
+        const signedIn = await request(app)
+            .get("/customer/orders/track/ORD-20")
+            .set(customer);
+        const wrongEmail = await request(app).get(
+            "/customer/orders/track/ORD-20?email=customer1@example.com"
+        );
+        expect(signedIn.status).toBe(404);
+        expect(wrongEmail.status).toBe(404);
+    });
+});
+
+describe("the customer's own order", () => {
+    it("is returned by ID", async () => {
+        const res = await request(app).get("/customer/orders/21").set(customer);
+        expect(res.status).toBe(200);
+        expect(res.body.data.id).toBe(21);
+    });
+
+    it("can be tracked by order number", async () => {
+        const res = await request(app)
+            .get("/customer/orders/track/ORD-21")
+            .set(customer);
+        expect(res.status).toBe(200);
+    });
+});
@@ -0,0 +1,57 @@
+import jwt from "jsonwebtoken";
+import { PermissionScope } from "../../generated/prisma/client";
+import PermissionService from "../../services/user/permission.service";
+
+const sign = (payload: object) =>
+    jwt.sign(payload, process.env.ACCESS_TOKEN_SECRET as string, {
+        expiresIn: "5m",
+    });
+
+/**
+ * Bearer header for a staff user working in a store
+ */
+export const staffAuth = (
+    user: { id: number; role: number; storeId: number | null }
+) => ({
+    Authorization: `Bearer ${sign({
+        UserInfo: {
+            id: user.id,
+            email: `staff${user.id}@example.com`,
+            role: user.role,
+            storeId: user.storeId,
+            sessionId: "test-session",
+        },
+    })}`,
+});
+
+/**
+ * Bearer header for a signed-in customer
+ */
+export const customerAuth = (customer: { id: number }) => ({
+    Authorization: `Bearer ${sign({
+        CustomerInfo: {
+            id: customer.id,
+            email: `customer${customer.id}@example.com`,
+            name: `Customer ${customer.id}`,
+        },
+    })}`,
+});
+
+/**
+ * Give a role a set of "resource:action" grants, all with one scope
+ */
+export const grantRole = (
+    roleId: number,
+    grants: string[],
+    scope: PermissionScope = PermissionScope.OWN_STORE
+) => {
+    jest.spyOn(PermissionService, "getRoleAccess").mockImplementation(
+        async (id: number) =>
+            id === roleId
+                ? {
+                      name: "branch-staff",
+                      grants: new Map(grants.map((g) => [g, scope])),
+                  }
+                : null
+    );
+};
@@ -0,0 +1,94 @@
+/**
+ * In-memory stand-in for the Prisma client. Rows are kept per model and
+ * returned with whatever relations the test stored on them. Only plain
+ * equality filters on scalar fields are applied; other filters are
+ * ignored, so tests that depend on them should assert on the query.
+ */
+type Row = Record<string, any>;
+
+const tables = new Map<string, Row[]>();
+
+const table = (model: string) => {
+    if (!tables.has(model)) tables.set(model, []);
+    return tables.get(model)!;
+};
+
+const matches = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(
+        ([field, value]) =>
+            value === undefined ||
+            (value !== null && typeof value === "object") ||
+            row[field] === value
+    );
+
+const createDelegate = (model: string) => {
+    const find = async (args: Row = {}) =>
+        table(model).find((row) => matches(row, args.where)) ?? null;
+    const findOrThrow = async (args: Row = {}) => {
+        const row = await find(args);
+        if (!row) throw new Error(`${model} not found`);
+        return row;
+    };
+    const findMany = async (args: Row = {}) =>
+        table(model).filter((row) => matches(row, args.where));
+
+    return {
+        findUnique: jest.fn(find),
+        findFirst: jest.fn(find),
+        findUniqueOrThrow: jest.fn(findOrThrow),
+        findFirstOrThrow: jest.fn(findOrThrow),
+        findMany: jest.fn(findMany),
+        count: jest.fn(async (args: Row = {}) => (await findMany(args)).length),
+        create: jest.fn(async (args: Row) => {
+            const row = { id: table(model).length + 1, ...args.data };
+            table(model).push(row);
+            return row;
+        }),
+        update: jest.fn(async (args: Row) => {
+            const row = await findOrThrow(args);
+            return Object.assign(row, args.data);
+        }),
+        updateMany: jest.fn(async () => ({ count: 0 })),
+        deleteMany: jest.fn(async () => ({ count: 0 })),
+        upsert: jest.fn(async (args: Row) => args.create),
+        aggregate: jest.fn(async () => ({ _sum: {}, _count: {} })),
+        groupBy: jest.fn(async () => []),
+    };
+};
+
+const delegates = new Map<string, ReturnType<typeof createDelegate>>();
+
+export const prismaMock: any = new Proxy(
+    {
+        $transaction: jest.fn(async (arg: any) =>
+            typeof arg === "function" ? arg(prismaMock) : Promise.all(arg)
+        ),
+        $queryRaw: jest.fn(async () => []),
+        $executeRaw: jest.fn(async () => 0),
+        $connect: jest.fn(async () => {}),
+        $disconnect: jest.fn(async () => {}),
+    },
+    {
+        get: (target: any, prop: string) => {
+            if (prop in target) return target[prop];
+            if (typeof prop !== "string" || prop === "then") return undefined;
+            if (!delegates.has(prop)) delegates.set(prop, createDelegate(prop));
+            return delegates.get(prop);
+        },
+    }
+);
+
+/**
+ * Store rows for a model, e.g. seed("order", [{ id: 1, storeId: 2 }])
+ */
+export const seed = (model: string, rows: Row[]) => {
+    table(model).push(...rows);
+};
+
+/**
+ * Clear stored rows and recorded calls between tests
+ */
+export const resetPrisma = () => {
+    tables.clear();
+    delegates.clear();
+};
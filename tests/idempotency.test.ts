@@ -0,0 +1,155 @@
+import "express-async-errors";
+import express from "express";
+import request from "supertest";
+import { Prisma } from "../generated/prisma/client";
+import idempotency from "../middleware/idempotency";
+import errorHandler from "../middleware/errorHandler";
+import { prismaMock, resetPrisma, seed } from "./helpers/prisma";
+
+// Keep error logs out of the working tree
+jest.mock("../middleware/logger", () => ({
+    logEvents: jest.fn(),
+    logger: (req: any, res: any, next: any) => next(),
+}));
+
+const handler = jest.fn();
+
+const app = express();
+app.use(express.json());
+app.post("/orders", idempotency, (req, res) => handler(req, res));
+app.use(errorHandler);
+
+const duplicateKey = () =>
+    new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+        code: "P2002",
+        clientVersion: "test",
+    });
+
+const post = (body: object = { items: [1] }) =>
+    request(app).post("/orders").set("Idempotency-Key", "k-1").send(body);
+
+// Stored responses are written after the response ends
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+beforeEach(() => {
+    resetPrisma();
+    handler.mockReset();
+    handler.mockImplementation((req, res) =>
+        res.status(201).json({ data: { orderId: 9 } })
+    );
+});
+
+describe("idempotency keys", () => {
+    it("stores the first response", async () => {
+        const res = await post();
+        await flush();
+
+        expect(res.status).toBe(201);
+        expect(prismaMock.idempotencyKey.update).toHaveBeenCalledWith(
+            expect.objectContaining({
+                data: expect.objectContaining({
+                    responseStatus: 201,
+                    responseBody: { data: { orderId: 9 } },
+                }),
+            })
+        );
+    });
+
+    describe("with a key already used", () => {
+        const existing = (fields: object) => {
+            prismaMock.idempotencyKey.create.mockRejectedValueOnce(
+                duplicateKey()
+            );
+            seed("idempotencyKey", [
+                {
+                    id: 1,
+                    key: "k-1",
+                    fingerprint: "",
+                    responseStatus: 201,
+                    responseBody: { data: { orderId: 9 } },
+                    expiresAt: new Date(Date.now() + 60_000),
+                    ...fields,
+                },
+            ]);
+        };
+
+        // The fingerprint the first request stored
+        const fingerprintOf = async (body: object) => {
+            await post(body);
+            await flush();
+            const data = prismaMock.idempotencyKey.create.mock.calls[0][0].data;
+            resetPrisma();
+            handler.mockClear();
+            return data.fingerprint;
+        };
+
+        it("replays the stored response without running again", async () => {
+            existing({ fingerprint: await fingerprintOf({ items: [1] }) });
+
+            const res = await post({ items: [1] });
+
+            expect(res.status).toBe(201);
+            expect(res.headers["idempotent-replayed"]).toBe("true");
+            expect(res.body).toEqual({ data: { orderId: 9 } });
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it("rejects the key for a different payload", async () => {
+            existing({ fingerprint: await fingerprintOf({ items: [1] }) });
+
+            const res = await post({ items: [2] });
+
+            expect(res.status).toBe(422);
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it("refuses a retry while the first request runs", async () => {
+            existing({
+                fingerprint: await fingerprintOf({ items: [1] }),
+                responseStatus: null,
+                responseBody: null,
+            });
+
+            const res = await post({ items: [1] });
+
+            expect(res.status).toBe(409);
+            expect(handler).not.toHaveBeenCalled();
+        });
+    });
+
+    it("releases the key when the handler throws", async () => {
+        prismaMock.idempotencyKey.delete = jest.fn(async () => ({}));
+        handler.mockImplementation(async () => {
+            throw new Error("Payment provider unavailable");
+        });
+
+        const res = await post();
+        await flush();
+
+        expect(res.status).toBe(500);
+        expect(prismaMock.idempotencyKey.delete).toHaveBeenCalled();
+        expect(prismaMock.idempotencyKey.update).not.toHaveBeenCalled();
+    });
+
+    it("keeps the response of a request whose client disconnected", async () => {
+        prismaMock.idempotencyKey.delete = jest.fn(async () => ({}));
+        let finished: () => void = () => {};
+        const done = new Promise<void>((resolve) => (finished = resolve));
+        handler.mockImplementation(async (req, res) => {
+            await new Promise((resolve) => setTimeout(resolve, 200));
+            res.status(201).json({ data: { orderId: 9 } });
+            finished();
+        });
+
+        await expect(post().timeout(50)).rejects.toThrow(/timeout/i);
+        await done;
+        await flush();
+
+        expect(prismaMock.idempotencyKey.delete).not.toHaveBeenCalled();
+        expect(prismaMock.idempotencyKey.update).toHaveBeenCalledWith(
+            expect.objectContaining({
+                data: expect.objectContaining({ responseStatus: 201 }),
+            })
+        );
+    });
+});
@@ -0,0 +1,143 @@
+import request from "supertest";
+import app from "../app";
+import mpesaConfig from "../config/mpesa.config";
+import MpesaService from "../services/payment/mpesa.service";
+import TransactionService from "../services/payment/transaction.service";
+import { resetPrisma, seed } from "./helpers/prisma";
+
+// Keep failed-callback logs out of the working tree
+jest.mock("../middleware/logger", () => ({
+    logEvents: jest.fn(),
+    logger: (req: any, res: any, next: any) => next(),
+}));
+
+const provider = {
+    name: "test",
+    initiateStkPush: jest.fn(),
+    queryStkPush: jest.fn(),
+};
+
+const callback = (resultCode: number) => ({
+    Body: {
+        stkCallback: {
+            MerchantRequestID: "m-1",
+            CheckoutRequestID: "ws_CO_1",
+            ResultCode: resultCode,
+            ResultDesc: resultCode === 0 ? "Success" : "Request cancelled",
+            CallbackMetadata: {
+                Item: [
+                    { Name: "Amount", Value: 1 },
+                    { Name: "MpesaReceiptNumber", Value: "QK12ABC" },
+                ],
+            },
+        },
+    },
+});
+
+const post = (body: object, token = "cb-secret") =>
+    request(app)
+        .post(`/payments/mpesa/callback?token=${token}`)
+        .send(body);
+
+let completePayment: jest.SpyInstance;
+let updatePaymentStatus: jest.SpyInstance;
+
+beforeAll(() => {
+    mpesaConfig.callbackToken = "cb-secret";
+    MpesaService.setProvider(provider);
+});
+
+beforeEach(() => {
+    resetPrisma();
+    provider.queryStkPush.mockReset();
+    completePayment = jest
+        .spyOn(TransactionService, "completePayment")
+        .mockResolvedValue({} as any);
+    updatePaymentStatus = jest
+        .spyOn(TransactionService, "updatePaymentStatus")
+        .mockResolvedValue({} as any);
+    seed("transaction", [
+        {
+            id: 5,
+            orderId: 10,
+            providerTxId: "ws_CO_1",
+            method: "MPESAEXPRESS",
+            status: "PENDING",
+            amount: 2500,
+        },
+    ]);
+});
+
+afterEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("M-Pesa callbacks", () => {
+    it("refuses callbacks without the shared token", async () => {
+        const res = await post(callback(0), "wrong");
+
+        expect(res.status).toBe(401);
+        expect(completePayment).not.toHaveBeenCalled();
+    });
+
+    it("credits the order once the provider confirms the payment", async () => {
+        provider.queryStkPush.mockResolvedValue({
+            resultCode: 0,
+            resultDesc: "Success",
+        });
+
+        const res = await post(callback(0));
+
+        expect(res.body).toEqual({ ResultCode: 0, ResultDesc: "Accepted" });
+        expect(provider.queryStkPush).toHaveBeenCalledWith("ws_CO_1");
+        expect(completePayment).toHaveBeenCalledWith(
+            5,
+            expect.objectContaining({ providerReference: "QK12ABC" }),
+            expect.anything()
+        );
+    });
+
+    it("ignores a success the provider does not confirm", async () => {
+        provider.queryStkPush.mockResolvedValue({
+            resultCode: 1032,
+            resultDesc: "Request cancelled by user",
+        });
+
+        const res = await post(callback(0));
+
+        // Acknowledged, since Safaricom does not retry, but not applied
+        expect(res.status).toBe(200);
+        expect(completePayment).not.toHaveBeenCalled();
+    });
+
+    it("marks a cancelled prompt as failed", async () => {
+        await post(callback(1032));
+
+        expect(provider.queryStkPush).not.toHaveBeenCalled();
+        expect(updatePaymentStatus).toHaveBeenCalledWith(
+            5,
+            "FAILED",
+            expect.objectContaining({ reason: "Request cancelled" }),
+            expect.anything()
+        );
+    });
+
+    it("ignores a repeated callback for a settled payment", async () => {
+        resetPrisma();
+        seed("transaction", [
+            {
+                id: 5,
+                providerTxId: "ws_CO_1",
+                method: "MPESAEXPRESS",
+                status: "SUCCESS",
+            },
+        ]);
+
+        const res = await post(callback(0));
+
+        expect(res.status).toBe(200);
+        expect(provider.queryStkPush).not.toHaveBeenCalled();
+        expect(completePayment).not.toHaveBeenCalled();
+        expect(updatePaymentStatus).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,110 @@
+import crypto from "crypto";
+import request from "supertest";
+import app from "../app";
+import paymentConfig from "../config/payment.config";
+import { Prisma } from "../generated/prisma/client";
+import TransactionService from "../services/payment/transaction.service";
+import { prismaMock, resetPrisma, seed } from "./helpers/prisma";
+
+const SECRET = "whsec_test";
+
+const succeeded = JSON.stringify({
+    id: "evt_1",
+    type: "payment_intent.succeeded",
+    data: {
+        object: {
+            object: "payment_intent",
+            id: "pi_1",
+            amount_received: 250000,
+            currency: "kes",
+            latest_charge: "ch_1",
+        },
+    },
+});
+
+const sign = (body: string, secret = SECRET) => {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = crypto
+        .createHmac("sha256", secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+    return `t=${timestamp},v1=${signature}`;
+};
+
+const post = (body: string, signature = sign(body)) =>
+    request(app)
+        .post("/payments/webhooks/stripe")
+        .set("Content-Type", "application/json")
+        .set("Stripe-Signature", signature)
+        .send(body);
+
+let completePayment: jest.SpyInstance;
+
+beforeAll(() => {
+    paymentConfig.stripe.webhookSecret = SECRET;
+});
+
+beforeEach(() => {
+    resetPrisma();
+    completePayment = jest
+        .spyOn(TransactionService, "completePayment")
+        .mockResolvedValue({} as any);
+    seed("transaction", [
+        {
+            id: 5,
+            orderId: 10,
+            providerTxId: "pi_1",
+            method: "CARD",
+            type: "PAYMENT",
+            status: "AUTHORIZED",
+        },
+    ]);
+});
+
+afterEach(() => {
+    jest.clearAllMocks();
+});
+
+describe("card webhooks", () => {
+    it("refuses events with a bad signature", async () => {
+        const res = await post(succeeded, sign(succeeded, "whsec_other"));
+
+        expect(res.status).toBe(400);
+        expect(prismaMock.paymentEvent.create).not.toHaveBeenCalled();
+        expect(completePayment).not.toHaveBeenCalled();
+    });
+
+    it("records the event and captures the payment", async () => {
+        const res = await post(succeeded);
+
+        expect(res.body).toMatchObject({ received: true, duplicate: false });
+        expect(prismaMock.paymentEvent.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                provider: "stripe",
+                eventId: "evt_1",
+                transactionId: 5,
+            }),
+        });
+        expect(completePayment).toHaveBeenCalledWith(
+            5,
+            { amount: 2500, providerReference: "ch_1" },
+            expect.anything()
+        );
+    });
+
+    it("acknowledges a repeated event without applying it again", async () => {
+        // The unique (provider, eventId) index rejects the second copy
+        prismaMock.paymentEvent.create.mockRejectedValueOnce(
+            new Prisma.PrismaClientKnownRequestError(
+                "Unique constraint failed",
+                { code: "P2002", clientVersion: "test" }
+            )
+        );
+
+        const res = await post(succeeded);
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ received: true, duplicate: true });
+        expect(completePayment).not.toHaveBeenCalled();
+    });
+});
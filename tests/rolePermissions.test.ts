@@ -0,0 +1,76 @@
+import request from "supertest";
+import app from "../app";
+import { resetPrisma, seed, prismaMock } from "./helpers/prisma";
+import { grantRole, staffAuth } from "./helpers/auth";
+
+// A supervisor who can edit roles, with own-store inventory access
+const supervisor = staffAuth({ id: 3, role: 5, storeId: 1 });
+
+beforeEach(() => {
+    resetPrisma();
+    grantRole(5, ["roles:edit", "inventory:view", "inventory:edit"]);
+
+    seed("role", [{ id: 6, name: "cashier" }]);
+    seed("rolePermission", [
+        {
+            id: 20,
+            roleId: 6,
+            permissionId: 1,
+            scope: "OWN_STORE",
+            permission: { id: 1, resource: "orders", action: "view" },
+        },
+    ]);
+    seed("permission", [
+        { id: 1, resource: "orders", action: "view" },
+        { id: 2, resource: "inventory", action: "view" },
+        { id: 3, resource: "users", action: "edit" },
+    ]);
+});
+
+const sync = (permissions: object[]) =>
+    request(app)
+        .post("/roles/6/permissions")
+        .set(supervisor)
+        .send({ permissions });
+
+describe("syncing a role's permissions", () => {
+    it("rejects permissions missing from the registry", async () => {
+        const res = await sync([{ resource: "reports", actions: ["view"] }]);
+        expect(res.status).toBe(400);
+        expect(res.body.message).toMatch(/reports:view/);
+    });
+
+    it("refuses permissions the caller does not hold", async () => {
+        const res = await sync([{ resource: "users", actions: ["edit"] }]);
+        expect(res.status).toBe(403);
+        expect(prismaMock.rolePermission.create).not.toHaveBeenCalled();
+    });
+
+    it("refuses to widen an own-store grant to every store", async () => {
+        const res = await sync([
+            { resource: "inventory", actions: ["view"], scope: "ALL_STORES" },
+        ]);
+        expect(res.status).toBe(403);
+    });
+
+    it("grants what the caller holds and keeps existing grants", async () => {
+        const res = await sync([
+            { resource: "orders", actions: ["view"], scope: "OWN_STORE" },
+            { resource: "inventory", actions: ["view"], scope: "OWN_STORE" },
+        ]);
+        // orders:view is kept though the caller does not hold it
+        expect(res.status).toBe(200);
+        expect(prismaMock.rolePermission.create).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("updating a single grant", () => {
+    it("refuses a permission the caller does not hold", async () => {
+        const res = await request(app)
+            .patch("/permissions/role-permissions/20")
+            .set(supervisor)
+            .send({ permissionId: 3 });
+        expect(res.status).toBe(403);
+        expect(prismaMock.rolePermission.update).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,92 @@
+import request from "supertest";
+import app from "../app";
+import { PermissionScope } from "../generated/prisma/client";
+import ApiKeyService from "../services/user/apiKey.service";
+import { listRoutes } from "../utils/routeList";
+import { resetPrisma } from "./helpers/prisma";
+
+// Routers mounted behind the audit trail in app.ts
+const ADMIN_PREFIXES = [
+    "/users",
+    "/permissions",
+    "/roles",
+    "/api-keys",
+    "/stores",
+    "/products",
+    "/variants",
+    "/inventory",
+    "/coupons",
+    "/orders",
+    "/shipping",
+    "/returns",
+    "/audit",
+];
+
+const routes = listRoutes(app);
+const label = (route: { method: string; path: string }) =>
+    `${route.method} ${route.path}`;
+
+beforeEach(() => {
+    resetPrisma();
+});
+
+describe("route guards", () => {
+    it("checks a permission on every route open to API keys", () => {
+        const unguarded = routes.filter((r) => r.apiKeys && !r.permission);
+        expect(unguarded.map(label)).toEqual([]);
+    });
+
+    it("requires a staff token for every change to the admin routers", () => {
+        const open = routes.filter(
+            (r) =>
+                r.method !== "GET" &&
+                ADMIN_PREFIXES.some((prefix) => r.path.startsWith(prefix)) &&
+                !r.authenticated
+        );
+        expect(open.map(label)).toEqual([]);
+    });
+});
+
+describe("an inventory-only API key", () => {
+    beforeEach(() => {
+        jest.spyOn(ApiKeyService, "authenticate").mockResolvedValue({
+            id: 1,
+            name: "erp",
+            roleId: null,
+            storeId: null,
+            createdById: 2,
+            grants: new Map([["inventory:edit", PermissionScope.ALL_STORES]]),
+        });
+    });
+
+    it("cannot create users", async () => {
+        const res = await request(app)
+            .post("/users")
+            .set({ Authorization: "ApiKey ak_test" })
+            .send({
+                email: "new@example.com",
+                name: "New",
+                phone: "0712345678",
+                password: "secret1",
+                roleId: 1,
+                active: true,
+            });
+        expect(res.status).toBe(403);
+    });
+
+    it("cannot change the creator's password", async () => {
+        const res = await request(app)
+            .patch("/users/update-password")
+            .set({ Authorization: "ApiKey ak_test" })
+            .send({ currentpassword: "a", password: "b" });
+        expect(res.status).toBe(403);
+    });
+
+    it("cannot create stores", async () => {
+        const res = await request(app)
+            .post("/stores")
+            .set({ Authorization: "ApiKey ak_test" })
+            .send({ name: "Branch" });
+        expect(res.status).toBe(403);
+    });
+});
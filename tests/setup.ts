@@ -0,0 +1,16 @@
+// Environment the app expects at import time
+process.env.ACCESS_TOKEN_SECRET = "test-access-secret";
+process.env.EMAIL_HOST = "localhost";
+process.env.EMAIL_USER = "test";
+process.env.EMAIL_PASSWORD = "test";
+process.env.STRIPE_SECRET_KEY = "sk_test";
+
+// Every PrismaClient is the in-memory fake, so no database is needed
+jest.mock("../generated/prisma/client", () => ({
+    ...jest.requireActual("../generated/prisma/client"),
+    PrismaClient: jest.fn(() => require("./helpers/prisma").prismaMock),
+}));
+
+// Keep request logging out of the test output
+jest.spyOn(console, "log").mockImplementation(() => {});
+jest.spyOn(console, "error").mockImplementation(() => {});
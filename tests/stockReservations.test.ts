@@ -0,0 +1,87 @@
+import OrderService from "../services/order/order.service";
+import InventoryService from "../services/product/inventory.service";
+import StockReservationService from "../services/product/reservation.service";
+import { prismaMock, resetPrisma, seed } from "./helpers/prisma";
+
+const expiredOrder = {
+    id: 10,
+    orderNumber: "ORD-10",
+    storeId: 1,
+    status: "PENDING",
+    paid: false,
+    stockReserved: true,
+    reservationExpiresAt: new Date(Date.now() - 60_000),
+    items: [{ variantId: 4, quantity: 2 }],
+};
+
+beforeEach(() => {
+    resetPrisma();
+    seed("storeVariantStock", [
+        { id: 1, storeId: 1, variantId: 4, quantity: 10, reserved: 2 },
+    ]);
+});
+
+describe("expired reservations", () => {
+    it("cancels the order and releases its stock", async () => {
+        seed("order", [expiredOrder]);
+        prismaMock.order.updateMany.mockResolvedValueOnce({ count: 1 });
+
+        await expect(StockReservationService.releaseExpired()).resolves.toBe(1);
+
+        expect(prismaMock.order.updateMany).toHaveBeenCalledWith(
+            expect.objectContaining({ data: { status: "CANCELLED" } })
+        );
+        expect(prismaMock.storeVariantStock.update).toHaveBeenCalledWith({
+            where: { id: 1 },
+            data: { reserved: { decrement: 2 } },
+        });
+        expect(prismaMock.stockMovement.create).toHaveBeenCalledWith({
+            data: expect.objectContaining({
+                operation: "release",
+                quantity: 2,
+                orderId: 10,
+            }),
+        });
+        expect(prismaMock.orderStatusHistory.create).toHaveBeenCalled();
+    });
+
+    it("leaves an order paid or changed since it was listed", async () => {
+        seed("order", [expiredOrder]);
+        // The claim finds the order no longer PENDING and unpaid
+        prismaMock.order.updateMany.mockResolvedValueOnce({ count: 0 });
+
+        await expect(StockReservationService.releaseExpired()).resolves.toBe(0);
+
+        expect(prismaMock.storeVariantStock.update).not.toHaveBeenCalled();
+        expect(prismaMock.orderStatusHistory.create).not.toHaveBeenCalled();
+    });
+});
+
+describe("order status changes", () => {
+    it("lock the order before reading its status", async () => {
+        seed("order", [{ ...expiredOrder, deletedAt: null, coupons: [] }]);
+
+        await OrderService.updateOrder(10, { status: "PROCESSING" });
+
+        const [lock] = prismaMock.$queryRaw.mock.invocationCallOrder;
+        const [read] = prismaMock.order.findUnique.mock.invocationCallOrder;
+        expect(lock).toBeLessThan(read);
+        expect(prismaMock.$queryRaw.mock.calls[0][0].join("")).toMatch(
+            /FOR UPDATE/
+        );
+    });
+});
+
+describe("bulk stock updates", () => {
+    it("refuse to take on-hand stock below the reserved units", async () => {
+        await expect(
+            InventoryService.bulkUpdateStock(
+                1,
+                [{ variantId: 4, quantity: 9, operation: "decrement" }],
+                { userId: 2, reason: "CORRECTION" }
+            )
+        ).rejects.toThrow(/reserved/);
+
+        expect(prismaMock.storeVariantStock.upsert).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,177 @@
+import request from "supertest";
+import app from "../app";
+import { resetPrisma, seed, prismaMock } from "./helpers/prisma";
+import { grantRole, staffAuth } from "./helpers/auth";
+
+// A branch cashier whose grants are limited to store 1
+const cashier = staffAuth({ id: 3, role: 5, storeId: 1 });
+
+beforeEach(() => {
+    resetPrisma();
+    grantRole(5, [
+        "orders:view",
+        "orders:edit",
+        "inventory:view",
+        "inventory:edit",
+        "products:view",
+    ]);
+
+    seed("order", [
+        {
+            id: 10,
+            orderNumber: "ORD-10",
+            storeId: 2,
+            status: "DELIVERED",
+            deletedAt: null,
+            items: [],
+            coupons: [],
+        },
+    ]);
+    seed("returnRequest", [
+        {
+            id: 7,
+            orderId: 10,
+            status: "REQUESTED",
+            items: [],
+            order: { id: 10, storeId: 2 },
+        },
+    ]);
+});
+
+describe("own-store grants on another store's records", () => {
+    describe("orders", () => {
+        it("hides the order", async () => {
+            const res = await request(app).get("/orders/10").set(cashier);
+            expect(res.status).toBe(404);
+        });
+
+        it("refuses to update the order", async () => {
+            const res = await request(app)
+                .put("/orders/10")
+                .set(cashier)
+                .send({ status: "CANCELLED" });
+            expect(res.status).toBe(404);
+        });
+
+        it("hides the order's payments and refunds", async () => {
+            const payments = await request(app)
+                .get("/orders/10/payments")
+                .set(cashier);
+            const refunds = await request(app)
+                .post("/orders/10/refunds")
+                .set(cashier)
+                .send({ amount: 10 });
+            expect(payments.status).toBe(404);
+            expect(refunds.status).toBe(404);
+        });
+
+        it("refuses a listing filtered to the other store", async () => {
+            const res = await request(app)
+                .get("/orders?storeId=2")
+                .set(cashier);
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe("inventory", () => {
+        it("refuses to read the store's stock", async () => {
+            const res = await request(app)
+                .get("/inventory/stock/4/2")
+                .set(cashier);
+            expect(res.status).toBe(403);
+        });
+
+        it("refuses to change the store's stock", async () => {
+            const single = await request(app)
+                .patch("/inventory/stock/4/2")
+                .set(cashier)
+                .send({
+                    quantity: 5,
+                    stockStatus: "IN_STOCK",
+                    operation: "increment",
+                });
+            const bulk = await request(app)
+                .post("/inventory/stock/bulk/2")
+                .set(cashier)
+                .send({
+                    items: [
+                        { variantId: 4, quantity: 5, operation: "increment" },
+                    ],
+                    reason: "Recount",
+                });
+            expect(single.status).toBe(403);
+            expect(bulk.status).toBe(403);
+            expect(prismaMock.storeVariantStock.update).not.toHaveBeenCalled();
+        });
+
+        it("refuses the store's movement history", async () => {
+            const res = await request(app)
+                .get("/inventory/movements/store/2")
+                .set(cashier);
+            expect(res.status).toBe(403);
+        });
+    });
+
+    describe("products", () => {
+        it("refuses the staff listing of the store", async () => {
+            const res = await request(app)
+                .get("/products/admin/store/2")
+                .set(cashier);
+            expect(res.status).toBe(403);
+        });
+
+        it("keeps the storefront listing public", async () => {
+            const res = await request(app).get("/products/store/2");
+            expect(res.status).toBe(200);
+        });
+    });
+
+    describe("returns", () => {
+        it("hides the return", async () => {
+            const res = await request(app).get("/returns/7").set(cashier);
+            expect(res.status).toBe(404);
+        });
+
+        it.each(["approve", "reject", "receive"])(
+            "refuses to %s the return",
+            async (action) => {
+                const res = await request(app)
+                    .post(`/returns/7/${action}`)
+                    .set(cashier)
+                    .send({ note: "Checked" });
+                expect(res.status).toBe(404);
+                expect(prismaMock.returnRequest.update).not.toHaveBeenCalled();
+            }
+        );
+
+        it("lists only the user's store", async () => {
+            const res = await request(app).get("/returns").set(cashier);
+            expect(res.status).toBe(200);
+            expect(prismaMock.returnRequest.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    where: expect.objectContaining({
+                        order: { storeId: 1 },
+                    }),
+                })
+            );
+        });
+    });
+});
+
+describe("own-store grants on their own store", () => {
+    it("shows the store's order", async () => {
+        seed("order", [
+            {
+                id: 11,
+                orderNumber: "ORD-11",
+                storeId: 1,
+                status: "PENDING",
+                paymentMethod: "CASH",
+                placedAt: new Date(),
+                deletedAt: null,
+            },
+        ]);
+        const res = await request(app).get("/orders/11").set(cashier);
+        expect(res.status).toBe(200);
+    });
+});
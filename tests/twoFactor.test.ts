@@ -0,0 +1,122 @@
+import TwoFactorService from "../services/user/twoFactor.service";
+import { totpCode, totpStep } from "../utils/totp";
+import { prismaMock, resetPrisma, seed } from "./helpers/prisma";
+
+const client = { ip: "127.0.0.1" };
+
+let user: Record<string, any>;
+let secret: string;
+
+// A TOTP step is only accepted after the last one used
+const newerStep = (condition: Record<string, any>) =>
+    condition.twoFactorStep === null
+        ? user.twoFactorStep === null
+        : user.twoFactorStep !== null &&
+          user.twoFactorStep < condition.twoFactorStep.lt;
+
+// Conditional updates as the database applies them: the row only changes
+// (and counts) when it still matches the attempt limit, challenge and
+// time step
+const updateMany = async ({ where, data }: Record<string, any>) => {
+    const matches =
+        where.id === user.id &&
+        (where.OR === undefined || where.OR.some(newerStep)) &&
+        (where.twoFactorFailures === undefined ||
+            user.twoFactorFailures < where.twoFactorFailures.lt) &&
+        (where.twoFactorChallenge === undefined ||
+            user.twoFactorChallenge === where.twoFactorChallenge);
+    if (!matches) return { count: 0 };
+
+    const { twoFactorFailures, ...rest } = data;
+    if (twoFactorFailures?.increment) {
+        user.twoFactorFailures += twoFactorFailures.increment;
+    }
+    Object.assign(user, rest);
+    return { count: 1 };
+};
+
+// The challenge ID a login token carries
+const login = async () => {
+    const token = await TwoFactorService.createChallenge(
+        user.id,
+        "2fa-login",
+        client
+    );
+    return TwoFactorService.readChallenge(token, "2fa-login").challengeId;
+};
+
+beforeEach(async () => {
+    resetPrisma();
+    user = {
+        id: 3,
+        email: "staff3@example.com",
+        active: true,
+        deletedAt: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorStep: null,
+        twoFactorChallenge: null,
+        twoFactorFailures: 0,
+        recoveryCodes: [],
+        role: { requireTwoFactor: false },
+    };
+    seed("user", [user]);
+    prismaMock.user.updateMany.mockImplementation(updateMany);
+
+    ({ secret } = await TwoFactorService.beginEnrollment(user.id));
+    user.twoFactorEnabled = true;
+});
+
+describe("two-factor attempt limit", () => {
+    it("refuses every code after five invalid ones", async () => {
+        const challengeId = await login();
+
+        for (let i = 0; i < 5; i++) {
+            await expect(
+                TwoFactorService.verify(user.id, "000000", challengeId)
+            ).rejects.toMatchObject({ status: 401 });
+        }
+
+        // Even the right code, until the user signs in again
+        const valid = totpCode(secret, totpStep());
+        await expect(
+            TwoFactorService.verify(user.id, valid, challengeId)
+        ).rejects.toMatchObject({ status: 429 });
+    });
+
+    it("gives a new login a fresh allowance", async () => {
+        const first = await login();
+        for (let i = 0; i < 5; i++) {
+            await TwoFactorService.verify(user.id, "000000", first).catch(
+                () => {}
+            );
+        }
+
+        const second = await login();
+        const valid = totpCode(secret, totpStep());
+        await expect(
+            TwoFactorService.verify(user.id, valid, second)
+        ).resolves.toBeUndefined();
+        expect(user.twoFactorFailures).toBe(0);
+        expect(user.twoFactorChallenge).toBeNull();
+    });
+
+    it("refuses codes for a challenge replaced by a newer login", async () => {
+        const first = await login();
+        await login();
+
+        const valid = totpCode(secret, totpStep());
+        await expect(
+            TwoFactorService.verify(user.id, valid, first)
+        ).rejects.toMatchObject({ status: 401 });
+    });
+
+    it("accepts each code only once", async () => {
+        const valid = totpCode(secret, totpStep());
+        await TwoFactorService.verify(user.id, valid, await login());
+
+        await expect(
+            TwoFactorService.verify(user.id, valid, await login())
+        ).rejects.toMatchObject({ status: 401 });
+    });
+});
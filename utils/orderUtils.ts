@@ -1,45 +1,47 @@
-import { PrismaClient } from "@prisma/client";
+import { prisma } from "./prisma";
+import { Prisma, PrismaClient } from "../generated/prisma/client";
 
-const prisma = new PrismaClient();
+type Db = Prisma.TransactionClient | PrismaClient;
+
+export const DEFAULT_ORDER_PREFIX = "ORD";
+
+// Prefixes are short upper-case codes without dashes, e.g. ORD or NBI
+export const ORDER_PREFIX_PATTERN = /^[A-Z0-9]{2,6}$/;
 
 /**
  * Generate a unique order number
- * Format: ORD-YYYYMMDD-XXXXXX (e.g., ORD-20240101-000001)
+ * Format: PREFIX-YYYYMMDD-XXXXXX (e.g., ORD-20240101-000001)
+ *
+ * The per-day counter is bumped with a single atomic upsert. Called inside
+ * the order transaction, the counter row stays locked until the order is
+ * committed, so concurrent checkouts never share a number and a rolled
+ * back order does not leave a gap.
  */
-export async function generateOrderNumber(): Promise<string> {
-    const today = new Date();
-    const datePrefix = today.toISOString().slice(0, 10).replace(/-/g, "");
-    const basePrefix = `ORD-${datePrefix}-`;
-
-    // Get the highest order number for today
-    const lastOrder = await prisma.order.findFirst({
-        where: {
-            orderNumber: {
-                startsWith: basePrefix,
-            },
-        },
-        orderBy: {
-            orderNumber: "desc",
-        },
-    });
-
-    let sequence = 1;
-    if (lastOrder) {
-        const lastSequence = parseInt(lastOrder.orderNumber.split("-")[2]);
-        sequence = lastSequence + 1;
-    }
+export async function generateOrderNumber(
+    db: Db = prisma,
+    prefix: string = DEFAULT_ORDER_PREFIX
+): Promise<string> {
+    const datePrefix = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+    const [{ lastValue }] = await db.$queryRaw<{ lastValue: number }[]>`
+        INSERT INTO "OrderSequence" ("prefix", "date", "lastValue")
+        VALUES (${prefix}, ${datePrefix}, 1)
+        ON CONFLICT ("prefix", "date")
+        DO UPDATE SET "lastValue" = "OrderSequence"."lastValue" + 1
+        RETURNING "lastValue"
+    `;
 
     // Format sequence with leading zeros (6 digits)
-    const sequenceStr = sequence.toString().padStart(6, "0");
+    const sequenceStr = lastValue.toString().padStart(6, "0");
 
-    return `${basePrefix}${sequenceStr}`;
+    return `${prefix}-${datePrefix}-${sequenceStr}`;
 }
 
 /**
  * Validate order number format
  */
 export function isValidOrderNumber(orderNumber: string): boolean {
-    const pattern = /^ORD-\d{8}-\d{6}$/;
+    const pattern = /^[A-Z0-9]{2,6}-\d{8}-\d{6}$/;
     return pattern.test(orderNumber);
 }
 
@@ -131,6 +133,69 @@ export function canReturnOrder(status: string): boolean {
     return status === "DELIVERED";
 }
 
+/**
+ * Build the customer-facing tracking timeline from the recorded status
+ * history. Cancelled and returned orders end with that step.
+ */
+export function buildTrackingTimeline(order: {
+    status: string;
+    placedAt: Date;
+    statusHistory?: Array<{ toStatus: string; createdAt: Date }>;
+}) {
+    const history = order.statusHistory || [];
+    const reachedAt = (status: string) =>
+        history.find((entry) => entry.toStatus === status)?.createdAt || null;
+
+    const steps = [
+        {
+            status: "PENDING",
+            title: "Order Placed",
+            description: "Your order has been received and is being processed",
+        },
+        {
+            status: "PROCESSING",
+            title: "Order Processing",
+            description: "Your order is being prepared for shipment",
+        },
+        {
+            status: "SHIPPED",
+            title: "Order Shipped",
+            description: "Your order has been shipped and is on its way",
+        },
+        {
+            status: "DELIVERED",
+            title: "Order Delivered",
+            description: "Your order has been delivered successfully",
+        },
+    ];
+
+    if (order.status === "CANCELLED") {
+        steps.push({
+            status: "CANCELLED",
+            title: "Order Cancelled",
+            description: "Your order has been cancelled",
+        });
+    } else if (order.status === "RETURNED") {
+        steps.push({
+            status: "RETURNED",
+            title: "Order Returned",
+            description: "Your order has been returned",
+        });
+    }
+
+    return steps.map((step) => {
+        const date =
+            step.status === "PENDING"
+                ? reachedAt("PENDING") || order.placedAt
+                : reachedAt(step.status);
+        return {
+            ...step,
+            date,
+            completed: date !== null,
+        };
+    });
+}
+
 /**
  * Get order status color for UI
  */
@@ -0,0 +1,97 @@
+import { Application } from "express";
+import verifyJWT, { denyApiKeys } from "../middleware/verifyJWT";
+import { PermissionCheck } from "../middleware/rbac";
+
+export interface RouteInfo {
+    method: string;
+    path: string;
+    authenticated: boolean; // Behind verifyJWT (staff token)
+    apiKeys: boolean; // Behind verifyJWT and open to API keys
+    permission: string | null; // "resource:action" from requirePermission
+}
+
+interface Guards {
+    authenticated: boolean;
+    apiKeysDenied: boolean;
+    permission: PermissionCheck | null;
+}
+
+// Express keeps a router's mount path only as a regular expression,
+// e.g. /^\/orders\/?(?=\/|$)/i for "/orders"
+const mountPath = (layer: any): string => {
+    if (layer.regexp.fast_slash) return "";
+    return layer.regexp.source
+        .replace(/^\^/, "")
+        .replace("\\/?(?=\\/|$)", "")
+        .replace(/\\\//g, "/");
+};
+
+// express-async-errors wraps every handler, so verifyJWT and denyApiKeys
+// are recognised by name; the wrapper keeps requirePermission's tag
+const applyGuard = (guards: Guards, layer: any): Guards => ({
+    authenticated: guards.authenticated || layer.name === verifyJWT.name,
+    apiKeysDenied: guards.apiKeysDenied || layer.name === denyApiKeys.name,
+    permission: layer.handle.permission || guards.permission,
+});
+
+const collect = (
+    stack: any[],
+    prefix: string,
+    inherited: Guards,
+    routes: RouteInfo[]
+) => {
+    // Router-level middleware guards the routes registered after it
+    let guards = inherited;
+
+    for (const layer of stack) {
+        if (layer.route) {
+            const route = layer.route;
+
+            // The 404 handler matches every path and method
+            if (route.path === "*") continue;
+
+            for (const method of Object.keys(route.methods)) {
+                // Guards can differ per method on one route
+                const { authenticated, apiKeysDenied, permission } = route.stack
+                    .filter((l: any) => !l.method || l.method === method)
+                    .reduce(
+                        (acc: Guards, l: any) => applyGuard(acc, l),
+                        guards
+                    );
+
+                routes.push({
+                    method: method.toUpperCase(),
+                    path: `${prefix}${route.path}`.replace(/\/$/, "") || "/",
+                    authenticated,
+                    apiKeys: authenticated && !apiKeysDenied,
+                    permission: permission
+                        ? `${permission.resource}:${permission.action}`
+                        : null,
+                });
+            }
+        } else if (layer.name === "router") {
+            const path = prefix + mountPath(layer);
+            collect(layer.handle.stack, path, guards, routes);
+        } else {
+            guards = applyGuard(guards, layer);
+        }
+    }
+};
+
+/**
+ * List every route of the app with the authentication and permission it
+ * requires, in registration order
+ */
+export function listRoutes(app: Application): RouteInfo[] {
+    const routes: RouteInfo[] = [];
+    const router = (app as any)._router;
+    if (router) {
+        collect(
+            router.stack,
+            "",
+            { authenticated: false, apiKeysDenied: false, permission: null },
+            routes
+        );
+    }
+    return routes;
+}
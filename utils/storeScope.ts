@@ -0,0 +1,56 @@
+/**
+ * Stores a staff request may act on, set by requirePermission: the user's
+ * store ID when their permission is limited to their own store, or
+ * undefined when it covers every store
+ */
+export type StoreScope = number | undefined;
+
+const scopeError = (message: string, status = 403) => {
+    const err = new Error(message);
+    (err as any).status = status;
+    return err;
+};
+
+/**
+ * Store filter for a listing. An unscoped request keeps the filter it
+ * asked for; a scoped one is pinned to its store and may not ask for
+ * another.
+ */
+export function scopedStoreId(
+    scope: StoreScope,
+    storeId?: number
+): number | undefined {
+    if (scope === undefined) return storeId;
+    if (storeId !== undefined && storeId !== scope) {
+        throw scopeError("You can only access your own store");
+    }
+    return scope;
+}
+
+/**
+ * Refuse a request that names a store outside its scope
+ */
+export function assertStoreInScope(scope: StoreScope, storeId: number): void {
+    scopedStoreId(scope, storeId);
+}
+
+/**
+ * Refuse changes that affect every store (e.g. variant pricing) from a
+ * request limited to one store
+ */
+export function assertAllStores(scope: StoreScope): void {
+    if (scope !== undefined) {
+        throw scopeError("This change requires access to all stores");
+    }
+}
+
+/**
+ * Whether a record's store is visible to the scope. Records outside it
+ * are treated as not found so other stores' IDs are not revealed.
+ */
+export function isInStoreScope(
+    scope: StoreScope,
+    storeId: number | null
+): boolean {
+    return scope === undefined || storeId === scope;
+}
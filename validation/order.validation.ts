@@ -27,54 +27,41 @@ export const OrderItemSchema = z.object({
         .int()
         .positive("Variant ID must be a positive integer"),
     quantity: z.number().int().positive().min(1, "Quantity must be at least 1"),
-    price: z.number().positive("Price must be positive"),
+    price: z.number().positive("Price must be positive").optional(),
 });
 
 // Create Order Schema (Customer)
-export const CreateOrderSchema = z
-    .object({
-        addressId: z
-            .number()
-            .int()
-            .positive("Address ID must be a positive integer")
-            .optional(),
-        items: z
-            .array(OrderItemSchema)
-            .min(1, "At least one item is required")
-            .max(50, "Maximum 50 items per order"),
-        paymentMethod: PaymentMethodSchema,
-        totalAmount: z.number().positive("Total amount must be positive"),
-        notes: z
-            .string()
-            .max(1000, "Notes cannot exceed 1000 characters")
-            .optional(),
-        storeId: z
-            .number()
-            .int()
-            .positive("Store ID must be a positive integer")
-            .optional(),
-        couponCodes: z
-            .array(z.string().min(1, "Coupon code cannot be empty"))
-            .max(5, "Maximum 5 coupons per order")
-            .optional(),
-        shippingMethod: z
-            .enum(["standard", "express", "overnight"])
-            .default("standard"),
-    })
-    .refine(
-        (data) => {
-            // Validate total amount matches items
-            const calculatedTotal = data.items.reduce(
-                (sum, item) => sum + item.price * item.quantity,
-                0
-            );
-            return Math.abs(calculatedTotal - data.totalAmount) <= 0.01;
-        },
-        {
-            message: "Total amount must match the sum of item prices",
-            path: ["totalAmount"],
-        }
-    );
+// Item prices and totalAmount are optional: the server prices the order and
+// rejects client values that do not match.
+export const CreateOrderSchema = z.object({
+    addressId: z
+        .number()
+        .int()
+        .positive("Address ID must be a positive integer")
+        .optional(),
+    items: z
+        .array(OrderItemSchema)
+        .min(1, "At least one item is required")
+        .max(50, "Maximum 50 items per order"),
+    paymentMethod: PaymentMethodSchema,
+    totalAmount: z
+        .number()
+        .positive("Total amount must be positive")
+        .optional(),
+    notes: z
+        .string()
+        .max(1000, "Notes cannot exceed 1000 characters")
+        .optional(),
+    storeId: z
+        .number()
+        .int()
+        .positive("Store ID must be a positive integer")
+        .optional(),
+    couponCodes: z
+        .array(z.string().min(1, "Coupon code cannot be empty"))
+        .max(5, "Maximum 5 coupons per order")
+        .optional(),
+});
 
 // Update Order Schema (Admin)
 export const UpdateOrderSchema = z.object({